@@ -0,0 +1,226 @@
+import fs from 'fs';
+import { MongoClient, TransactionOptions, WriteConcern } from 'mongodb';
+import { getConfig } from './config';
+import { buildUri } from './connection';
+import { describeOutcome, matchesExpected, runScenario } from './runner';
+import { getScenario } from './scenarios';
+import { printTable, rule } from './util';
+
+/**
+ * The options a service passes besides its connection string, in the
+ * shapes the driver takes them.
+ */
+export interface AuditOptions {
+  /** client.startSession() options */
+  session?: { defaultTimeoutMS?: number; defaultTransactionOptions?: TransactionOptions };
+  /** startTransaction() / withTransaction() options; override the session defaults */
+  transaction?: TransactionOptions;
+  /** Options given to each find/insert/update */
+  operation?: { maxTimeMS?: number; timeoutMS?: number };
+}
+
+/**
+ * - unbounded: a fault can block the service forever
+ * - long:      bounded, but by a wait long enough to look like a hang
+ */
+export type Severity = 'unbounded' | 'long';
+
+export interface AuditFinding {
+  id: string;
+  severity: Severity;
+  /** The setting as the driver sees it, e.g. socketTimeoutMS=0 (default) */
+  setting: string;
+  risk: string;
+  fix: string;
+  /** Scenario in this repo that reproduces the risk */
+  scenario: string;
+}
+
+export interface AuditConfirmation {
+  finding: AuditFinding;
+  outcome: string;
+  /** The scenario ended the way it declares, i.e. the risk is real against this replica set */
+  confirmed: boolean;
+}
+
+// Above this, waiting for a primary is indistinguishable from a hang for callers
+const LONG_SERVER_SELECTION_MS = 60000;
+
+// mongodb 6.x adds this wtimeout to commitTransaction when a write concern
+// is set and timeoutMS is not (see ClientSession.commitTransaction)
+const DRIVER_COMMIT_WTIMEOUT_MS = 10000;
+
+export function loadAuditOptions(file: string | undefined): AuditOptions {
+  if (!file) {
+    return {};
+  }
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${file}: expected a JSON object with session/transaction/operation sections`);
+  }
+  return parsed;
+}
+
+/**
+ * The repro's own settings as an audit target, for `audit` without arguments.
+ */
+export function configuredTarget(): { uri: string; options: AuditOptions } {
+  const { transaction } = getConfig();
+  return {
+    uri: buildUri({}),
+    options: {
+      transaction: {
+        readConcern: { level: transaction.readConcern },
+        writeConcern: { w: transaction.w, wtimeoutMS: transaction.wtimeoutMS, journal: transaction.journal },
+        maxCommitTimeMS: transaction.maxCommitTimeMS
+      },
+      operation: { maxTimeMS: transaction.maxTimeMS }
+    }
+  };
+}
+
+// Option names in connection strings are case-insensitive
+function inUri(uri: string, name: string): boolean {
+  const query = uri.split('?')[1] ?? '';
+  return [...new URLSearchParams(query).keys()].some(key => key.toLowerCase() === name.toLowerCase());
+}
+
+// timeoutMS=0 means "no limit", like leaving it out
+function limit(value: number | undefined): number | undefined {
+  return value !== undefined && value > 0 ? value : undefined;
+}
+
+/**
+ * Check a connection string and the session/transaction/operation options
+ * for waits nothing bounds. The string is parsed by the driver itself, so
+ * its defaults apply; nothing connects.
+ */
+export function auditSettings(uri: string, options: AuditOptions): AuditFinding[] {
+  const client = new MongoClient(uri);
+  const parsed = client.options;
+  const transaction = { ...options.session?.defaultTransactionOptions, ...options.transaction };
+  const findings: AuditFinding[] = [];
+
+  // The narrowest timeoutMS wins; any of them bounds every wait below it
+  const timeoutMS = limit(options.operation?.timeoutMS) ?? limit(options.session?.defaultTimeoutMS) ?? limit(parsed.timeoutMS);
+  if (timeoutMS !== undefined) {
+    return findings;
+  }
+
+  if (!(parsed.socketTimeoutMS > 0)) {
+    findings.push({
+      id: 'infinite-socket-timeout',
+      severity: 'unbounded',
+      setting: `socketTimeoutMS=${parsed.socketTimeoutMS}${inUri(uri, 'socketTimeoutMS') ? '' : ' (default)'}`,
+      risk: 'A member that stops answering on an open connection (paused, partitioned, overloaded) blocks the operation forever',
+      fix: 'Set timeoutMS, or socketTimeoutMS above the slowest expected operation',
+      scenario: 'pause-primary'
+    });
+  }
+
+  const writeConcern = WriteConcern.fromOptions(transaction) ?? parsed.writeConcern;
+  const w = writeConcern?.w ?? 'majority';
+  const waitsForReplication = w !== 0 && w !== 1;
+  if (waitsForReplication && !limit(writeConcern?.wtimeoutMS)) {
+    findings.push(writeConcern
+      ? {
+        id: 'missing-wtimeout',
+        severity: 'long',
+        setting: `writeConcern w=${w}, no wtimeout`,
+        risk: `Only commitTransaction is bounded, by the driver's implicit wtimeout of ${DRIVER_COMMIT_WTIMEOUT_MS}ms; ` +
+          'writes outside transactions wait for replication forever',
+        fix: 'Set wtimeout (or timeoutMS) in the write concern',
+        scenario: 'hang-on-commit'
+      }
+      : {
+        id: 'missing-wtimeout',
+        severity: 'unbounded',
+        setting: 'no write concern (server default w=majority, no wtimeout)',
+        risk: 'Once the majority is lost, commits and writes wait for replication forever',
+        fix: 'Set a write concern with wtimeout (or timeoutMS)',
+        scenario: 'hang-on-commit'
+      });
+  }
+
+  if (!limit(transaction.maxCommitTimeMS)) {
+    findings.push({
+      id: 'missing-max-commit-time',
+      severity: 'unbounded',
+      setting: 'no maxCommitTimeMS',
+      risk: 'commitTransaction has no server-side time limit',
+      fix: 'Set maxCommitTimeMS in the transaction options (or timeoutMS)',
+      scenario: 'hang-on-commit'
+    });
+  }
+
+  if (!limit(options.operation?.maxTimeMS)) {
+    findings.push({
+      id: 'missing-operation-time-limit',
+      severity: 'unbounded',
+      setting: 'no maxTimeMS or timeoutMS on operations',
+      risk: 'Reads and writes inside the transaction wait forever for a majority snapshot or a lock',
+      fix: 'Pass maxTimeMS to every operation, or set timeoutMS on the client or session',
+      scenario: 'no-timeout-hang-on-write'
+    });
+  }
+
+  if (parsed.serverSelectionTimeoutMS > LONG_SERVER_SELECTION_MS) {
+    findings.push({
+      id: 'long-server-selection',
+      severity: 'long',
+      setting: `serverSelectionTimeoutMS=${parsed.serverSelectionTimeoutMS}`,
+      risk: 'Without a primary, every operation waits this long before failing',
+      fix: `Keep serverSelectionTimeoutMS at or below ${LONG_SERVER_SELECTION_MS} (driver default 30000), or set timeoutMS`,
+      scenario: 'server-selection-no-primary'
+    });
+  }
+
+  return findings;
+}
+
+export function printAudit(uri: string, findings: AuditFinding[]): void {
+  console.log(rule());
+  console.log(`Timeout audit of ${uri}`);
+  console.log(rule());
+  if (findings.length === 0) {
+    console.log('✓ Every wait is bounded\n');
+    return;
+  }
+  for (const finding of findings) {
+    console.log(`${finding.severity === 'unbounded' ? '⛔' : '⚠️ '} ${finding.id}: ${finding.setting}`);
+    console.log(`   ${finding.risk}`);
+    console.log(`   Fix: ${finding.fix}`);
+    console.log(`   Reproduce: npm run scenario -- run ${finding.scenario}`);
+    console.log('');
+  }
+}
+
+/**
+ * Run the scenario behind each finding (once per scenario) against the
+ * configured replica set.
+ */
+export async function confirmFindings(findings: AuditFinding[]): Promise<AuditConfirmation[]> {
+  const outcomes = new Map<string, { outcome: string; confirmed: boolean }>();
+  for (const finding of findings) {
+    if (outcomes.has(finding.scenario)) {
+      continue;
+    }
+    const scenario = getScenario(finding.scenario);
+    if (!scenario) {
+      throw new Error(`Finding ${finding.id} references unknown scenario ${finding.scenario}`);
+    }
+    const result = await runScenario(scenario);
+    outcomes.set(finding.scenario, { outcome: describeOutcome(result), confirmed: matchesExpected(result, scenario.expected) });
+  }
+
+  const confirmations = findings.map(finding => ({ finding, ...outcomes.get(finding.scenario) as { outcome: string; confirmed: boolean } }));
+  console.log(rule());
+  console.log('Audit findings confirmed by their scenarios');
+  console.log(rule());
+  printTable(
+    ['Finding', 'Scenario', 'Outcome', 'Confirmed'],
+    confirmations.map(c => [c.finding.id, c.finding.scenario, c.outcome, c.confirmed ? '✓' : '✗'])
+  );
+  console.log('');
+  return confirmations;
+}
@@ -0,0 +1,341 @@
+import { CompletedOp, completedOps, HistoryOp, TxnMicroOp } from './history';
+
+export type RegisterValue = number | null;
+
+/**
+ * A register operation as the linearizability search sees it: ok operations
+ * must take effect between their invocation and completion, indeterminate
+ * ones at any point after their invocation, or never.
+ */
+interface RegisterOp {
+  f: 'read' | 'write' | 'cas';
+  /** Value written, [expected, new] for cas, value read for read */
+  value: unknown;
+  start: number;
+  end: number;
+  ok: boolean;
+  invoke: HistoryOp;
+}
+
+export interface LinearizabilityResult {
+  /** unknown: the search ran out of its state budget */
+  valid: boolean | 'unknown';
+  /** ok and indeterminate operations that had to be placed */
+  operations: number;
+  indeterminate: number;
+  statesExplored: number;
+  /**
+   * Where the search got furthest: the register value after the longest
+   * linearizable prefix, and the operations none of which could go next
+   */
+  failure?: {
+    linearized: number;
+    value: RegisterValue;
+    candidates: { index: number; process: number; f: string; value: unknown; type: string }[];
+  };
+}
+
+export type AnomalyType = 'lost-update' | 'non-repeatable-read' | 'aborted-read';
+
+export interface Anomaly {
+  type: AnomalyType;
+  key: number;
+  /** History indexes of the invocations involved */
+  ops: number[];
+  detail: string;
+}
+
+export interface TransactionCheckResult {
+  valid: boolean;
+  committed: number;
+  /** Indeterminate transactions whose write was seen, so they committed */
+  committedIndeterminate: number;
+  indeterminate: number;
+  failed: number;
+  anomalies: Anomaly[];
+}
+
+// Bounds the search; a history this hard to place is reported as unknown
+const MAX_STATES = 2_000_000;
+
+class SearchBudgetExceeded extends Error {}
+
+function registerOps(ops: HistoryOp[]): RegisterOp[] {
+  const result: RegisterOp[] = [];
+  for (const { f, invoke, completion } of completedOps(ops)) {
+    if (f === 'txn' || completion.type === 'fail') {
+      continue;
+    }
+    const ok = completion.type === 'ok';
+    // An indeterminate read has no effect and no value to check
+    if (f === 'read' && !ok) {
+      continue;
+    }
+    result.push({
+      f,
+      value: f === 'read' ? completion.value : invoke.value,
+      start: invoke.index,
+      end: ok ? completion.index : Infinity,
+      ok,
+      invoke
+    });
+  }
+  return result.sort((a, b) => a.start - b.start);
+}
+
+// The register after op, or undefined when op cannot happen on this value.
+// Values come from a recorded history, so they are taken as the workload wrote them.
+function step(value: RegisterValue, op: RegisterOp): RegisterValue | undefined {
+  switch (op.f) {
+    case 'read':
+      return op.value === value ? value : undefined;
+    case 'write':
+      return op.value as RegisterValue;
+    case 'cas': {
+      const [expected, next] = op.value as [RegisterValue, RegisterValue];
+      return expected === value ? next : undefined;
+    }
+  }
+}
+
+/**
+ * A state of the search: the register value once the placed operations
+ * took effect, and the operations that may go next, tried in order.
+ */
+interface Frame {
+  value: RegisterValue;
+  linearized: number;
+  candidates: number[];
+  next: number;
+  /** The operation placed to reach this state; undone when leaving it */
+  placed?: number;
+}
+
+/**
+ * Check a single-register history (read, write, cas) for linearizability
+ * with a Wing & Gong search: repeatedly pick an operation that may take
+ * effect next - invoked before every remaining ok operation completed -
+ * and backtrack when the register rules it out. Visited (placed set,
+ * value) pairs are memoized. The search keeps its own stack, so a long
+ * history cannot overflow the call stack.
+ */
+export function checkLinearizable(
+  ops: HistoryOp[],
+  initial: RegisterValue = null,
+  maxStates: number = MAX_STATES
+): LinearizabilityResult {
+  const entries = registerOps(ops);
+  const total = entries.filter(e => e.ok).length;
+  const result = {
+    operations: entries.length,
+    indeterminate: entries.filter(e => !e.ok).length
+  };
+
+  const placed = new Uint8Array(entries.length);
+  // Every entry before low is placed; the key only spells out the rest
+  let low = 0;
+  let placedBits = 0n;
+  const toggle = (i: number, on: boolean): void => {
+    placed[i] = on ? 1 : 0;
+    placedBits ^= 1n << BigInt(i);
+    if (!on && i < low) {
+      low = i;
+    }
+    while (low < entries.length && placed[low]) {
+      low++;
+    }
+  };
+
+  // Operations that may take effect next, in invocation order
+  const candidates = (): number[] => {
+    let deadline = Infinity;
+    for (let i = low; i < entries.length && entries[i].start < deadline; i++) {
+      if (entries[i].ok && !placed[i]) {
+        deadline = Math.min(deadline, entries[i].end);
+      }
+    }
+    const next: number[] = [];
+    for (let i = low; i < entries.length && entries[i].start < deadline; i++) {
+      if (!placed[i]) {
+        next.push(i);
+      }
+    }
+    return next;
+  };
+
+  const seen = new Set<string>();
+  let statesExplored = 0;
+  let best = { linearized: -1, value: initial, candidates: [] as number[] };
+  // False when the state was already visited
+  const visit = (value: RegisterValue): boolean => {
+    const key = `${low}:${(placedBits >> BigInt(low)).toString(36)}:${value}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    if (++statesExplored > maxStates) {
+      throw new SearchBudgetExceeded();
+    }
+    return true;
+  };
+
+  const search = (): boolean => {
+    if (total === 0) {
+      return true;
+    }
+    visit(initial);
+    const stack: Frame[] = [{ value: initial, linearized: 0, candidates: candidates(), next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next === frame.candidates.length) {
+        if (frame.linearized > best.linearized) {
+          best = { linearized: frame.linearized, value: frame.value, candidates: frame.candidates };
+        }
+        stack.pop();
+        if (frame.placed !== undefined) {
+          toggle(frame.placed, false);
+        }
+        continue;
+      }
+
+      const i = frame.candidates[frame.next++];
+      const value = step(frame.value, entries[i]);
+      if (value === undefined) {
+        continue;
+      }
+      const linearized = frame.linearized + (entries[i].ok ? 1 : 0);
+      if (linearized === total) {
+        return true;
+      }
+      toggle(i, true);
+      if (!visit(value)) {
+        toggle(i, false);
+        continue;
+      }
+      stack.push({ value, linearized, candidates: candidates(), next: 0, placed: i });
+    }
+    return false;
+  };
+
+  try {
+    if (search()) {
+      return { valid: true, ...result, statesExplored };
+    }
+  } catch (error: any) {
+    if (error instanceof SearchBudgetExceeded) {
+      return { valid: 'unknown', ...result, statesExplored };
+    }
+    throw error;
+  }
+  return {
+    valid: false,
+    ...result,
+    statesExplored,
+    failure: {
+      linearized: best.linearized,
+      value: best.value,
+      candidates: best.candidates.map(i => entries[i]).map(c => ({
+        index: c.invoke.index,
+        process: c.invoke.process,
+        f: c.f,
+        value: c.value,
+        type: c.ok ? 'ok' : 'info'
+      }))
+    }
+  };
+}
+
+function writes(txn: TxnMicroOp[]): TxnMicroOp[] {
+  return txn.filter(([kind]) => kind === 'w');
+}
+
+/**
+ * Check a history of read-modify-write transactions, each reading a key
+ * twice and then writing a value no other transaction writes:
+ *
+ * - lost-update:         two committed transactions read the same value of
+ *                        a key and both overwrote it
+ * - non-repeatable-read: one transaction read a key twice and saw two values
+ * - aborted-read:        a committed transaction read a value only a failed
+ *                        transaction wrote
+ *
+ * Snapshot isolation (readConcern majority or snapshot in a transaction)
+ * rules out all three.
+ */
+export function checkTransactions(ops: HistoryOp[]): TransactionCheckResult {
+  const txns = completedOps(ops).filter(op => op.f === 'txn');
+  const ok = txns.filter(t => t.completion.type === 'ok');
+  const indeterminate = txns.filter(t => t.completion.type === 'info');
+  const failed = txns.filter(t => t.completion.type === 'fail');
+  const anomalies: Anomaly[] = [];
+
+  const observed = new Set<number>();
+  for (const txn of ok) {
+    for (const [kind, , value] of txn.completion.value as TxnMicroOp[]) {
+      if (kind === 'r' && value !== null) {
+        observed.add(value);
+      }
+    }
+  }
+  const committedIndeterminate = indeterminate.filter(t =>
+    writes(t.invoke.value as TxnMicroOp[]).some(([, , value]) => value !== null && observed.has(value)));
+
+  const writtenBy = (group: CompletedOp[]) => new Map(group.flatMap(t =>
+    writes(t.invoke.value as TxnMicroOp[]).map(([, , value]) => [value, t] as const)));
+  const abortedWrites = writtenBy(failed);
+
+  // Committed transactions by the key and value their first read saw
+  const readers = new Map<string, CompletedOp[]>();
+  for (const txn of ok) {
+    const micro = txn.completion.value as TxnMicroOp[];
+    const reads = new Map<number, RegisterValue[]>();
+    for (const [kind, key, value] of micro) {
+      if (kind === 'r') {
+        reads.set(key, [...(reads.get(key) ?? []), value]);
+        const writer = value !== null ? abortedWrites.get(value) : undefined;
+        if (writer) {
+          anomalies.push({
+            type: 'aborted-read',
+            key,
+            ops: [txn.invoke.index, writer.invoke.index],
+            detail: `read ${value}, written by a transaction that failed with ${writer.completion.error}`
+          });
+        }
+      }
+    }
+    for (const [key, values] of reads) {
+      if (new Set(values).size > 1) {
+        anomalies.push({
+          type: 'non-repeatable-read',
+          key,
+          ops: [txn.invoke.index],
+          detail: `read ${values.map(String).join(' then ')} in the same transaction`
+        });
+      }
+      if (writes(micro).some(([, written]) => written === key)) {
+        const id = `${key}:${values[0]}`;
+        readers.set(id, [...(readers.get(id) ?? []), txn]);
+      }
+    }
+  }
+  for (const [id, group] of readers) {
+    if (group.length > 1) {
+      const [key, value] = id.split(':');
+      anomalies.push({
+        type: 'lost-update',
+        key: Number(key),
+        ops: group.map(t => t.invoke.index),
+        detail: `${group.length} committed transactions read ${value} and overwrote it`
+      });
+    }
+  }
+
+  return {
+    valid: anomalies.length === 0,
+    committed: ok.length,
+    committedIndeterminate: committedIndeterminate.length,
+    indeterminate: indeterminate.length,
+    failed: failed.length,
+    anomalies
+  };
+}
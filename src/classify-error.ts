@@ -0,0 +1,229 @@
+import {
+  MongoNetworkError,
+  MongoNetworkTimeoutError,
+  MongoOperationTimeoutError,
+  MongoServerSelectionError
+} from 'mongodb';
+import { DeadlineExceededError } from './deadline';
+
+export type ErrorCategory =
+  | 'max-time-expired'
+  | 'write-concern-failed'
+  | 'exceeded-time-limit'
+  | 'not-writable-primary'
+  | 'repl-state-change'
+  | 'shutdown'
+  | 'no-such-transaction'
+  | 'write-conflict'
+  | 'network-timeout'
+  | 'network'
+  | 'server-selection'
+  | 'client-timeout'
+  | 'deadline-exceeded'
+  | 'transient-transaction'
+  | 'unknown-commit-result'
+  | 'other';
+
+/**
+ * What the caller may safely retry:
+ * - transaction: the whole transaction (TransientTransactionError)
+ * - commit:      only commitTransaction (UnknownTransactionCommitResult)
+ * - write:       the single write (RetryableWriteError)
+ * - none:        nothing, the error is final
+ */
+export type Retryability = 'transaction' | 'commit' | 'write' | 'none';
+
+export interface ErrorClassification {
+  category: ErrorCategory;
+  /** Driver error class, e.g. MongoServerError or MongoNetworkTimeoutError */
+  name: string;
+  code?: number;
+  codeName?: string;
+  message: string;
+  labels: string[];
+  retryable: Retryability;
+  /**
+   * False when the server may or may not have committed: the driver attached
+   * UnknownTransactionCommitResult, so only a read can tell.
+   */
+  commitOutcomeKnown: boolean;
+  /** One-line explanation for console output and reports */
+  description: string;
+}
+
+interface CodeInfo {
+  category: ErrorCategory;
+  codeName: string;
+  description: string;
+}
+
+const SERVER_CODES: Record<number, CodeInfo> = {
+  50: {
+    category: 'max-time-expired',
+    codeName: 'MaxTimeMSExpired',
+    description: '⏱️  MaxTimeMSExpired: Operation exceeded maxTimeMS timeout'
+  },
+  64: {
+    category: 'write-concern-failed',
+    codeName: 'WriteConcernFailed',
+    description: '⚠️  WriteConcernFailed: Write concern could not be satisfied within wtimeout'
+  },
+  262: {
+    category: 'exceeded-time-limit',
+    codeName: 'ExceededTimeLimit',
+    description: '⏱️  ExceededTimeLimit: Transaction exceeded maxCommitTimeMS'
+  },
+  10107: {
+    category: 'not-writable-primary',
+    codeName: 'NotWritablePrimary',
+    description: '⚠️  NotWritablePrimary: The member is no longer primary'
+  },
+  13435: {
+    category: 'not-writable-primary',
+    codeName: 'NotPrimaryNoSecondaryOk',
+    description: '⚠️  NotPrimaryNoSecondaryOk: The member is no longer primary'
+  },
+  13436: {
+    category: 'not-writable-primary',
+    codeName: 'NotPrimaryOrSecondary',
+    description: '⚠️  NotPrimaryOrSecondary: The member is neither primary nor secondary'
+  },
+  189: {
+    category: 'not-writable-primary',
+    codeName: 'PrimarySteppedDown',
+    description: '⚠️  PrimarySteppedDown: The primary stepped down during the operation'
+  },
+  11602: {
+    category: 'repl-state-change',
+    codeName: 'InterruptedDueToReplStateChange',
+    description: '⚠️  InterruptedDueToReplStateChange: Replica set state changed during the operation'
+  },
+  11600: {
+    category: 'shutdown',
+    codeName: 'InterruptedAtShutdown',
+    description: '🛑 InterruptedAtShutdown: The member is shutting down'
+  },
+  91: {
+    category: 'shutdown',
+    codeName: 'ShutdownInProgress',
+    description: '🛑 ShutdownInProgress: The member is shutting down'
+  },
+  251: {
+    category: 'no-such-transaction',
+    codeName: 'NoSuchTransaction',
+    description: '❓ NoSuchTransaction: The server no longer knows this transaction'
+  },
+  112: {
+    category: 'write-conflict',
+    codeName: 'WriteConflict',
+    description: '🔀 WriteConflict: Another operation modified the same document'
+  }
+};
+
+function errorLabels(error: any): string[] {
+  if (Array.isArray(error?.errorLabels)) {
+    return [...error.errorLabels];
+  }
+  return [];
+}
+
+function retryability(labels: string[]): Retryability {
+  if (labels.includes('TransientTransactionError')) {
+    return 'transaction';
+  }
+  if (labels.includes('UnknownTransactionCommitResult')) {
+    return 'commit';
+  }
+  if (labels.includes('RetryableWriteError')) {
+    return 'write';
+  }
+  return 'none';
+}
+
+function categorize(error: any, labels: string[]): Omit<CodeInfo, 'codeName'> {
+  // Checked first: it may inherit the code of the last server error it saw
+  if (error instanceof MongoServerSelectionError) {
+    return {
+      category: 'server-selection',
+      description: '🔍 MongoServerSelectionError: No suitable member found within serverSelectionTimeoutMS'
+    };
+  }
+
+  // Client-side limits: the driver's timeoutMS (CSOT) and the application deadline
+  if (error instanceof MongoOperationTimeoutError) {
+    return {
+      category: 'client-timeout',
+      description: '⏱️  MongoOperationTimeoutError: Operation exceeded the client-side timeoutMS'
+    };
+  }
+  if (error instanceof DeadlineExceededError) {
+    return {
+      category: 'deadline-exceeded',
+      description: `⏰ DeadlineExceededError: ${error.message}`
+    };
+  }
+
+  const known = typeof error?.code === 'number' ? SERVER_CODES[error.code] : undefined;
+  if (known) {
+    return known;
+  }
+
+  // Driver-side network errors carry no server code; timeout extends network
+  if (error instanceof MongoNetworkTimeoutError) {
+    return {
+      category: 'network-timeout',
+      description: '⏱️  MongoNetworkTimeoutError: Socket timed out waiting for the server'
+    };
+  }
+  if (error instanceof MongoNetworkError) {
+    return {
+      category: 'network',
+      description: '🔌 MongoNetworkError: Connection to the server failed or was closed'
+    };
+  }
+
+  if (labels.includes('TransientTransactionError')) {
+    return {
+      category: 'transient-transaction',
+      description: '🔄 TransientTransactionError: Transaction can be retried'
+    };
+  }
+  if (labels.includes('UnknownTransactionCommitResult')) {
+    return {
+      category: 'unknown-commit-result',
+      description: '❔ UnknownTransactionCommitResult: Commit may or may not have been applied'
+    };
+  }
+
+  return {
+    category: 'other',
+    description: `❌ Other Error: ${error?.codeName || 'Unknown'}`
+  };
+}
+
+// A deadline that passed while the commit was pending says nothing about its outcome
+function abandonedCommit(error: any): boolean {
+  return error instanceof DeadlineExceededError && (error.step === 'commit' || error.step === 'transaction');
+}
+
+/**
+ * Classify any error thrown by the driver so every scenario (and service)
+ * names failover errors the same way.
+ */
+export function classifyMongoError(error: any): ErrorClassification {
+  const labels = errorLabels(error);
+  const { category, description } = categorize(error, labels);
+  const code = typeof error?.code === 'number' ? error.code : undefined;
+
+  return {
+    category,
+    name: error?.name || 'Error',
+    code,
+    codeName: error?.codeName || (code !== undefined ? SERVER_CODES[code]?.codeName : undefined),
+    message: error?.message || String(error),
+    labels,
+    retryable: retryability(labels),
+    commitOutcomeKnown: !labels.includes('UnknownTransactionCommitResult') && !abandonedCommit(error),
+    description
+  };
+}
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './config';
+import { baseUri, PROXY_MEMBERS, proxyUri } from './connection';
+import { FaultProxy } from './fault-proxy';
+import { waitForHealthy } from './replica-set';
+import { writeReports } from './report';
+import { describeMode, describeOutcome, runScenario, usesProxy } from './runner';
+import { clientTimeoutPause } from './scenarios/client-timeout-pause';
+import { timeouts } from './scenarios/timeouts';
+import { RETRY_POLICIES } from './transaction-retry';
+import { RunResult, Scenario, TransactionMode } from './types';
+import { printTable, rule } from './util';
+
+/** One column of a comparison: a label and the scenario variant it runs */
+export interface ComparisonRun {
+  label: string;
+  scenario: Scenario;
+}
+
+export interface ComparisonResult {
+  label: string;
+  result: RunResult;
+}
+
+/** Modes compared by default: no retries, the driver's, then each named policy */
+export const COMPARE_MODES: TransactionMode[] = [
+  { type: 'manual' },
+  { type: 'with-transaction' },
+  ...RETRY_POLICIES.map((policy): TransactionMode => ({ type: 'retry', policy }))
+];
+
+export function modeRuns(scenario: Scenario, modes: TransactionMode[] = COMPARE_MODES): ComparisonRun[] {
+  return modes.map(mode => ({ label: describeMode(mode), scenario: { ...scenario, mode } }));
+}
+
+/**
+ * The same scenario with each timeout layer on its own:
+ * - none:        no timeout at all
+ * - server-side: wtimeout, maxCommitTimeMS and maxTimeMS (as in `timeouts`)
+ * - client-side: the driver's timeoutMS at every level (as in `client-timeout-pause`)
+ * - deadline:    only the application's AbortSignal deadline
+ */
+export function timeoutLayerRuns(scenario: Scenario): ComparisonRun[] {
+  const serverSide = timeouts();
+  const clientSide = clientTimeoutPause();
+  const none: Scenario = {
+    ...scenario,
+    transactionOptions: {
+      ...scenario.transactionOptions,
+      writeConcern: { w: 'majority' },
+      maxCommitTimeMS: undefined
+    },
+    operationMaxTimeMS: undefined,
+    timeoutMS: undefined,
+    deadlineMs: undefined
+  };
+
+  return [
+    { label: 'none', scenario: none },
+    {
+      label: 'server-side',
+      scenario: {
+        ...none,
+        transactionOptions: { ...none.transactionOptions, ...serverSide.transactionOptions },
+        operationMaxTimeMS: serverSide.operationMaxTimeMS
+      }
+    },
+    { label: 'client-side', scenario: { ...none, timeoutMS: clientSide.timeoutMS } },
+    { label: 'deadline', scenario: { ...none, deadlineMs: clientSide.deadlineMs } }
+  ];
+}
+
+export function printComparisonTable(results: ComparisonResult[]): void {
+  const header = ['run', 'outcome', 'attempts', 'commit cmds', 'time (ms)', 'durability'];
+  const rows = results.map(({ label, result }) => [
+    label,
+    describeOutcome(result),
+    String(result.attempts),
+    String(result.commitCommands),
+    String(result.outcomeAtMs),
+    result.verification?.durability ?? '-'
+  ]);
+  printTable(header, rows);
+}
+
+/**
+ * Run each variant in turn, fault timeline included, waiting for the replica
+ * set to recover between runs.
+ */
+export async function runComparison(title: string, runs: ComparisonRun[]): Promise<ComparisonResult[]> {
+  const proxy = runs.some(run => usesProxy(run.scenario)) ? new FaultProxy(PROXY_MEMBERS) : undefined;
+  const healthUri = proxy ? proxyUri() : baseUri();
+  const results: ComparisonResult[] = [];
+
+  console.log(rule());
+  console.log(`Comparing ${runs.length} runs: ${title}`);
+  console.log(rule() + '\n');
+
+  if (proxy) {
+    await proxy.start();
+  }
+
+  try {
+    for (const [index, run] of runs.entries()) {
+      console.log(`[${index + 1}/${runs.length}] ${run.label}`);
+      // Every run on the fake replica set starts from a fresh one
+      if (!getConfig().mongo.fake) {
+        await waitForHealthy(healthUri);
+      }
+
+      // A hung run leaves its client behind; the comparison moves on without it
+      results.push({ label: run.label, result: await runScenario(run.scenario, { proxy }) });
+    }
+  } finally {
+    if (proxy) {
+      await proxy.stop();
+    }
+  }
+
+  fs.mkdirSync(getConfig().run.eventsDir, { recursive: true });
+  const file = path.join(getConfig().run.eventsDir, `compare-${Date.now()}.json`);
+  fs.writeFileSync(file, JSON.stringify({ title, results }, null, 2));
+  const reports = writeReports(file.replace(/\.json$/, ''), title, results);
+
+  console.log(rule());
+  console.log(title);
+  console.log(rule());
+  printComparisonTable(results);
+  console.log(`\nFull results written to ${file}`);
+  console.log(`Reports: ${reports.join(', ')}`);
+
+  return results;
+}
@@ -0,0 +1,397 @@
+import fs from 'fs';
+import type { ReadConcernLevel, W } from 'mongodb';
+import { rule } from './util';
+
+/**
+ * Effective settings for a run. Driver options left undefined are not sent,
+ * so the driver's own default applies.
+ */
+export interface Config {
+  mongo: {
+    /** Full connection string; when set, hosts and replicaSet are ignored */
+    uri?: string;
+    hosts: string[];
+    replicaSet: string;
+    dbName: string;
+    /** Connect through the fault proxy (replica set initiated with --proxy) */
+    proxy: boolean;
+    /** Run against an in-process fake replica set instead of Docker */
+    fake: boolean;
+  };
+  driver: {
+    connectTimeoutMS?: number;
+    socketTimeoutMS?: number;
+    serverSelectionTimeoutMS?: number;
+    heartbeatFrequencyMS?: number;
+    localThresholdMS?: number;
+    waitQueueTimeoutMS?: number;
+    maxIdleTimeMS?: number;
+    timeoutMS?: number;
+    maxPoolSize?: number;
+    minPoolSize?: number;
+    maxConnecting?: number;
+    retryWrites?: boolean;
+    retryReads?: boolean;
+  };
+  /** Transaction settings of the scenarios that configure server-side timeouts */
+  transaction: {
+    readConcern: ReadConcernLevel;
+    w: W;
+    wtimeoutMS?: number;
+    journal?: boolean;
+    maxCommitTimeMS?: number;
+    /** maxTimeMS on every insert/update */
+    maxTimeMS?: number;
+  };
+  run: {
+    hangAfterMs: number;
+    verifyHealthyTimeoutMs: number;
+    /** timeoutMS for abortTransaction/endSession once a deadline has fired; budget of cleanup after a hang */
+    cleanupTimeoutMs: number;
+    /** Budgets of each cleanup step after SIGINT/SIGTERM */
+    shutdownAbortMs: number;
+    shutdownEndSessionMs: number;
+    shutdownCloseMs: number;
+    /** timeoutMS of client-timeout-pause at every level */
+    clientTimeoutMs: number;
+    /** Application deadline of client-timeout-pause */
+    deadlineMs: number;
+    /** transactionLifetimeLimitSeconds set on the server by transaction-lifetime */
+    transactionLifetimeLimitSeconds: number;
+    eventsDir: string;
+  };
+}
+
+type Section = keyof Config;
+type Kind = 'int' | 'positive-int' | 'bool' | 'string' | 'uri' | 'hosts' | 'w' | 'read-concern';
+export type ConfigSource = 'default' | 'file' | 'env' | 'flag' | 'replay';
+
+interface Field {
+  section: Section;
+  key: string;
+  env: string;
+  flag: string;
+  kind: Kind;
+  default?: unknown;
+}
+
+const READ_CONCERNS = ['local', 'available', 'majority', 'linearizable', 'snapshot'];
+
+// Every setting, where it can come from, and how it is validated
+const FIELDS: Field[] = [
+  { section: 'mongo', key: 'uri', env: 'MONGO_URI', flag: 'uri', kind: 'uri' },
+  { section: 'mongo', key: 'hosts', env: 'MONGO_HOSTS', flag: 'hosts', kind: 'hosts', default: ['mongo1:27017', 'mongo2:27017', 'mongo3:27017'] },
+  { section: 'mongo', key: 'replicaSet', env: 'MONGO_REPLICA_SET', flag: 'replica-set', kind: 'string', default: 'rs0' },
+  { section: 'mongo', key: 'dbName', env: 'MONGO_DB', flag: 'db', kind: 'string', default: 'testdb' },
+  { section: 'mongo', key: 'proxy', env: 'MONGO_PROXY', flag: 'proxy', kind: 'bool', default: false },
+  { section: 'mongo', key: 'fake', env: 'MONGO_FAKE', flag: 'fake', kind: 'bool', default: false },
+
+  { section: 'driver', key: 'connectTimeoutMS', env: 'MONGO_CONNECT_TIMEOUT_MS', flag: 'connectTimeoutMS', kind: 'int' },
+  { section: 'driver', key: 'socketTimeoutMS', env: 'MONGO_SOCKET_TIMEOUT_MS', flag: 'socketTimeoutMS', kind: 'int' },
+  { section: 'driver', key: 'serverSelectionTimeoutMS', env: 'MONGO_SERVER_SELECTION_TIMEOUT_MS', flag: 'serverSelectionTimeoutMS', kind: 'int' },
+  { section: 'driver', key: 'heartbeatFrequencyMS', env: 'MONGO_HEARTBEAT_FREQUENCY_MS', flag: 'heartbeatFrequencyMS', kind: 'positive-int' },
+  { section: 'driver', key: 'localThresholdMS', env: 'MONGO_LOCAL_THRESHOLD_MS', flag: 'localThresholdMS', kind: 'int' },
+  { section: 'driver', key: 'waitQueueTimeoutMS', env: 'MONGO_WAIT_QUEUE_TIMEOUT_MS', flag: 'waitQueueTimeoutMS', kind: 'int' },
+  { section: 'driver', key: 'maxIdleTimeMS', env: 'MONGO_MAX_IDLE_TIME_MS', flag: 'maxIdleTimeMS', kind: 'int' },
+  { section: 'driver', key: 'timeoutMS', env: 'MONGO_TIMEOUT_MS', flag: 'timeoutMS', kind: 'int' },
+  { section: 'driver', key: 'maxPoolSize', env: 'MONGO_MAX_POOL_SIZE', flag: 'maxPoolSize', kind: 'int' },
+  { section: 'driver', key: 'minPoolSize', env: 'MONGO_MIN_POOL_SIZE', flag: 'minPoolSize', kind: 'int' },
+  { section: 'driver', key: 'maxConnecting', env: 'MONGO_MAX_CONNECTING', flag: 'maxConnecting', kind: 'positive-int' },
+  { section: 'driver', key: 'retryWrites', env: 'MONGO_RETRY_WRITES', flag: 'retryWrites', kind: 'bool' },
+  { section: 'driver', key: 'retryReads', env: 'MONGO_RETRY_READS', flag: 'retryReads', kind: 'bool' },
+
+  { section: 'transaction', key: 'readConcern', env: 'TXN_READ_CONCERN', flag: 'read-concern', kind: 'read-concern', default: 'majority' },
+  { section: 'transaction', key: 'w', env: 'TXN_W', flag: 'w', kind: 'w', default: 'majority' },
+  { section: 'transaction', key: 'wtimeoutMS', env: 'W_TIMEOUT_MS', flag: 'wtimeout', kind: 'int', default: 2000 },
+  { section: 'transaction', key: 'journal', env: 'TXN_JOURNAL', flag: 'journal', kind: 'bool' },
+  { section: 'transaction', key: 'maxCommitTimeMS', env: 'MAX_COMMIT_MS', flag: 'max-commit-time', kind: 'positive-int', default: 1500 },
+  { section: 'transaction', key: 'maxTimeMS', env: 'OP_MAXTIME_MS', flag: 'max-time', kind: 'positive-int', default: 1000 },
+
+  { section: 'run', key: 'hangAfterMs', env: 'HANG_AFTER_MS', flag: 'hang-after', kind: 'positive-int', default: 60000 },
+  { section: 'run', key: 'verifyHealthyTimeoutMs', env: 'VERIFY_HEALTHY_TIMEOUT_MS', flag: 'verify-healthy-timeout', kind: 'positive-int', default: 120000 },
+  { section: 'run', key: 'cleanupTimeoutMs', env: 'CLEANUP_TIMEOUT_MS', flag: 'cleanup-timeout', kind: 'positive-int', default: 5000 },
+  { section: 'run', key: 'shutdownAbortMs', env: 'SHUTDOWN_ABORT_MS', flag: 'shutdown-abort', kind: 'positive-int', default: 5000 },
+  { section: 'run', key: 'shutdownEndSessionMs', env: 'SHUTDOWN_END_SESSION_MS', flag: 'shutdown-end-session', kind: 'positive-int', default: 5000 },
+  { section: 'run', key: 'shutdownCloseMs', env: 'SHUTDOWN_CLOSE_MS', flag: 'shutdown-close', kind: 'positive-int', default: 5000 },
+  { section: 'run', key: 'clientTimeoutMs', env: 'CLIENT_TIMEOUT_MS', flag: 'client-timeout', kind: 'positive-int', default: 5000 },
+  { section: 'run', key: 'deadlineMs', env: 'DEADLINE_MS', flag: 'deadline', kind: 'positive-int', default: 10000 },
+  { section: 'run', key: 'transactionLifetimeLimitSeconds', env: 'TRANSACTION_LIFETIME_LIMIT_SECONDS', flag: 'transaction-lifetime-limit', kind: 'positive-int', default: 5 },
+  { section: 'run', key: 'eventsDir', env: 'EVENTS_DIR', flag: 'events-dir', kind: 'string', default: 'runs' }
+];
+
+// Looked up when neither --config nor MONGO_REPRO_CONFIG names a file
+export const DEFAULT_CONFIG_FILE = 'repro.config.json';
+
+/**
+ * Every invalid setting found while loading, reported together.
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+function parseInteger(raw: unknown, min: number): number {
+  const value = typeof raw === 'number' ? raw : typeof raw === 'string' && /^\d+$/.test(raw.trim()) ? Number(raw) : NaN;
+  if (!Number.isSafeInteger(value) || value < min) {
+    throw new Error(`expected an integer >= ${min}, got ${JSON.stringify(raw)}`);
+  }
+  return value;
+}
+
+function parseValue(field: Field, raw: unknown): unknown {
+  switch (field.kind) {
+    case 'int':
+      return parseInteger(raw, 0);
+    case 'positive-int':
+      return parseInteger(raw, 1);
+    case 'bool':
+      if (typeof raw === 'boolean') {
+        return raw;
+      }
+      if (raw === 'true' || raw === '1') {
+        return true;
+      }
+      if (raw === 'false' || raw === '0') {
+        return false;
+      }
+      throw new Error(`expected true/false/1/0, got ${JSON.stringify(raw)}`);
+    case 'string':
+      if (typeof raw !== 'string' || raw.trim() === '') {
+        throw new Error(`expected a non-empty string, got ${JSON.stringify(raw)}`);
+      }
+      return raw;
+    case 'uri':
+      if (typeof raw !== 'string' || !/^mongodb(\+srv)?:\/\/\S+$/.test(raw)) {
+        throw new Error(`expected a mongodb:// or mongodb+srv:// connection string, got ${JSON.stringify(raw)}`);
+      }
+      return raw;
+    case 'hosts': {
+      const hosts = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',').map(h => h.trim()) : [];
+      const invalid = hosts.filter(h => typeof h !== 'string' || !/^[\w.-]+:\d{1,5}$/.test(h));
+      if (hosts.length === 0 || invalid.length > 0) {
+        throw new Error(`expected host:port entries, got ${JSON.stringify(raw)}`);
+      }
+      return hosts;
+    }
+    case 'w':
+      if (raw === 'majority') {
+        return raw;
+      }
+      return parseInteger(raw, 0);
+    case 'read-concern':
+      if (typeof raw !== 'string' || !READ_CONCERNS.includes(raw)) {
+        throw new Error(`expected one of ${READ_CONCERNS.join(', ')}, got ${JSON.stringify(raw)}`);
+      }
+      return raw;
+  }
+}
+
+/**
+ * Split `--name value` / `--name=value` config flags from the remaining
+ * command-line arguments. `--config <file>` names the config file.
+ */
+export function splitConfigFlags(argv: string[]): { flags: Record<string, string>; args: string[] } {
+  const flags: Record<string, string> = {};
+  const args: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      args.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    if (eq !== -1) {
+      flags[arg.slice(2, eq)] = arg.slice(eq + 1);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const next = argv[i + 1];
+    const isBool = FIELDS.some(f => f.flag === name && f.kind === 'bool');
+    if (next !== undefined && !next.startsWith('--') && (!isBool || ['true', 'false', '1', '0'].includes(next))) {
+      flags[name] = next;
+      i++;
+    } else {
+      // A bare flag switches a boolean on, e.g. --proxy
+      flags[name] = 'true';
+    }
+  }
+  return { flags, args };
+}
+
+function readConfigFile(file: string, problems: string[]): Record<string, any> {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      problems.push(`${file}: expected a JSON object with mongo/driver/transaction/run sections`);
+      return {};
+    }
+    return parsed;
+  } catch (err: any) {
+    problems.push(`${file}: ${err.message}`);
+    return {};
+  }
+}
+
+/**
+ * Settings an earlier run recorded (see src/replay.ts), loaded in place of
+ * the config file and the environment.
+ */
+export interface RecordedConfig {
+  file: string;
+  config: Config;
+}
+
+export interface LoadedConfig {
+  config: Config;
+  /** Where each `section.key` value came from */
+  sources: Record<string, ConfigSource>;
+  file?: string;
+}
+
+/**
+ * Merge defaults, the config file, environment variables and command-line
+ * flags (later wins), validating every value. Throws ConfigError listing
+ * every problem rather than running with a half-valid config. A recorded
+ * config replaces both the file and the environment.
+ */
+export function loadConfig(
+  flags: Record<string, string> = {},
+  env: NodeJS.ProcessEnv = process.env,
+  recorded?: RecordedConfig
+): LoadedConfig {
+  const problems: string[] = [];
+  const values: Record<string, Record<string, unknown>> = { mongo: {}, driver: {}, transaction: {}, run: {} };
+  const sources: Record<string, ConfigSource> = {};
+
+  const set = (field: Field, raw: unknown, source: ConfigSource, origin: string): void => {
+    try {
+      values[field.section][field.key] = parseValue(field, raw);
+      sources[`${field.section}.${field.key}`] = source;
+    } catch (err: any) {
+      problems.push(`${origin}: ${err.message}`);
+    }
+  };
+
+  for (const field of FIELDS) {
+    if (field.default !== undefined) {
+      values[field.section][field.key] = field.default;
+      sources[`${field.section}.${field.key}`] = 'default';
+    }
+  }
+
+  const explicitFile = flags.config ?? env.MONGO_REPRO_CONFIG;
+  const file = recorded?.file ?? explicitFile ?? (fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+  if (file) {
+    const contents: Record<string, any> = recorded?.config ?? readConfigFile(file, problems);
+    for (const [section, entries] of Object.entries(contents)) {
+      if (!(section in values) || typeof entries !== 'object' || entries === null) {
+        problems.push(`${file}: unknown section "${section}"`);
+        continue;
+      }
+      for (const [key, raw] of Object.entries(entries)) {
+        const field = FIELDS.find(f => f.section === section && f.key === key);
+        if (!field) {
+          problems.push(`${file}: unknown setting "${section}.${key}"`);
+          continue;
+        }
+        // Recorded driver options left unset stay unset
+        if (raw !== undefined) {
+          set(field, raw, recorded ? 'replay' : 'file', `${file} ${section}.${key}`);
+        }
+      }
+    }
+  }
+
+  for (const field of recorded ? [] : FIELDS) {
+    const raw = env[field.env];
+    if (raw !== undefined && raw !== '') {
+      set(field, raw, 'env', field.env);
+    }
+  }
+
+  for (const [flag, raw] of Object.entries(flags)) {
+    if (flag === 'config') {
+      continue;
+    }
+    const field = FIELDS.find(f => f.flag === flag);
+    if (!field) {
+      problems.push(`--${flag}: unknown option`);
+      continue;
+    }
+    set(field, raw, 'flag', `--${flag}`);
+  }
+
+  const driver = values.driver;
+  if (typeof driver.minPoolSize === 'number' && typeof driver.maxPoolSize === 'number' &&
+      driver.maxPoolSize > 0 && driver.minPoolSize > driver.maxPoolSize) {
+    problems.push(`minPoolSize (${driver.minPoolSize}) is larger than maxPoolSize (${driver.maxPoolSize})`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return { config: values as unknown as Config, sources, file };
+}
+
+let current: LoadedConfig | undefined;
+
+/**
+ * Load the config once for this process from command-line flags, the
+ * environment and the config file. Returns the arguments left over.
+ */
+export function initConfig(argv: string[]): string[] {
+  const { flags, args } = splitConfigFlags(argv);
+  current = loadConfig(flags);
+  return args;
+}
+
+/**
+ * Run with the settings an earlier run recorded instead of this shell's
+ * config file and environment. Config flags in `argv` still win, e.g. to
+ * replay against another replica set.
+ */
+export function useRecordedConfig(recorded: RecordedConfig, argv: string[] = []): void {
+  current = loadConfig(splitConfigFlags(argv).flags, process.env, recorded);
+}
+
+/**
+ * The process-wide config; loaded from the environment and config file on
+ * first use when initConfig() was not called.
+ */
+export function getConfig(): Config {
+  current = current ?? loadConfig();
+  return current.config;
+}
+
+function show(value: unknown): string {
+  if (value === undefined) {
+    return '(driver default)';
+  }
+  return Array.isArray(value) ? value.join(',') : String(value);
+}
+
+export function printConfig(): void {
+  const config = getConfig();
+  const loaded = current as LoadedConfig;
+
+  console.log(rule());
+  const origin = Object.values(loaded.sources).includes('replay') ? 'recorded in' : 'config file:';
+  console.log(`Effective configuration${loaded.file ? ` (${origin} ${loaded.file})` : ''}`);
+  console.log(rule());
+  for (const section of Object.keys(config) as Section[]) {
+    for (const field of FIELDS.filter(f => f.section === section)) {
+      const value = (config[section] as Record<string, unknown>)[field.key];
+      const overriddenByUri = config.mongo.uri !== undefined && (field.key === 'hosts' || field.key === 'replicaSet');
+      if ((value === undefined && field.section !== 'driver') || overriddenByUri) {
+        continue;
+      }
+      const source = loaded.sources[`${section}.${field.key}`];
+      console.log(`${`${section}.${field.key}`.padEnd(34)} ${show(value)}${source ? ` [${source}]` : ''}`);
+    }
+  }
+  console.log(rule() + '\n');
+}
@@ -0,0 +1,88 @@
+import { getConfig } from './config';
+import { ProxyMember } from './fault-proxy';
+
+/**
+ * A replica set member container: `host` is how members address each other
+ * on the compose network, `address` is how this process reaches it directly
+ * through the published port. mongo4 and mongo5 only run with the compose
+ * profile `extra` (docker compose --profile extra up -d).
+ */
+export interface DockerMember {
+  name: string;
+  host: string;
+  address: string;
+}
+
+export const DOCKER_MEMBERS: DockerMember[] = [
+  { name: 'mongo1', host: 'mongo1:27017', address: 'localhost:27017' },
+  { name: 'mongo2', host: 'mongo2:27017', address: 'localhost:27018' },
+  { name: 'mongo3', host: 'mongo3:27017', address: 'localhost:27019' },
+  { name: 'mongo4', host: 'mongo4:27017', address: 'localhost:27020' },
+  { name: 'mongo5', host: 'mongo5:27017', address: 'localhost:27021' }
+];
+
+// Fault proxy layout: the replica set is initiated with these addresses
+// (npm run init:rs -- --proxy) so driver and replication traffic both pass
+// through the proxy. Source addresses match the static IPs in docker-compose.yml.
+export const PROXY_HOST = 'host.docker.internal';
+export const PROXY_MEMBERS: ProxyMember[] = [
+  { name: 'mongo1', listenHost: '0.0.0.0', listenPort: 37017, targetHost: '127.0.0.1', targetPort: 27017, sourceAddress: '172.28.0.11' },
+  { name: 'mongo2', listenHost: '0.0.0.0', listenPort: 37018, targetHost: '127.0.0.1', targetPort: 27018, sourceAddress: '172.28.0.12' },
+  { name: 'mongo3', listenHost: '0.0.0.0', listenPort: 37019, targetHost: '127.0.0.1', targetPort: 27019, sourceAddress: '172.28.0.13' }
+];
+
+/**
+ * Replica set connection string from the config: MONGO_URI as given, or the
+ * configured hosts and replica set name (Docker hostnames by default -
+ * ensure /etc/hosts is configured).
+ */
+export function baseUri(): string {
+  const { mongo } = getConfig();
+  return mongo.uri ?? `mongodb://${mongo.hosts.join(',')}/?replicaSet=${mongo.replicaSet}`;
+}
+
+export function proxyUri(): string {
+  const hosts = PROXY_MEMBERS.map(m => `${PROXY_HOST}:${m.listenPort}`);
+  return `mongodb://${hosts.join(',')}/?replicaSet=${getConfig().mongo.replicaSet}`;
+}
+
+/**
+ * The host a member is configured with in the replica set config: its
+ * compose name, or its fault proxy address for sets initiated in proxy mode.
+ */
+export function memberHost(name: string, proxy: boolean = getConfig().mongo.proxy): string {
+  if (proxy) {
+    const proxied = PROXY_MEMBERS.find(m => m.name === name);
+    if (!proxied) {
+      throw new Error(`${name} has no fault proxy listener; proxy mode supports ${PROXY_MEMBERS.map(m => m.name).join(', ')}`);
+    }
+    return `${PROXY_HOST}:${proxied.listenPort}`;
+  }
+  const member = DOCKER_MEMBERS.find(m => m.name === name);
+  if (!member) {
+    throw new Error(`Unknown member: ${name} (known: ${DOCKER_MEMBERS.map(m => m.name).join(', ')})`);
+  }
+  return member.host;
+}
+
+export function dbName(): string {
+  return getConfig().mongo.dbName;
+}
+
+/**
+ * Apply the configured driver options, then scenario-specific options on top
+ * (e.g. socketTimeoutMS=0), to the query string of the base URI.
+ */
+export function buildUri(options: Record<string, string | number>, base: string = baseUri()): string {
+  const [prefix, query = ''] = base.split('?');
+  const params = new URLSearchParams(query);
+  const merged = { ...getConfig().driver, ...options };
+  for (const [key, value] of Object.entries(merged)) {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  }
+  const joined = params.toString();
+  const path = prefix.includes('/', prefix.indexOf('://') + 3) ? prefix : `${prefix}/`;
+  return joined ? `${path}?${joined}` : path;
+}
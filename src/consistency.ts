@@ -0,0 +1,362 @@
+import fs from 'fs';
+import path from 'path';
+import { Collection, MongoClient, ReadConcernLevel } from 'mongodb';
+import {
+  AnomalyType,
+  checkLinearizable,
+  checkTransactions,
+  LinearizabilityResult,
+  RegisterValue,
+  TransactionCheckResult
+} from './checkers';
+import { getConfig } from './config';
+import { baseUri, buildUri, dbName, PROXY_MEMBERS, proxyUri } from './connection';
+import { EventRecorder } from './event-recorder';
+import { FakeReplicaSet } from './fake-mongod';
+import { FaultProxy } from './fault-proxy';
+import { checkFakeFaults, describeFault, FaultInjector, needsProxy } from './faults';
+import { errorName, failureType, History, HistoryOp, TxnMicroOp } from './history';
+import { LoadFault, loadFaultProblem } from './load';
+import { waitForHealthy } from './replica-set';
+import { onWorkloadShutdown } from './shutdown';
+import { isInteger, isNonEmptyString, isUriOptions, loadSpecFile } from './spec-file';
+import { printTable, rule, sleep } from './util';
+
+/**
+ * - register:     read / write / compare-and-set on one document, checked
+ *                 for linearizability
+ * - transactions: read a key twice, then write it, in one transaction,
+ *                 checked for lost updates and non-repeatable reads
+ */
+export type ConsistencyWorkload = 'register' | 'transactions';
+
+export interface ConsistencySpec {
+  workload: ConsistencyWorkload;
+  /** Concurrent clients, each with one operation in flight at a time */
+  processes: number;
+  durationMs: number;
+  /** Pause between two operations of a process */
+  intervalMs: number;
+  /** Register values are drawn from 0..values-1; few values make stale reads visible */
+  values: number;
+  /** Keys the transactions spread over; fewer keys mean more contention */
+  keys: number;
+  /** Pause between the two reads of a transaction, to widen the window for a concurrent write */
+  readGapMs: number;
+  readConcern: ReadConcernLevel;
+  /** Write concern w of register writes and transactions */
+  w: number | 'majority';
+  uriOptions: Record<string, string | number>;
+  fault: LoadFault | null;
+  collection: string;
+}
+
+export const DEFAULT_CONSISTENCY: ConsistencySpec = {
+  workload: 'register',
+  processes: 5,
+  durationMs: 20000,
+  intervalMs: 50,
+  values: 5,
+  keys: 2,
+  readGapMs: 20,
+  readConcern: 'majority',
+  w: 'majority',
+  uriOptions: { socketTimeoutMS: 10000, serverSelectionTimeoutMS: 10000 },
+  fault: { atMs: 6000, members: ['mongo1'], fault: { type: 'stop' }, healAfterMs: 6000 },
+  collection: 'testcollection_history'
+};
+
+export interface ConsistencyResult {
+  workload: ConsistencyWorkload;
+  testId: string;
+  /** History counts by completion type */
+  ok: number;
+  fail: number;
+  info: number;
+  historyFile: string;
+  eventsFile: string;
+  linearizability?: LinearizabilityResult;
+  transactions?: TransactionCheckResult;
+}
+
+// Register and transaction documents are keyed by test id (and key)
+interface RegisterDocument {
+  _id: string;
+  value: RegisterValue;
+}
+
+const READ_CONCERNS: ReadConcernLevel[] = ['local', 'available', 'majority', 'linearizable', 'snapshot'];
+
+/**
+ * The default spec with the file's settings on top. Unknown keys and
+ * invalid values are reported together, like the config file's.
+ */
+export function loadConsistencySpec(file: string | undefined): ConsistencySpec {
+  return loadSpecFile(file, DEFAULT_CONSISTENCY, (spec, expect) => {
+    expect('workload', spec.workload === 'register' || spec.workload === 'transactions', 'register or transactions');
+    for (const key of ['processes', 'durationMs', 'values', 'keys']) {
+      expect(key, isInteger(spec[key], 1), 'an integer >= 1');
+    }
+    for (const key of ['intervalMs', 'readGapMs']) {
+      expect(key, isInteger(spec[key], 0), 'an integer >= 0');
+    }
+    expect('readConcern', READ_CONCERNS.includes(spec.readConcern as ReadConcernLevel), `one of ${READ_CONCERNS.join(', ')}`);
+    expect('w', spec.w === 'majority' || isInteger(spec.w, 0), 'majority or an integer >= 0');
+    expect('uriOptions', isUriOptions(spec.uriOptions), 'an object of connection string options');
+    expect('collection', isNonEmptyString(spec.collection), 'a non-empty string');
+    const problem = loadFaultProblem(spec.fault);
+    return problem ? [problem] : [];
+  });
+}
+
+function random(limit: number): number {
+  return Math.floor(Math.random() * limit);
+}
+
+/**
+ * One register operation. Reads fail outright on any error, since they
+ * change nothing; a cas that matches no document certainly did not apply.
+ */
+async function registerOperation(history: History, collection: Collection<RegisterDocument>, spec: ConsistencySpec, id: string, process: number): Promise<void> {
+  const roll = random(3);
+  if (roll === 0) {
+    const invocation = history.invoke(process, 'read', null);
+    try {
+      const doc = await collection.findOne({ _id: id });
+      history.ok(invocation, doc?.value ?? null);
+    } catch (error: any) {
+      history.fail(invocation, errorName(error));
+    }
+    return;
+  }
+
+  const value = roll === 1 ? random(spec.values) : [random(spec.values), random(spec.values)];
+  const invocation = history.invoke(process, roll === 1 ? 'write' : 'cas', value);
+  try {
+    if (Array.isArray(value)) {
+      const result = await collection.updateOne({ _id: id, value: value[0] }, { $set: { value: value[1] } });
+      if (result.matchedCount === 0) {
+        history.fail(invocation, 'no match');
+        return;
+      }
+    } else {
+      await collection.updateOne({ _id: id }, { $set: { value } }, { upsert: true });
+    }
+    history.ok(invocation);
+  } catch (error: any) {
+    history[failureType(error)](invocation, errorName(error));
+  }
+}
+
+/**
+ * One read-read-write transaction. Anything that fails before the commit
+ * is sent aborted the transaction; a failed commit is indeterminate unless
+ * the server says otherwise.
+ */
+async function transactionOperation(
+  history: History,
+  client: MongoClient,
+  collection: Collection<RegisterDocument>,
+  spec: ConsistencySpec,
+  testId: string,
+  process: number,
+  written: number
+): Promise<void> {
+  const key = random(spec.keys);
+  const id = `${testId}-${key}`;
+  const micro: TxnMicroOp[] = [['r', key, null], ['r', key, null], ['w', key, written]];
+  const invocation = history.invoke(process, 'txn', micro);
+  const session = client.startSession();
+  let committing = false;
+  try {
+    session.startTransaction({ readConcern: { level: spec.readConcern }, writeConcern: { w: spec.w } });
+    const first = await collection.findOne({ _id: id }, { session });
+    await sleep(spec.readGapMs);
+    const second = await collection.findOne({ _id: id }, { session });
+    await collection.updateOne({ _id: id }, { $set: { value: written } }, { session, upsert: true });
+    committing = true;
+    await session.commitTransaction();
+    history.ok(invocation, [['r', key, first?.value ?? null], ['r', key, second?.value ?? null], ['w', key, written]]);
+  } catch (error: any) {
+    if (session.inTransaction()) {
+      await session.abortTransaction().catch(() => undefined);
+    }
+    history[committing ? failureType(error) : 'fail'](invocation, errorName(error));
+  } finally {
+    await session.endSession().catch(() => undefined);
+  }
+}
+
+function counts(ops: HistoryOp[]): { ok: number; fail: number; info: number } {
+  const completed = ops.filter(op => op.type !== 'invoke');
+  const invoked = ops.length - completed.length;
+  return {
+    ok: completed.filter(op => op.type === 'ok').length,
+    fail: completed.filter(op => op.type === 'fail').length,
+    // Operations still pending at the end count as indeterminate too
+    info: invoked - completed.filter(op => op.type !== 'info').length
+  };
+}
+
+/**
+ * Analyze a recorded history; the workload follows from its operations.
+ */
+export function checkHistory(ops: HistoryOp[]): Pick<ConsistencyResult, 'workload' | 'linearizability' | 'transactions'> {
+  if (ops.some(op => op.f === 'txn')) {
+    return { workload: 'transactions', transactions: checkTransactions(ops) };
+  }
+  return { workload: 'register', linearizability: checkLinearizable(ops) };
+}
+
+export function printConsistency(result: Pick<ConsistencyResult, 'workload' | 'linearizability' | 'transactions'>): void {
+  console.log(rule());
+  if (result.linearizability) {
+    const check = result.linearizability;
+    console.log(`Linearizability: ${check.valid === true ? '✓ linearizable' : check.valid === false ? '✗ NOT linearizable' : '? unknown (search budget exceeded)'}`);
+    console.log(rule());
+    console.log(`${check.operations} operations placed (${check.indeterminate} indeterminate), ${check.statesExplored} states explored`);
+    if (check.failure) {
+      console.log(`\nThe first ${check.failure.linearized} acknowledged operations linearize, leaving the register at ${check.failure.value}.`);
+      console.log('None of these can take effect next:');
+      printTable(
+        ['History index', 'Process', 'Operation', 'Value', 'Completion'],
+        check.failure.candidates.map(c => [String(c.index), String(c.process), c.f, JSON.stringify(c.value), c.type])
+      );
+    }
+  }
+  if (result.transactions) {
+    const check = result.transactions;
+    console.log(`Transactional anomalies: ${check.valid ? '✓ none' : `✗ ${check.anomalies.length} found`}`);
+    console.log(rule());
+    console.log(`${check.committed} committed, ${check.indeterminate} indeterminate (${check.committedIndeterminate} seen to commit), ${check.failed} failed`);
+    if (!check.valid) {
+      const types: AnomalyType[] = ['lost-update', 'non-repeatable-read', 'aborted-read'];
+      console.log('');
+      printTable(['Anomaly', 'Count'], types.map(type => [type, String(check.anomalies.filter(a => a.type === type).length)]));
+      console.log('');
+      printTable(
+        ['Anomaly', 'Key', 'History indexes', 'Detail'],
+        check.anomalies.slice(0, 20).map(a => [a.type, String(a.key), a.ops.join(', '), a.detail])
+      );
+      if (check.anomalies.length > 20) {
+        console.log(`... and ${check.anomalies.length - 20} more in the results file`);
+      }
+    }
+  }
+  console.log(rule());
+}
+
+/**
+ * Run the workload with one fault partway through, record every operation
+ * into a history, then check it.
+ */
+export async function runConsistency(spec: ConsistencySpec): Promise<ConsistencyResult> {
+  const { mongo } = getConfig();
+  if (mongo.fake && spec.fault) {
+    checkFakeFaults([spec.fault.fault]);
+  }
+  const fake = mongo.fake ? new FakeReplicaSet() : null;
+  const proxied = !mongo.fake && (mongo.proxy || (spec.fault !== null && needsProxy(spec.fault.fault)));
+  const proxy = proxied ? new FaultProxy(PROXY_MEMBERS) : null;
+  await fake?.start();
+  await proxy?.start();
+
+  const uri = buildUri(spec.uriOptions, fake ? fake.uri() : proxy ? proxyUri() : baseUri());
+  if (!fake) {
+    await waitForHealthy(uri);
+  }
+  const testId = `history-${spec.workload}-${Date.now()}`;
+  const client = new MongoClient(uri, { monitorCommands: true });
+  const recorder = new EventRecorder(testId);
+  recorder.attach(client);
+  const injector = new FaultInjector(client, proxy, fake);
+  // Transactions take their concerns from startTransaction, not the collection
+  const collection = client.db(dbName()).collection<RegisterDocument>(spec.collection);
+  const register = client.db(dbName()).collection<RegisterDocument>(spec.collection, {
+    readConcern: { level: spec.readConcern },
+    writeConcern: { w: spec.w }
+  });
+  const history = new History();
+  const startedAt = Date.now();
+  const since = () => Date.now() - startedAt;
+  let written = 0;
+  let faultInjected = false;
+
+  console.log(rule());
+  console.log(`History of a ${spec.workload} workload: ${spec.processes} processes for ${spec.durationMs}ms`);
+  console.log(`Read concern ${spec.readConcern}, write concern w:${spec.w}`);
+  console.log(`Fault: ${spec.fault ? `${describeFault(spec.fault.fault)} on ${spec.fault.members.join(', ') || 'the primary'} at ${spec.fault.atMs}ms` : 'none'}`);
+  console.log(rule() + '\n');
+
+  const worker = async (index: number): Promise<void> => {
+    while (since() < spec.durationMs) {
+      if (spec.workload === 'register') {
+        await registerOperation(history, register, spec, testId, index);
+      } else {
+        await transactionOperation(history, client, collection, spec, testId, index, written++);
+      }
+      await sleep(spec.intervalMs);
+    }
+  };
+
+  const faults = async (): Promise<void> => {
+    if (!spec.fault) {
+      return;
+    }
+    const { members, fault } = spec.fault;
+    await sleep(spec.fault.atMs);
+    await injector.inject(members, fault);
+    faultInjected = true;
+    recorder.record('fault', 'inject', { atMs: since(), members, fault, historyIndex: history.ops.length });
+    console.log(`💥 ${describeFault(fault)} at ${since()}ms`);
+    if (spec.fault.healAfterMs === null || fault.type === 'stepdown') {
+      return;
+    }
+    await sleep(spec.fault.healAfterMs);
+    await injector.heal(members, fault);
+    faultInjected = false;
+    recorder.record('fault', 'heal', { atMs: since(), members, fault, historyIndex: history.ops.length });
+    console.log(`🩹 Healed at ${since()}ms`);
+  };
+
+  const healLeftover = async (): Promise<boolean> => {
+    if (!faultInjected || !spec.fault) {
+      return false;
+    }
+    faultInjected = false;
+    await injector.heal(spec.fault.members, spec.fault.fault);
+    return true;
+  };
+  const unregisterShutdown = onWorkloadShutdown({ name: 'history', testId, startedAt, client, recorder, heal: healLeftover });
+
+  try {
+    await client.connect();
+    // Start from an empty register: the checker assumes an initial null
+    await register.deleteMany({ _id: { $in: [testId, ...Array.from({ length: spec.keys }, (_, k) => `${testId}-${k}`)] } });
+    await Promise.all([faults(), ...Array.from({ length: spec.processes }, (_, index) => worker(index))]);
+  } finally {
+    unregisterShutdown();
+    await healLeftover().catch((err: any) => console.error('Failed to heal the fault:', err.message));
+    await client.close();
+    await recorder.close();
+    await proxy?.stop();
+    await fake?.stop();
+  }
+
+  const historyFile = path.join(getConfig().run.eventsDir, `${testId}.history.ndjson`);
+  history.save(historyFile);
+  console.log(`History of ${history.ops.length} events written to ${historyFile}; checking...\n`);
+
+  const result: ConsistencyResult = {
+    testId,
+    ...counts(history.ops),
+    historyFile,
+    eventsFile: recorder.file,
+    ...checkHistory(history.ops)
+  };
+  const file = path.join(getConfig().run.eventsDir, `${testId}.json`);
+  fs.writeFileSync(file, JSON.stringify({ spec, result }, null, 2));
+  printConsistency(result);
+  console.log(`\nFull results written to ${file}`);
+  return result;
+}
@@ -0,0 +1,59 @@
+/**
+ * The application deadline passed while `step` was pending. The step itself
+ * is abandoned, not cancelled: the driver may still be waiting on it.
+ */
+export class DeadlineExceededError extends Error {
+  constructor(readonly deadlineMs: number, readonly step: string) {
+    super(`Application deadline of ${deadlineMs}ms passed during ${step}`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+/**
+ * Application-level deadline for a whole transaction, independent of any
+ * driver or server timeout. Aborts `signal` once `deadlineMs` has passed;
+ * everything raced against it rejects with DeadlineExceededError.
+ */
+export class TransactionDeadline {
+  private readonly controller = new AbortController();
+  private readonly timer: NodeJS.Timeout;
+
+  constructor(readonly deadlineMs: number) {
+    this.timer = setTimeout(() => this.controller.abort(), deadlineMs);
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get expired(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  race<T>(step: string, operation: Promise<T>): Promise<T> {
+    if (this.expired) {
+      return Promise.reject(new DeadlineExceededError(this.deadlineMs, step));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = (): void => reject(new DeadlineExceededError(this.deadlineMs, step));
+      this.signal.addEventListener('abort', onAbort, { once: true });
+
+      operation.then(
+        value => {
+          this.signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          this.signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /** Stop the timer once the transaction has an outcome */
+  clear(): void {
+    clearTimeout(this.timer);
+  }
+}
@@ -0,0 +1,179 @@
+import {
+  CommandFailedEvent,
+  CommandStartedEvent,
+  CommandSucceededEvent,
+  ConnectionCheckedInEvent,
+  ConnectionCheckedOutEvent,
+  ConnectionCheckOutFailedEvent,
+  ConnectionCheckOutStartedEvent,
+  ConnectionClosedEvent,
+  ConnectionCreatedEvent,
+  ConnectionPoolClearedEvent,
+  MongoClient,
+  ServerHeartbeatFailedEvent,
+  ServerHeartbeatSucceededEvent,
+  TopologyDescription,
+  TopologyDescriptionChangedEvent
+} from 'mongodb';
+
+export interface ServerState {
+  address: string;
+  type: string;
+  roundTripTimeMs?: number;
+  error?: string;
+}
+
+export interface TopologyState {
+  type: string;
+  setName?: string;
+  servers: ServerState[];
+}
+
+export interface PoolState {
+  address: string;
+  open: number;
+  checkedOut: number;
+  waitingForCheckout: number;
+  checkOutFailures: number;
+  clearedCount: number;
+  lastClearedAt?: Date;
+}
+
+export interface InFlightCommand {
+  requestId: number;
+  commandName: string;
+  databaseName: string;
+  address: string;
+  startedAt: Date;
+  pendingMs: number;
+}
+
+export interface HeartbeatState {
+  address: string;
+  lastSucceededAt?: Date;
+  lastFailedAt?: Date;
+  lastDurationMs?: number;
+  lastError?: string;
+}
+
+export interface DriverSnapshot {
+  topology?: TopologyState;
+  pools: PoolState[];
+  inFlight: InFlightCommand[];
+  heartbeats: HeartbeatState[];
+}
+
+/**
+ * Keeps the driver's view of the replica set (topology, pools, in-flight
+ * commands, heartbeats) up to date from its monitoring events, so it can be
+ * inspected while an operation is stuck. The client must be created with
+ * `monitorCommands: true` for in-flight commands to be tracked.
+ */
+export class DriverStateTracker {
+  private topology?: TopologyDescription;
+  private pools = new Map<string, PoolState>();
+  private inFlight = new Map<number, Omit<InFlightCommand, 'pendingMs'>>();
+  private heartbeats = new Map<string, HeartbeatState>();
+
+  attach(client: MongoClient): void {
+    client.on('topologyDescriptionChanged', (event: TopologyDescriptionChangedEvent) => {
+      this.topology = event.newDescription;
+    });
+
+    client.on('serverHeartbeatSucceeded', (event: ServerHeartbeatSucceededEvent) => {
+      const heartbeat = this.heartbeat(event.connectionId);
+      heartbeat.lastSucceededAt = new Date();
+      heartbeat.lastDurationMs = event.duration;
+    });
+    client.on('serverHeartbeatFailed', (event: ServerHeartbeatFailedEvent) => {
+      const heartbeat = this.heartbeat(event.connectionId);
+      heartbeat.lastFailedAt = new Date();
+      heartbeat.lastDurationMs = event.duration;
+      heartbeat.lastError = event.failure.message;
+    });
+
+    client.on('connectionCreated', (event: ConnectionCreatedEvent) => {
+      this.pool(event.address).open++;
+    });
+    client.on('connectionClosed', (event: ConnectionClosedEvent) => {
+      this.pool(event.address).open--;
+    });
+    client.on('connectionCheckOutStarted', (event: ConnectionCheckOutStartedEvent) => {
+      this.pool(event.address).waitingForCheckout++;
+    });
+    client.on('connectionCheckOutFailed', (event: ConnectionCheckOutFailedEvent) => {
+      const pool = this.pool(event.address);
+      pool.waitingForCheckout--;
+      pool.checkOutFailures++;
+    });
+    client.on('connectionCheckedOut', (event: ConnectionCheckedOutEvent) => {
+      const pool = this.pool(event.address);
+      pool.waitingForCheckout--;
+      pool.checkedOut++;
+    });
+    client.on('connectionCheckedIn', (event: ConnectionCheckedInEvent) => {
+      this.pool(event.address).checkedOut--;
+    });
+    client.on('connectionPoolCleared', (event: ConnectionPoolClearedEvent) => {
+      const pool = this.pool(event.address);
+      pool.clearedCount++;
+      pool.lastClearedAt = new Date();
+    });
+
+    client.on('commandStarted', (event: CommandStartedEvent) => {
+      this.inFlight.set(event.requestId, {
+        requestId: event.requestId,
+        commandName: event.commandName,
+        databaseName: event.databaseName,
+        address: event.address,
+        startedAt: new Date()
+      });
+    });
+    client.on('commandSucceeded', (event: CommandSucceededEvent) => {
+      this.inFlight.delete(event.requestId);
+    });
+    client.on('commandFailed', (event: CommandFailedEvent) => {
+      this.inFlight.delete(event.requestId);
+    });
+  }
+
+  snapshot(): DriverSnapshot {
+    const now = Date.now();
+    return {
+      topology: this.topology && {
+        type: this.topology.type,
+        setName: this.topology.setName ?? undefined,
+        servers: [...this.topology.servers.values()].map(server => ({
+          address: server.address,
+          type: server.type,
+          roundTripTimeMs: server.roundTripTime >= 0 ? server.roundTripTime : undefined,
+          error: server.error?.message
+        }))
+      },
+      pools: [...this.pools.values()].map(pool => ({ ...pool })),
+      inFlight: [...this.inFlight.values()].map(command => ({
+        ...command,
+        pendingMs: now - command.startedAt.getTime()
+      })),
+      heartbeats: [...this.heartbeats.values()].map(heartbeat => ({ ...heartbeat }))
+    };
+  }
+
+  private pool(address: string): PoolState {
+    let pool = this.pools.get(address);
+    if (!pool) {
+      pool = { address, open: 0, checkedOut: 0, waitingForCheckout: 0, checkOutFailures: 0, clearedCount: 0 };
+      this.pools.set(address, pool);
+    }
+    return pool;
+  }
+
+  private heartbeat(address: string): HeartbeatState {
+    let heartbeat = this.heartbeats.get(address);
+    if (!heartbeat) {
+      heartbeat = { address };
+      this.heartbeats.set(address, heartbeat);
+    }
+    return heartbeat;
+  }
+}
@@ -0,0 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import {
+  BSON,
+  CommandFailedEvent,
+  CommandStartedEvent,
+  CommandSucceededEvent,
+  MongoClient,
+  ServerDescription,
+  ServerDescriptionChangedEvent,
+  ServerHeartbeatFailedEvent,
+  TopologyDescription,
+  TopologyDescriptionChangedEvent
+} from 'mongodb';
+import { getConfig } from './config';
+
+const CMAP_EVENTS = [
+  'connectionPoolCreated',
+  'connectionPoolReady',
+  'connectionPoolCleared',
+  'connectionPoolClosed',
+  'connectionCreated',
+  'connectionClosed',
+  'connectionCheckOutStarted',
+  'connectionCheckOutFailed',
+  'connectionCheckedOut',
+  'connectionCheckedIn'
+] as const;
+
+/**
+ * - command: command monitoring (started / succeeded / failed)
+ * - sdam:    server discovery and monitoring
+ * - cmap:    connection pool
+ * - step:    a runner step starting, finishing or failing
+ * - phase:   a fault timeline phase being reached
+ * - fault:   a fault being injected or healed
+ * - run:     start and outcome of the run
+ */
+export type EventSource = 'command' | 'sdam' | 'cmap' | 'step' | 'phase' | 'fault' | 'run';
+
+export interface RecordedEvent {
+  /** Monotonic milliseconds since the recorder was created */
+  t: number;
+  /** Wall clock time, for lining up with server logs */
+  wall: string;
+  source: EventSource;
+  event: string;
+  [field: string]: unknown;
+}
+
+// Inserted documents, update and delete statements and cursor batches are
+// cut to their first items, so a bulk write costs a few lines, not megabytes
+const MAX_ARRAY_ITEMS = 3;
+const MAX_STRING_LENGTH = 256;
+// An event still larger than this loses its largest fields, e.g. a huge single document
+const MAX_EVENT_BYTES = 16 * 1024;
+
+function summarize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length} characters)` : value;
+  }
+  if (Array.isArray(value)) {
+    const kept = value.slice(0, MAX_ARRAY_ITEMS).map(summarize);
+    return value.length > MAX_ARRAY_ITEMS ? [...kept, `... ${value.length - MAX_ARRAY_ITEMS} more`] : kept;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, summarize(field)]));
+  }
+  return value;
+}
+
+function document(value: unknown): unknown {
+  return value == null ? value : summarize(BSON.EJSON.serialize(value as BSON.Document, { relaxed: true }));
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, field) => (typeof field === 'bigint' ? field.toString() : field)) ?? '';
+}
+
+function failure(error: any): Record<string, unknown> {
+  return {
+    name: error?.name,
+    message: error?.message,
+    code: error?.code,
+    codeName: error?.codeName,
+    labels: Array.isArray(error?.errorLabels) ? error.errorLabels : undefined
+  };
+}
+
+function server(description: ServerDescription): Record<string, unknown> {
+  return {
+    address: description.address,
+    type: description.type,
+    setName: description.setName ?? undefined,
+    primary: description.primary ?? undefined,
+    roundTripTimeMs: description.roundTripTime >= 0 ? description.roundTripTime : undefined,
+    error: description.error ? failure(description.error) : undefined
+  };
+}
+
+function topology(description: TopologyDescription): Record<string, unknown> {
+  return {
+    type: description.type,
+    setName: description.setName ?? undefined,
+    servers: [...description.servers.values()].map(server)
+  };
+}
+
+/**
+ * Writes the driver's monitoring events for one run to an NDJSON file,
+ * interleaved with the runner's own step/phase markers and fault events,
+ * all on one monotonic clock.
+ */
+export class EventRecorder {
+  readonly file: string;
+  private readonly origin = performance.now();
+  private readonly stream: fs.WriteStream;
+
+  constructor(name: string, dir: string = getConfig().run.eventsDir) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.file = path.join(dir, `${name}.ndjson`);
+    this.stream = fs.createWriteStream(this.file);
+  }
+
+  attach(client: MongoClient): void {
+    client.on('commandStarted', (event: CommandStartedEvent) => {
+      this.record('command', 'commandStarted', {
+        requestId: event.requestId,
+        commandName: event.commandName,
+        databaseName: event.databaseName,
+        address: event.address,
+        connectionId: event.connectionId,
+        command: document(event.command)
+      });
+    });
+    client.on('commandSucceeded', (event: CommandSucceededEvent) => {
+      this.record('command', 'commandSucceeded', {
+        requestId: event.requestId,
+        commandName: event.commandName,
+        address: event.address,
+        durationMs: event.duration,
+        reply: document(event.reply)
+      });
+    });
+    client.on('commandFailed', (event: CommandFailedEvent) => {
+      this.record('command', 'commandFailed', {
+        requestId: event.requestId,
+        commandName: event.commandName,
+        address: event.address,
+        durationMs: event.duration,
+        failure: failure(event.failure)
+      });
+    });
+
+    client.on('serverDescriptionChanged', (event: ServerDescriptionChangedEvent) => {
+      this.record('sdam', 'serverDescriptionChanged', {
+        address: event.address,
+        previous: server(event.previousDescription),
+        current: server(event.newDescription)
+      });
+    });
+    client.on('topologyDescriptionChanged', (event: TopologyDescriptionChangedEvent) => {
+      this.record('sdam', 'topologyDescriptionChanged', {
+        previous: topology(event.previousDescription),
+        current: topology(event.newDescription)
+      });
+    });
+    client.on('serverHeartbeatFailed', (event: ServerHeartbeatFailedEvent) => {
+      this.record('sdam', 'serverHeartbeatFailed', {
+        address: event.connectionId,
+        durationMs: event.duration,
+        awaited: event.awaited,
+        failure: failure(event.failure)
+      });
+    });
+
+    for (const name of CMAP_EVENTS) {
+      client.on(name, (event: any) => {
+        this.record('cmap', name, {
+          address: event.address,
+          connectionId: event.connectionId,
+          durationMs: event.durationMS,
+          reason: event.reason
+        });
+      });
+    }
+  }
+
+  record(source: EventSource, event: string, fields: Record<string, unknown> = {}): void {
+    const entry: RecordedEvent = {
+      t: Math.round((performance.now() - this.origin) * 1000) / 1000,
+      wall: new Date().toISOString(),
+      source,
+      event,
+      ...fields
+    };
+    let line = serialize(entry);
+    if (Buffer.byteLength(line) > MAX_EVENT_BYTES) {
+      const largest = Object.keys(fields)
+        .map(key => ({ key, bytes: Buffer.byteLength(serialize(fields[key])) }))
+        .sort((a, b) => b.bytes - a.bytes);
+      for (const { key, bytes } of largest) {
+        entry[key] = { truncated: `${bytes} bytes` };
+        line = serialize(entry);
+        if (Buffer.byteLength(line) <= MAX_EVENT_BYTES) {
+          break;
+        }
+      }
+    }
+    this.stream.write(line + '\n');
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.stream.end(() => resolve()));
+  }
+}
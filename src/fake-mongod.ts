@@ -0,0 +1,1077 @@
+import net from 'net';
+import { BSON, Document, Long, ObjectId } from 'mongodb';
+import { getConfig } from './config';
+import { getTopology, MemberSpec, Topology } from './topologies';
+import { sleep } from './util';
+import { encodeReply, MessageReader, WireRequest } from './wire-protocol';
+
+/**
+ * A scripted reply from one member:
+ * - error:    fail the command, e.g. NotWritablePrimary
+ * - wtimeout: run the command, then report WriteConcernFailed once the
+ *             command's wtimeout expires; without a wtimeout never answer
+ * - no-reply: never answer (the connection stays open)
+ * - delay:    answer normally after `ms`
+ */
+export type FakeReply =
+  | { type: 'error'; code: number; codeName: string; errmsg?: string; labels?: string[] }
+  | { type: 'wtimeout' }
+  | { type: 'no-reply' }
+  | { type: 'delay'; ms: number };
+
+export interface FakeRule {
+  /** Command name, e.g. commitTransaction; '*' matches every command but hello */
+  command: string;
+  reply: FakeReply;
+  /** Apply to this many matching commands, then drop the rule; omitted keeps it until cleared */
+  times?: number;
+}
+
+export const NOT_WRITABLE_PRIMARY: FakeReply = {
+  type: 'error',
+  code: 10107,
+  codeName: 'NotWritablePrimary',
+  errmsg: 'not primary'
+};
+
+export interface FakeReplicaSetOptions {
+  /** Members and their settings (default: pss) */
+  topology?: Topology;
+  replicaSet?: string;
+  /** Port of the first member, the others follow; 0 picks free ports */
+  basePort?: number;
+  /** How long the remaining members take to elect a new primary */
+  electionTimeoutMs?: number;
+}
+
+type RunState = 'running' | 'stopped' | 'paused';
+
+const HELLO_COMMANDS = ['hello', 'isMaster', 'ismaster'];
+// Errors the server labels retryable: the command can be sent again to a (new) primary
+const RETRYABLE_CODES = [6, 7, 89, 91, 189, 262, 9001, 10107, 11600, 11602, 13435];
+const WIRE_VERSION = 21;
+
+// Reply of a failed command, thrown from command handlers
+class CommandError extends Error {
+  constructor(readonly code: number, readonly codeName: string, message: string, public labels: string[] = []) {
+    super(message);
+  }
+
+  /**
+   * Add the labels a real server would: TransientTransactionError inside a
+   * transaction, RetryableWriteError on retryable writes and commit/abort.
+   */
+  labelFor(command: Document): this {
+    if (this.labels.length > 0 || !RETRYABLE_CODES.includes(this.code)) {
+      return this;
+    }
+    const name = Object.keys(command)[0];
+    const finishing = name === 'commitTransaction' || name === 'abortTransaction';
+    if (command.autocommit === false && !finishing) {
+      this.labels = ['TransientTransactionError'];
+    } else if (command.txnNumber !== undefined) {
+      this.labels = ['RetryableWriteError'];
+    }
+    return this;
+  }
+
+  reply(): Document {
+    const reply: Document = { ok: 0, errmsg: this.message, code: this.code, codeName: this.codeName };
+    if (this.labels.length > 0) {
+      reply.errorLabels = this.labels;
+    }
+    return reply;
+  }
+}
+
+interface FakeTransaction {
+  txnNumber: number;
+  state: 'in-progress' | 'committed' | 'aborted';
+  readConcern?: string;
+  startedAt: number;
+  /** Catalog clock when the transaction took its snapshot */
+  snapshot: number;
+  /** Collections the transaction has read or written */
+  namespaces: Set<string>;
+  /** Writes buffered until commit, applied in order */
+  writes: { ns: string; apply: (docs: Document[]) => void }[];
+}
+
+/**
+ * One member: a TCP listener speaking the wire protocol, its run state and
+ * its scripted replies.
+ */
+class FakeMember {
+  state: RunState = 'running';
+  /** Cut off from the other members: it cannot acknowledge writes */
+  isolated = false;
+  latencyMs = 0;
+  rules: FakeRule[] = [];
+  /** Uses left of each counted rule; the rule's own `times` stays as scripted */
+  remaining = new Map<FakeRule, number>();
+  port = 0;
+  private server: net.Server | null = null;
+  private readonly sockets = new Set<net.Socket>();
+  // Work held back while paused, like a frozen process
+  private held: (() => void)[] = [];
+  private connections = 0;
+
+  constructor(readonly spec: MemberSpec, private readonly set: FakeReplicaSet) {}
+
+  get name(): string {
+    return this.spec.name;
+  }
+
+  get address(): string {
+    return `127.0.0.1:${this.port}`;
+  }
+
+  /** Up, not paused and connected to the other members */
+  get available(): boolean {
+    return this.state === 'running' && !this.isolated;
+  }
+
+  async listen(port: number): Promise<void> {
+    const server = net.createServer(socket => this.accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    this.port = (server.address() as net.AddressInfo).port;
+    this.state = 'running';
+  }
+
+  async close(): Promise<void> {
+    this.state = 'stopped';
+    this.held = [];
+    this.resetConnections();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  pause(): void {
+    this.state = 'paused';
+  }
+
+  resume(): void {
+    this.state = 'running';
+    const held = this.held;
+    this.held = [];
+    for (const work of held) {
+      work();
+    }
+  }
+
+  resetConnections(): void {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+  }
+
+  /** The first rule matching `command`, used up when it has a count */
+  takeRule(command: string): FakeRule | undefined {
+    const rule = this.rules.find(r => r.command === command || (r.command === '*' && !HELLO_COMMANDS.includes(command)));
+    if (rule?.times !== undefined) {
+      const left = (this.remaining.get(rule) ?? rule.times) - 1;
+      this.remaining.set(rule, left);
+      if (left <= 0) {
+        this.rules = this.rules.filter(r => r !== rule);
+        this.remaining.delete(rule);
+      }
+    }
+    return rule;
+  }
+
+  private whenRunning(work: () => void): void {
+    if (this.state === 'paused') {
+      this.held.push(work);
+    } else if (this.state === 'running') {
+      work();
+    }
+  }
+
+  private accept(socket: net.Socket): void {
+    const reader = new MessageReader();
+    const connectionId = ++this.connections;
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    socket.on('data', (chunk: Buffer) => {
+      let requests: WireRequest[];
+      try {
+        requests = reader.push(chunk);
+      } catch {
+        socket.destroy();
+        return;
+      }
+      for (const request of requests) {
+        this.whenRunning(() => {
+          void this.set.handle(this, request, connectionId).then(reply => {
+            if (reply && !request.noReply) {
+              this.whenRunning(() => {
+                if (!socket.destroyed) {
+                  socket.write(encodeReply(request, reply));
+                }
+              });
+            }
+          });
+        });
+      }
+    });
+  }
+}
+
+function valueEquals(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  // ObjectId and the other BSON value types
+  if (typeof a === 'object' && a !== null && 'equals' in a && typeof a.equals === 'function') {
+    return a.equals(b);
+  }
+  return a === b;
+}
+
+function matches(doc: Document, filter: Document = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition && typeof condition === 'object' && '$in' in condition) {
+      return (condition.$in as unknown[]).some(value => valueEquals(doc[key], value));
+    }
+    if (condition && typeof condition === 'object' && '$exists' in condition) {
+      return (key in doc) === Boolean(condition.$exists);
+    }
+    return valueEquals(doc[key], condition);
+  });
+}
+
+// $set, $unset and $inc on top-level fields, or a replacement document
+function applyUpdate(doc: Document, update: Document, inserting: boolean): void {
+  if (!Object.keys(update).some(key => key.startsWith('$'))) {
+    for (const key of Object.keys(doc).filter(k => k !== '_id')) {
+      delete doc[key];
+    }
+    Object.assign(doc, update);
+    return;
+  }
+  Object.assign(doc, update.$set ?? {});
+  if (inserting) {
+    Object.assign(doc, update.$setOnInsert ?? {});
+  }
+  for (const key of Object.keys(update.$unset ?? {})) {
+    delete doc[key];
+  }
+  for (const [key, amount] of Object.entries<number>(update.$inc ?? {})) {
+    doc[key] = (doc[key] ?? 0) + amount;
+  }
+}
+
+function updateDocuments(
+  docs: Document[],
+  statements: Document[],
+  upsertIds: ObjectId[]
+): { n: number; nModified: number; upserted: Document[] } {
+  let n = 0;
+  let nModified = 0;
+  const upserted: Document[] = [];
+
+  for (const [index, statement] of statements.entries()) {
+    const targets = docs.filter(doc => matches(doc, statement.q));
+    for (const doc of statement.multi ? targets : targets.slice(0, 1)) {
+      const before = JSON.stringify(doc);
+      applyUpdate(doc, statement.u, false);
+      n++;
+      nModified += JSON.stringify(doc) === before ? 0 : 1;
+    }
+    if (targets.length === 0 && statement.upsert) {
+      const doc: Document = { _id: upsertIds[index] };
+      for (const [key, value] of Object.entries(statement.q ?? {})) {
+        if (!key.startsWith('$') && (value === null || typeof value !== 'object' || value instanceof ObjectId)) {
+          doc[key] = value;
+        }
+      }
+      applyUpdate(doc, statement.u, true);
+      docs.push(doc);
+      n++;
+      upserted.push({ index, _id: doc._id });
+    }
+  }
+  return { n, nModified, upserted };
+}
+
+function deleteDocuments(docs: Document[], statements: Document[]): number {
+  let n = 0;
+  for (const statement of statements) {
+    const targets = docs.filter(doc => matches(doc, statement.q));
+    for (const doc of statement.limit === 1 ? targets.slice(0, 1) : targets) {
+      docs.splice(docs.indexOf(doc), 1);
+      n++;
+    }
+  }
+  return n;
+}
+
+// A reply batch holds up to 16MB of documents, like a real server's
+const MAX_BATCH_BYTES = 16 * 1024 * 1024;
+
+function clone(doc: Document): Document {
+  return { ...doc };
+}
+
+/**
+ * An in-process stand-in for the Docker replica set. Each member listens on
+ * its own port and answers the driver's handshake and heartbeats, CRUD
+ * commands and transactions from a shared in-memory store.
+ *
+ * Availability is modelled, not replication: a write concern is satisfied
+ * while enough members are up, unpaused and not isolated, and otherwise
+ * waits for them until wtimeout, as a real primary does after losing its
+ * majority. Operations of a majority read concern transaction wait the
+ * same way, bounded by maxTimeMS instead. Losing the primary triggers an
+ * election among the remaining members after `electionTimeoutMs`; a
+ * primary that loses its majority never steps down on its own.
+ *
+ * The one piece of replication modelled is rollback: a primary isolated
+ * from its peers acknowledges w:1 writes alone, and they are undone when
+ * another member is elected in its place.
+ *
+ * Transactions are aborted once older than transactionLifetimeLimitSeconds
+ * (checked when next used, not by a reaper), and index builds and drops
+ * bump the collection's catalog version: a transaction whose snapshot predates the
+ * change cannot use the collection, and the build itself waits for open
+ * transactions that have used it.
+ */
+export class FakeReplicaSet {
+  readonly replicaSet: string;
+  private readonly members: FakeMember[];
+  private readonly basePort: number;
+  private readonly electionTimeoutMs: number;
+  private primary: FakeMember | undefined;
+  private term = 1;
+  private electionTimer: NodeJS.Timeout | null = null;
+  private readonly store = new Map<string, Document[]>();
+  // What the others have while the primary is isolated; restored if they elect someone else
+  private majorityStore: Map<string, Document[]> | null = null;
+  private rolledBack = 0;
+  private readonly transactions = new Map<string, FakeTransaction>();
+  // The last retryable write of each session and its reply, so a retry is not applied twice
+  private readonly retryableWrites = new Map<string, { txnNumber: number; reply: Document }>();
+  // Documents of open cursors not returned yet, by cursor id
+  private readonly cursors = new Map<string, { ns: string; docs: Document[] }>();
+  private nextCursorId = 1;
+  private transactionLifetimeLimitSeconds = 60;
+  // Bumped by every index build or drop; the clock value of each collection's last change
+  private catalogClock = 0;
+  private readonly catalogChanges = new Map<string, number>();
+  // Commands waiting for members to come back, re-checked on every change
+  private readonly waiters = new Set<() => void>();
+
+  constructor(options: FakeReplicaSetOptions = {}) {
+    const topology = options.topology ?? (getTopology('pss') as Topology);
+    this.replicaSet = options.replicaSet ?? getConfig().mongo.replicaSet;
+    this.members = topology.members.map(spec => new FakeMember(spec, this));
+    this.basePort = options.basePort ?? 0;
+    this.electionTimeoutMs = options.electionTimeoutMs ?? 1000;
+  }
+
+  async start(): Promise<void> {
+    for (const [index, member] of this.members.entries()) {
+      await member.listen(this.basePort === 0 ? 0 : this.basePort + index);
+    }
+    this.primary = this.electable()[0];
+  }
+
+  async stop(): Promise<void> {
+    if (this.electionTimer) {
+      clearTimeout(this.electionTimer);
+      this.electionTimer = null;
+    }
+    for (const member of this.members) {
+      await member.close();
+    }
+    // Pending commands have nowhere to answer any more
+    this.waiters.clear();
+  }
+
+  uri(): string {
+    const hosts = this.members.map(m => m.address).join(',');
+    return `mongodb://${hosts}/?replicaSet=${this.replicaSet}`;
+  }
+
+  get primaryName(): string | undefined {
+    return this.primary?.name;
+  }
+
+  /** Each member and the address clients reach it on */
+  get memberAddresses(): { name: string; address: string }[] {
+    return this.members.map(m => ({ name: m.name, address: m.address }));
+  }
+
+  /** Documents undone by rollbacks so far */
+  get rolledBackDocuments(): number {
+    return this.rolledBack;
+  }
+
+  /** Committed documents of a collection, for assertions */
+  documents(collection: string, db: string = getConfig().mongo.dbName): Document[] {
+    return (this.store.get(`${db}.${collection}`) ?? []).map(clone);
+  }
+
+  /** Stop the member's process: connections are dropped and refused until started */
+  async stopMember(name: string): Promise<void> {
+    await this.member(name).close();
+    this.changed();
+  }
+
+  async startMember(name: string): Promise<void> {
+    const member = this.member(name);
+    if (member.state === 'stopped') {
+      await member.listen(member.port);
+    }
+    this.changed();
+  }
+
+  /** Freeze the member: connections stay open but nothing is read or answered */
+  pause(name: string): void {
+    this.member(name).pause();
+    this.changed();
+  }
+
+  resume(name: string): void {
+    this.member(name).resume();
+    this.changed();
+  }
+
+  /** Cut the member off from the others while clients can still reach it */
+  isolate(name: string): void {
+    const member = this.member(name);
+    if (member === this.primary && !this.majorityStore) {
+      this.majorityStore = new Map([...this.store].map(([ns, docs]) => [ns, docs.map(clone)]));
+    }
+    member.isolated = true;
+    this.changed();
+  }
+
+  reconnect(name: string): void {
+    const member = this.member(name);
+    // Still primary: its writes replicate now
+    if (member === this.primary) {
+      this.majorityStore = null;
+    }
+    member.isolated = false;
+    this.changed();
+  }
+
+  setLatency(name: string, ms: number): void {
+    this.member(name).latencyMs = ms;
+  }
+
+  resetConnections(name: string): void {
+    this.member(name).resetConnections();
+  }
+
+  /** Step the primary down; returns the member elected in its place */
+  stepDown(): string {
+    const current = this.primary;
+    const next = this.electable().find(m => m !== current);
+    if (!current || !next) {
+      throw new CommandError(262, 'ExceededTimeLimit', 'No electable secondaries caught up');
+    }
+    this.elect(next);
+    return next.name;
+  }
+
+  /**
+   * setParameter on every member; returns the values replaced. Only
+   * transactionLifetimeLimitSeconds is modelled.
+   */
+  setParameters(parameters: Record<string, number>): Record<string, number> {
+    const previous: Record<string, number> = {};
+    for (const [name, value] of Object.entries(parameters)) {
+      if (name !== 'transactionLifetimeLimitSeconds') {
+        throw new Error(`The fake replica set does not support server parameter ${name}`);
+      }
+      previous[name] = this.transactionLifetimeLimitSeconds;
+      this.transactionLifetimeLimitSeconds = value;
+    }
+    return previous;
+  }
+
+  script(name: string, rule: FakeRule): void {
+    const member = this.member(name);
+    member.rules.push(rule);
+    member.remaining.delete(rule);
+  }
+
+  unscript(name: string, rule: FakeRule): void {
+    const member = this.member(name);
+    member.rules = member.rules.filter(r => r !== rule);
+    member.remaining.delete(rule);
+  }
+
+  clearScripts(name?: string): void {
+    for (const member of this.members.filter(m => !name || m.name === name)) {
+      member.rules = [];
+      member.remaining.clear();
+    }
+  }
+
+  /** Answer one request; null leaves it unanswered */
+  async handle(member: FakeMember, request: WireRequest, connectionId: number): Promise<Document | null> {
+    const { command } = request;
+    const name = Object.keys(command)[0];
+
+    if (member.latencyMs > 0) {
+      await sleep(member.latencyMs);
+    }
+
+    let writeConcernLost = false;
+    const rule = HELLO_COMMANDS.includes(name) ? undefined : member.takeRule(name);
+    switch (rule?.reply.type) {
+      case 'error': {
+        const { code, codeName, errmsg, labels } = rule.reply;
+        return new CommandError(code, codeName, errmsg ?? `Scripted ${codeName}`, labels).labelFor(command).reply();
+      }
+      case 'no-reply':
+        return null;
+      case 'delay':
+        await sleep(rule.reply.ms);
+        break;
+      case 'wtimeout':
+        writeConcernLost = true;
+        break;
+    }
+
+    try {
+      return await this.execute(member, name, command, connectionId, writeConcernLost);
+    } catch (error: any) {
+      if (error instanceof CommandError) {
+        return error.labelFor(command).reply();
+      }
+      return new CommandError(1, 'InternalError', error.message).reply();
+    }
+  }
+
+  private async execute(
+    member: FakeMember,
+    name: string,
+    command: Document,
+    connectionId: number,
+    writeConcernLost: boolean
+  ): Promise<Document | null> {
+    switch (name) {
+      case 'hello':
+      case 'isMaster':
+      case 'ismaster':
+        return this.hello(member, name !== 'hello', connectionId);
+      case 'ping':
+      case 'endSessions':
+        return { ok: 1 };
+      case 'killCursors':
+        for (const id of command.cursors as Long[]) {
+          this.cursors.delete(id.toString());
+        }
+        return { ok: 1, cursorsKilled: command.cursors };
+      case 'getMore':
+        return this.getMore(command);
+      case 'buildInfo':
+        return { version: '7.0.0', versionArray: [7, 0, 0, 0], ok: 1 };
+      case 'replSetGetStatus':
+        return this.status(member);
+      case 'replSetStepDown':
+        this.requirePrimary(member);
+        this.stepDown();
+        return { ok: 1 };
+      case 'createIndexes':
+        await this.changeCatalog(member, command, command.createIndexes);
+        return { createdCollectionAutomatically: false, numIndexesBefore: 1, numIndexesAfter: 2, ok: 1 };
+      case 'dropIndexes':
+        await this.changeCatalog(member, command, command.dropIndexes);
+        return { nIndexesWas: 2, ok: 1 };
+      case 'drop':
+        await this.changeCatalog(member, command, command.drop);
+        this.store.delete(`${command.$db}.${command.drop}`);
+        return { ns: `${command.$db}.${command.drop}`, nIndexesWas: 1, ok: 1 };
+      case 'insert':
+      case 'update':
+      case 'delete':
+      case 'find':
+      case 'findAndModify':
+        return this.crud(member, name, command, writeConcernLost);
+      case 'commitTransaction':
+      case 'abortTransaction':
+        return this.finishTransaction(member, name, command, writeConcernLost);
+      default:
+        throw new CommandError(59, 'CommandNotFound', `no such command: '${name}'`);
+    }
+  }
+
+  private hello(member: FakeMember, legacy: boolean, connectionId: number): Document {
+    const isPrimary = member === this.primary;
+    const visible = this.members.filter(m => !m.spec.hidden);
+    const reply: Document = {
+      helloOk: true,
+      [legacy ? 'ismaster' : 'isWritablePrimary']: isPrimary,
+      secondary: !isPrimary && !member.spec.arbiter,
+      setName: this.replicaSet,
+      setVersion: 1,
+      hosts: visible.filter(m => !m.spec.arbiter && (m.spec.priority ?? 1) > 0).map(m => m.address),
+      me: member.address,
+      maxBsonObjectSize: 16 * 1024 * 1024,
+      maxMessageSizeBytes: 48000000,
+      maxWriteBatchSize: 100000,
+      localTime: new Date(),
+      logicalSessionTimeoutMinutes: 30,
+      connectionId,
+      minWireVersion: 0,
+      maxWireVersion: WIRE_VERSION,
+      readOnly: false,
+      ok: 1
+    };
+    const passives = visible.filter(m => !m.spec.arbiter && (m.spec.priority ?? 1) === 0);
+    const arbiters = visible.filter(m => m.spec.arbiter);
+    if (passives.length > 0) {
+      reply.passives = passives.map(m => m.address);
+    }
+    if (arbiters.length > 0) {
+      reply.arbiters = arbiters.map(m => m.address);
+    }
+    if (this.primary) {
+      reply.primary = this.primary.address;
+    }
+    if (isPrimary) {
+      reply.electionId = new ObjectId(`7fffffff${this.term.toString(16).padStart(16, '0')}`);
+    }
+    if (member.spec.arbiter) {
+      reply.arbiterOnly = true;
+    }
+    if (member.spec.hidden) {
+      reply.hidden = true;
+    }
+    if (member.spec.priority === 0 && !member.spec.arbiter) {
+      reply.passive = true;
+    }
+    return reply;
+  }
+
+  private status(self: FakeMember): Document {
+    return {
+      set: this.replicaSet,
+      myState: self === this.primary ? 1 : self.spec.arbiter ? 7 : 2,
+      members: this.members.map((m, id) => {
+        // A member cut off from the others looks unreachable to them
+        const reachable = m === self || m.available;
+        const [state, stateStr] = !reachable ? [8, '(not reachable/healthy)']
+          : m === this.primary ? [1, 'PRIMARY']
+            : m.spec.arbiter ? [7, 'ARBITER'] : [2, 'SECONDARY'];
+        return { _id: id, name: m.address, health: reachable ? 1 : 0, state, stateStr, self: m === self };
+      }),
+      ok: 1
+    };
+  }
+
+  private async crud(member: FakeMember, name: string, command: Document, writeConcernLost: boolean): Promise<Document> {
+    const ns = `${command.$db}.${command[name]}`;
+    const inTransaction = command.autocommit === false;
+    if (name !== 'find' || inTransaction || command.$readPreference?.mode === undefined ||
+        command.$readPreference.mode === 'primary') {
+      this.requirePrimary(member);
+    }
+
+    const transaction = inTransaction ? this.transactionFor(command) : undefined;
+    if (transaction && !transaction.namespaces.has(ns)) {
+      this.requireSnapshotCatalog(name, ns, transaction);
+      transaction.namespaces.add(ns);
+    }
+    const readConcern = transaction ? transaction.readConcern : command.readConcern?.level;
+    if (readConcern === 'majority' || readConcern === 'snapshot' || readConcern === 'linearizable') {
+      // A majority snapshot cannot advance without the majority
+      await this.waitFor(() => this.majorityAvailable(), command.maxTimeMS);
+    }
+
+    // A retried write outside a transaction gets the reply of the first attempt
+    const retryKey = !transaction && name !== 'find' && command.txnNumber !== undefined ? this.sessionKey(command) : undefined;
+    const executed = retryKey ? this.retryableWrites.get(retryKey) : undefined;
+    if (executed && executed.txnNumber === Number(command.txnNumber)) {
+      return this.awaitWriteConcern(executed.reply, command, writeConcernLost);
+    }
+
+    // A transaction works on its own view; its writes are replayed on commit
+    const target = transaction ? this.transactionView(ns, transaction) : this.collection(ns);
+    let write: (docs: Document[]) => Document;
+
+    switch (name) {
+      case 'find': {
+        const found = target.filter(doc => matches(doc, command.filter));
+        const limited = command.limit ? found.slice(0, Math.abs(command.limit)) : found;
+        const { batch, id } = this.batch(ns, limited.map(clone));
+        return { cursor: { id, ns, firstBatch: batch }, ok: 1 };
+      }
+      case 'insert': {
+        const documents = (command.documents as Document[]).map(clone);
+        write = docs => {
+          docs.push(...documents.map(clone));
+          return { n: documents.length, ok: 1 };
+        };
+        break;
+      }
+      case 'update': {
+        const statements = command.updates as Document[];
+        // Fixed up front so a replayed upsert keeps the _id it was reported with
+        const upsertIds = statements.map(() => new ObjectId());
+        write = docs => {
+          const { n, nModified, upserted } = updateDocuments(docs, statements, upsertIds);
+          return upserted.length > 0 ? { n, nModified, upserted, ok: 1 } : { n, nModified, ok: 1 };
+        };
+        break;
+      }
+      case 'findAndModify': {
+        const statement = { q: command.query ?? {}, u: command.update, upsert: command.upsert };
+        const upsertIds = [new ObjectId()];
+        write = docs => {
+          const found = docs.find(doc => matches(doc, statement.q));
+          const before = found && clone(found);
+          if (command.remove) {
+            if (found) {
+              docs.splice(docs.indexOf(found), 1);
+            }
+            return { lastErrorObject: { n: found ? 1 : 0 }, value: before ?? null, ok: 1 };
+          }
+          const { n, upserted } = updateDocuments(docs, [statement], upsertIds);
+          const after = found ?? docs.find(doc => valueEquals(doc._id, upserted[0]?._id));
+          const lastErrorObject: Document = { n, updatedExisting: Boolean(found) };
+          if (upserted.length > 0) {
+            lastErrorObject.upserted = upserted[0]._id;
+          }
+          return { lastErrorObject, value: (command.new ? after && clone(after) : before) ?? null, ok: 1 };
+        };
+        break;
+      }
+      default: {
+        const statements = command.deletes as Document[];
+        write = docs => ({ n: deleteDocuments(docs, statements), ok: 1 });
+      }
+    }
+
+    const reply = write(target);
+    if (transaction) {
+      transaction.writes.push({ ns, apply: write });
+      return reply;
+    }
+    if (retryKey) {
+      this.retryableWrites.set(retryKey, { txnNumber: Number(command.txnNumber), reply });
+    }
+    return this.awaitWriteConcern(reply, command, writeConcernLost);
+  }
+
+  private getMore(command: Document): Document {
+    const key = command.getMore.toString();
+    const cursor = this.cursors.get(key);
+    if (!cursor) {
+      throw new CommandError(43, 'CursorNotFound', `cursor id ${key} not found`);
+    }
+    this.cursors.delete(key);
+    const { batch, id } = this.batch(cursor.ns, cursor.docs);
+    return { cursor: { id, ns: cursor.ns, nextBatch: batch }, ok: 1 };
+  }
+
+  // The next batch of `docs`, keeping a cursor open on the rest
+  private batch(ns: string, docs: Document[]): { batch: Document[]; id: Long } {
+    let bytes = 0;
+    let count = 0;
+    while (count < docs.length && (count === 0 || bytes + BSON.calculateObjectSize(docs[count]) <= MAX_BATCH_BYTES)) {
+      bytes += BSON.calculateObjectSize(docs[count]);
+      count++;
+    }
+    if (count === docs.length) {
+      return { batch: docs, id: Long.ZERO };
+    }
+    const id = Long.fromNumber(this.nextCursorId++);
+    this.cursors.set(id.toString(), { ns, docs: docs.slice(count) });
+    return { batch: docs.slice(0, count), id };
+  }
+
+  private async finishTransaction(
+    member: FakeMember,
+    name: string,
+    command: Document,
+    writeConcernLost: boolean
+  ): Promise<Document> {
+    this.requirePrimary(member);
+    const key = this.sessionKey(command);
+    const transaction = this.transactions.get(key);
+    const txnNumber = Number(command.txnNumber);
+
+    if (!transaction || transaction.txnNumber !== txnNumber) {
+      throw new CommandError(251, 'NoSuchTransaction', `Transaction ${txnNumber} has been aborted.`, ['TransientTransactionError']);
+    }
+
+    if (name === 'abortTransaction') {
+      if (transaction.state === 'committed') {
+        throw new CommandError(256, 'TransactionCommitted', `Transaction ${txnNumber} has been committed.`);
+      }
+      transaction.state = 'aborted';
+      this.changed();
+      return { ok: 1 };
+    }
+
+    this.reap(transaction);
+    if (transaction.state === 'aborted') {
+      throw new CommandError(251, 'NoSuchTransaction', `Transaction ${txnNumber} has been aborted.`, ['TransientTransactionError']);
+    }
+    if (transaction.state === 'in-progress') {
+      // Committed locally straight away; acknowledgment waits for the write concern
+      transaction.state = 'committed';
+      for (const write of transaction.writes) {
+        write.apply(this.collection(write.ns));
+      }
+      this.changed();
+    }
+    return this.awaitWriteConcern({ ok: 1 }, command, writeConcernLost);
+  }
+
+  /**
+   * Wait until enough members can acknowledge, giving up at wtimeout with a
+   * writeConcernError. As on a real server, maxTimeMS does not bound this wait.
+   */
+  private async awaitWriteConcern(reply: Document, command: Document, lost: boolean): Promise<Document> {
+    const writeConcern = command.writeConcern ?? { w: 'majority' };
+    const satisfied = () => !lost && this.acknowledgers(writeConcern.w) >= this.required(writeConcern.w);
+
+    if (!(await this.waitFor(satisfied, writeConcern.wtimeout || undefined, false))) {
+      return {
+        ...reply,
+        writeConcernError: {
+          code: 64,
+          codeName: 'WriteConcernFailed',
+          errmsg: 'waiting for replication timed out',
+          errInfo: { wtimeout: true, writeConcern }
+        }
+      };
+    }
+    return reply;
+  }
+
+  /**
+   * Resolve true once `ready` holds. After `timeoutMs` resolve false, or
+   * fail with MaxTimeMSExpired when `expire` is set; with no timeout, wait
+   * as long as it takes.
+   */
+  private waitFor(ready: () => boolean, timeoutMs: number | undefined, expire: boolean = true): Promise<boolean> {
+    if (ready()) {
+      return Promise.resolve(true);
+    }
+    return new Promise<boolean>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const check = (): void => {
+        if (ready()) {
+          clearTimeout(timer);
+          this.waiters.delete(check);
+          resolve(true);
+        }
+      };
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.waiters.delete(check);
+          if (expire) {
+            reject(new CommandError(50, 'MaxTimeMSExpired', 'operation exceeded time limit'));
+          } else {
+            resolve(false);
+          }
+        }, timeoutMs);
+      }
+      this.waiters.add(check);
+    });
+  }
+
+  private transactionFor(command: Document): FakeTransaction {
+    const key = this.sessionKey(command);
+    const txnNumber = Number(command.txnNumber);
+    const existing = this.transactions.get(key);
+
+    if (command.startTransaction) {
+      const transaction: FakeTransaction = {
+        txnNumber,
+        state: 'in-progress',
+        readConcern: command.readConcern?.level,
+        startedAt: Date.now(),
+        snapshot: this.catalogClock,
+        namespaces: new Set(),
+        writes: []
+      };
+      this.transactions.set(key, transaction);
+      return transaction;
+    }
+    if (existing) {
+      this.reap(existing);
+    }
+    if (!existing || existing.txnNumber !== txnNumber || existing.state !== 'in-progress') {
+      throw new CommandError(251, 'NoSuchTransaction', `Transaction ${txnNumber} has been aborted.`, ['TransientTransactionError']);
+    }
+    return existing;
+  }
+
+  // Abort a transaction that has outlived transactionLifetimeLimitSeconds
+  private reap(transaction: FakeTransaction): void {
+    if (transaction.state === 'in-progress' &&
+        Date.now() - transaction.startedAt > this.transactionLifetimeLimitSeconds * 1000) {
+      transaction.state = 'aborted';
+      this.changed();
+    }
+  }
+
+  /**
+   * A transaction cannot use a collection whose catalog changed after its
+   * snapshot was taken: a write conflicts, a read finds no snapshot.
+   */
+  private requireSnapshotCatalog(name: string, ns: string, transaction: FakeTransaction): void {
+    if ((this.catalogChanges.get(ns) ?? 0) <= transaction.snapshot) {
+      return;
+    }
+    if (name === 'find') {
+      throw new CommandError(246, 'SnapshotUnavailable',
+        `Unable to read from a snapshot due to pending collection catalog changes; please retry the operation. Namespace ${ns}`,
+        ['TransientTransactionError']);
+    }
+    throw new CommandError(112, 'WriteConflict',
+      `Unable to write to collection '${ns}' due to catalog changes; please retry the operation`,
+      ['TransientTransactionError']);
+  }
+
+  /**
+   * Build or drop an index: wait, like the collection lock would, for open
+   * transactions that have used the collection, then bump its catalog version.
+   */
+  private async changeCatalog(member: FakeMember, command: Document, collection: string): Promise<void> {
+    this.requirePrimary(member);
+    const ns = `${command.$db}.${collection}`;
+    const inUse = () => [...this.transactions.values()].some(t => {
+      this.reap(t);
+      return t.state === 'in-progress' && t.namespaces.has(ns);
+    });
+    await this.waitFor(() => !inUse(), command.maxTimeMS);
+    this.requirePrimary(member);
+    this.collection(ns);
+    this.catalogChanges.set(ns, ++this.catalogClock);
+  }
+
+  // The collection as the transaction sees it: committed data plus its own writes
+  private transactionView(ns: string, transaction: FakeTransaction): Document[] {
+    const docs = this.collection(ns).map(clone);
+    for (const write of transaction.writes.filter(w => w.ns === ns)) {
+      write.apply(docs);
+    }
+    return docs;
+  }
+
+  private sessionKey(command: Document): string {
+    if (!command.lsid) {
+      throw new CommandError(50768, 'InvalidOptions', 'Transactions require a session');
+    }
+    return Buffer.from(command.lsid.id.buffer).toString('hex');
+  }
+
+  private collection(ns: string): Document[] {
+    let docs = this.store.get(ns);
+    if (!docs) {
+      docs = [];
+      this.store.set(ns, docs);
+    }
+    return docs;
+  }
+
+  private requirePrimary(member: FakeMember): void {
+    if (member !== this.primary) {
+      throw new CommandError(10107, 'NotWritablePrimary', 'not primary');
+    }
+  }
+
+  private member(name: string): FakeMember {
+    const member = this.members.find(m => m.name === name);
+    if (!member) {
+      throw new Error(`Unknown member: ${name} (fake replica set has ${this.members.map(m => m.name).join(', ')})`);
+    }
+    return member;
+  }
+
+  private voters(): FakeMember[] {
+    return this.members.filter(m => (m.spec.votes ?? 1) === 1);
+  }
+
+  private majorityAvailable(): boolean {
+    const voters = this.voters();
+    return voters.filter(m => m.available).length > voters.length / 2;
+  }
+
+  // Members able to become primary right now, best priority first
+  private electable(): FakeMember[] {
+    return this.members
+      .filter(m => m.available && !m.spec.arbiter && (m.spec.priority ?? 1) > 0 && (m.spec.votes ?? 1) === 1)
+      .sort((a, b) => (b.spec.priority ?? 1) - (a.spec.priority ?? 1));
+  }
+
+  // Data-bearing members that count towards `w` and are able to acknowledge
+  private acknowledgers(w: number | string = 'majority'): number {
+    // A primary cut off from its peers acknowledges alone
+    if (this.primary?.isolated) {
+      return 1;
+    }
+    return this.members.filter(m =>
+      m.available && !m.spec.arbiter && !m.spec.secondaryDelaySecs &&
+      (w !== 'majority' || (m.spec.votes ?? 1) === 1)
+    ).length;
+  }
+
+  private required(w: number | string = 'majority'): number {
+    return typeof w === 'number' ? w : Math.floor(this.voters().length / 2) + 1;
+  }
+
+  private elect(member: FakeMember): void {
+    if (this.majorityStore && member !== this.primary) {
+      this.rollBack(this.majorityStore);
+    }
+    this.majorityStore = null;
+    this.term++;
+    this.primary = member;
+    // The new primary knows nothing of transactions open on the old one
+    for (const transaction of this.transactions.values()) {
+      if (transaction.state === 'in-progress') {
+        transaction.state = 'aborted';
+      }
+    }
+  }
+
+  // Undo what the isolated primary wrote on its own
+  private rollBack(majority: Map<string, Document[]>): void {
+    // The session records of the undone writes go with them
+    this.retryableWrites.clear();
+    for (const [ns, docs] of this.store) {
+      const kept = majority.get(ns) ?? [];
+      this.rolledBack += docs.filter(doc => !kept.some(k => k._id?.toString() === doc._id?.toString())).length;
+      docs.splice(0, docs.length, ...kept);
+    }
+  }
+
+  // Re-check waiting commands and hold an election when the primary is gone
+  private changed(): void {
+    for (const check of [...this.waiters]) {
+      check();
+    }
+    if (this.primary?.available || this.electionTimer) {
+      return;
+    }
+    this.electionTimer = setTimeout(() => {
+      this.electionTimer = null;
+      const candidate = this.electable()[0];
+      if (!this.primary?.available && candidate && this.majorityAvailable()) {
+        this.elect(candidate);
+        this.changed();
+      }
+    }, this.electionTimeoutMs);
+  }
+}
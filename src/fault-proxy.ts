@@ -0,0 +1,367 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import { sleep } from './util';
+
+/**
+ * Direction of traffic relative to the faulted member:
+ * - inbound:  bytes sent to the member (driver requests, replication pulls)
+ * - outbound: bytes sent by the member (replies, heartbeats it originates)
+ * - both:     everything in and out of the member
+ */
+export type FaultDirection = 'inbound' | 'outbound' | 'both';
+
+/**
+ * Whose traffic with the faulted member is affected:
+ * - all:   the driver's and the other members'
+ * - peers: only replication and heartbeats between members; needs member
+ *          source addresses, and the driver still reaches the member
+ */
+export type FaultScope = 'all' | 'peers';
+
+/**
+ * - blackhole: accept connections but never forward; bytes are held until healed
+ * - latency:   delay every chunk by `ms`
+ * - reset:     reset (RST) affected connections, existing and new
+ * - throttle:  forward at most `bytesPerSecond`
+ * - half-open: drop the receiving end without telling the sending end
+ */
+export type ProxyFault =
+  | { type: 'blackhole' }
+  | { type: 'latency'; ms: number }
+  | { type: 'reset' }
+  | { type: 'throttle'; bytesPerSecond: number }
+  | { type: 'half-open' };
+
+export interface ProxyMember {
+  name: string;
+  listenHost: string;
+  listenPort: number;
+  targetHost: string;
+  targetPort: number;
+  /**
+   * Source address of connections this member opens itself (its container IP).
+   * Lets the proxy tell replication traffic apart from driver traffic.
+   */
+  sourceAddress?: string;
+}
+
+export interface ActiveFault {
+  member: string;
+  direction: FaultDirection;
+  scope: FaultScope;
+  fault: ProxyFault;
+}
+
+// Connections that do not originate from a known member come from the driver
+const CLIENT = 'client';
+
+// Throttled chunks are released in slices this often
+const THROTTLE_TICK_MS = 100;
+
+class Pipe {
+  private queue: Buffer[] = [];
+  private pumping = false;
+  private discarding = false;
+
+  constructor(
+    private readonly proxy: FaultProxy,
+    private readonly link: Link,
+    private readonly source: net.Socket,
+    private readonly destination: net.Socket,
+    readonly sender: string,
+    readonly receiver: string
+  ) {
+    source.on('data', (chunk: Buffer) => {
+      if (this.discarding) {
+        return;
+      }
+      this.queue.push(chunk);
+      // Backpressure: read nothing more until this chunk has been forwarded
+      source.pause();
+      void this.pump();
+    });
+  }
+
+  faults(): ProxyFault[] {
+    return this.proxy.faultsBetween(this.sender, this.receiver);
+  }
+
+  discard(): void {
+    this.discarding = true;
+    this.queue = [];
+    this.source.resume();
+  }
+
+  async pump(): Promise<void> {
+    if (this.pumping) {
+      return;
+    }
+    this.pumping = true;
+
+    try {
+      while (this.queue.length > 0 && !this.link.closed && !this.discarding) {
+        const faults = this.faults();
+
+        if (faults.some(f => f.type === 'reset')) {
+          this.link.reset();
+          return;
+        }
+        if (faults.some(f => f.type === 'half-open')) {
+          this.link.halfOpen(this);
+          return;
+        }
+        if (faults.some(f => f.type === 'blackhole')) {
+          await this.proxy.waitForChange(this.link);
+          continue;
+        }
+
+        const chunk = this.queue.shift() as Buffer;
+        const latency = faults.reduce((total, f) => total + (f.type === 'latency' ? f.ms : 0), 0);
+        if (latency > 0) {
+          await sleep(latency);
+        }
+
+        const rates = faults.flatMap(f => (f.type === 'throttle' ? [f.bytesPerSecond] : []));
+        if (rates.length > 0) {
+          const sliceSize = Math.max(1, Math.floor(Math.min(...rates) * THROTTLE_TICK_MS / 1000));
+          for (let offset = 0; offset < chunk.length && !this.link.closed; offset += sliceSize) {
+            this.destination.write(chunk.subarray(offset, offset + sliceSize));
+            await sleep(THROTTLE_TICK_MS);
+          }
+        } else {
+          this.destination.write(chunk);
+        }
+      }
+
+      if (!this.link.closed && !this.discarding) {
+        this.source.resume();
+      }
+    } finally {
+      this.pumping = false;
+    }
+  }
+}
+
+class Link {
+  closed = false;
+  private dropped: net.Socket | null = null;
+  readonly upstream: Pipe;
+  readonly downstream: Pipe;
+
+  constructor(
+    private readonly proxy: FaultProxy,
+    readonly client: net.Socket,
+    readonly server: net.Socket,
+    readonly from: string,
+    readonly to: string
+  ) {
+    this.upstream = new Pipe(proxy, this, client, server, from, to);
+    this.downstream = new Pipe(proxy, this, server, client, to, from);
+
+    for (const socket of [client, server]) {
+      socket.on('error', () => this.close());
+      socket.on('close', () => {
+        // The end dropped by a half-open fault closing is the point of the fault
+        if (socket !== this.dropped) {
+          this.close();
+        }
+      });
+    }
+  }
+
+  /**
+   * Apply connection-level faults (reset, half-open) that are already active.
+   * Returns false when the link was torn down.
+   */
+  applyConnectionFaults(): boolean {
+    for (const pipe of [this.upstream, this.downstream]) {
+      const faults = pipe.faults();
+      if (faults.some(f => f.type === 'reset')) {
+        this.reset();
+        return false;
+      }
+      if (faults.some(f => f.type === 'half-open')) {
+        this.halfOpen(pipe);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  reset(): void {
+    if (this.closed) {
+      return;
+    }
+    this.client.resetAndDestroy();
+    this.server.resetAndDestroy();
+    this.close();
+  }
+
+  /**
+   * Drop the receiving end of `pipe` and silently discard whatever the
+   * sending end writes from now on. The sender never learns the peer is gone.
+   */
+  halfOpen(pipe: Pipe): void {
+    if (this.closed || this.dropped) {
+      return;
+    }
+    this.dropped = pipe === this.upstream ? this.server : this.client;
+    this.upstream.discard();
+    this.downstream.discard();
+    this.dropped.destroy();
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.client.destroy();
+    this.server.destroy();
+    this.proxy.release(this);
+  }
+}
+
+/**
+ * TCP proxy placed in front of each replica set member. Faults are applied
+ * per member and per direction, so a partition can cut a member off from the
+ * driver and (when member source addresses are known) from its peers, without
+ * iptables, docker pause or root.
+ *
+ * Emits 'inject' and 'heal' with the affected ActiveFault(s).
+ */
+export class FaultProxy extends EventEmitter {
+  private servers: net.Server[] = [];
+  private links = new Set<Link>();
+  private active: ActiveFault[] = [];
+  private waiters: Array<{ link: Link; resolve: () => void }> = [];
+
+  constructor(private readonly members: ProxyMember[]) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    for (const member of this.members) {
+      const server = net.createServer(socket => this.accept(member, socket));
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(member.listenPort, member.listenHost, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+      this.servers.push(server);
+    }
+  }
+
+  async stop(): Promise<void> {
+    for (const link of [...this.links]) {
+      link.close();
+    }
+    await Promise.all(
+      this.servers.map(server => new Promise<void>(resolve => server.close(() => resolve())))
+    );
+    this.servers = [];
+  }
+
+  /** Start a fault; the returned handle heals exactly this fault with `remove` */
+  inject(member: string, fault: ProxyFault, direction: FaultDirection = 'both', scope: FaultScope = 'all'): ActiveFault {
+    if (!this.members.some(m => m.name === member)) {
+      throw new Error(`Unknown proxy member: ${member}`);
+    }
+    if (scope === 'peers' && !this.members.some(m => m.sourceAddress)) {
+      throw new Error('Faults between members need member source addresses to tell their traffic apart');
+    }
+    const active: ActiveFault = { member, direction, scope, fault };
+    this.active.push(active);
+    this.emit('inject', active);
+
+    for (const link of [...this.links]) {
+      if (link.applyConnectionFaults()) {
+        void link.upstream.pump();
+        void link.downstream.pump();
+      }
+    }
+    this.notifyChange();
+    return active;
+  }
+
+  /**
+   * Remove one fault started by `inject`; other faults on the same member
+   * stay. Connections already reset or half-opened stay that way.
+   */
+  remove(active: ActiveFault): void {
+    if (!this.active.includes(active)) {
+      return;
+    }
+    this.active = this.active.filter(f => f !== active);
+    this.emit('heal', [active]);
+    this.notifyChange();
+  }
+
+  /**
+   * Teardown: remove every fault on `member`, or on all members when omitted.
+   */
+  heal(member?: string): void {
+    const healed = this.active.filter(f => member === undefined || f.member === member);
+    this.active = this.active.filter(f => !healed.includes(f));
+    if (healed.length > 0) {
+      this.emit('heal', healed);
+    }
+    this.notifyChange();
+  }
+
+  activeFaults(): ActiveFault[] {
+    return [...this.active];
+  }
+
+  /**
+   * Faults that apply to bytes travelling from `sender` to `receiver`.
+   */
+  faultsBetween(sender: string, receiver: string): ProxyFault[] {
+    const betweenMembers = sender !== CLIENT && receiver !== CLIENT;
+    return this.active
+      .filter(f => f.scope === 'all' || betweenMembers)
+      .filter(f =>
+        (f.member === sender && f.direction !== 'inbound') ||
+        (f.member === receiver && f.direction !== 'outbound'))
+      .map(f => f.fault);
+  }
+
+  waitForChange(link: Link): Promise<void> {
+    return new Promise(resolve => this.waiters.push({ link, resolve }));
+  }
+
+  release(link: Link): void {
+    this.links.delete(link);
+    const waiting = this.waiters.filter(w => w.link === link);
+    this.waiters = this.waiters.filter(w => w.link !== link);
+    for (const waiter of waiting) {
+      waiter.resolve();
+    }
+  }
+
+  private notifyChange(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.resolve();
+    }
+  }
+
+  private identify(socket: net.Socket): string {
+    const address = (socket.remoteAddress || '').replace(/^::ffff:/, '');
+    const member = this.members.find(m => m.sourceAddress === address);
+    return member ? member.name : CLIENT;
+  }
+
+  private accept(member: ProxyMember, client: net.Socket): void {
+    const server = net.connect(member.targetPort, member.targetHost);
+    client.setNoDelay(true);
+    server.setNoDelay(true);
+
+    const link = new Link(this, client, server, this.identify(client), member.name);
+    this.links.add(link);
+    link.applyConnectionFaults();
+  }
+}
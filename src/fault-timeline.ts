@@ -0,0 +1,131 @@
+import { describeFault, FaultInjector, FaultSpec } from './faults';
+import { sleep } from './util';
+
+/**
+ * Points in the transaction where faults can fire:
+ * - after-connect: the client is connected, no session yet
+ * - after-insert:  the last insert operation has completed
+ * - before-commit: every operation has completed, commit not yet sent
+ * - during-commit: commitTransaction() has been sent and is in flight
+ */
+export type Phase = 'after-connect' | 'after-insert' | 'before-commit' | 'during-commit';
+
+export const PHASES: Phase[] = ['after-connect', 'after-insert', 'before-commit', 'during-commit'];
+
+/**
+ * One entry of a scenario's fault timeline, e.g. "partition mongo2+mongo3
+ * right after the last insert, heal after 10s".
+ */
+export interface FaultStep {
+  at: Phase;
+  /** Wait this long after reaching the phase before injecting */
+  delayMs?: number;
+  members: string[];
+  fault: FaultSpec;
+  /** Heal this long after injecting; omitted keeps the fault until the run ends */
+  healAfterMs?: number;
+}
+
+export interface FaultEvent {
+  /** Milliseconds since the run started */
+  atMs: number;
+  phase: Phase;
+  action: 'inject' | 'heal';
+  members: string[];
+  fault: FaultSpec;
+}
+
+// Stepdowns and index builds name no members: they act on whichever member is primary
+function target(step: FaultStep): string {
+  return step.members.join(', ') || 'the primary';
+}
+
+interface ActiveStep {
+  step: FaultStep;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Fires a scenario's fault steps when the runner reaches each phase, and
+ * heals them on schedule or when the run ends.
+ */
+export class FaultTimeline {
+  readonly events: FaultEvent[] = [];
+  private active: ActiveStep[] = [];
+  private fired = new Set<FaultStep>();
+  private healing = new Set<Promise<void>>();
+
+  constructor(
+    private readonly steps: FaultStep[],
+    private readonly injector: FaultInjector,
+    private readonly startedAt: number,
+    private readonly onEvent: (event: FaultEvent) => void = () => {}
+  ) {}
+
+  /**
+   * Fire the steps for `phase`. Each step fires once per run, so a retried
+   * transaction passing the same phase again does not re-inject.
+   */
+  async reach(phase: Phase): Promise<void> {
+    for (const step of this.steps.filter(s => s.at === phase && !this.fired.has(s))) {
+      this.fired.add(step);
+      if (step.delayMs) {
+        await sleep(step.delayMs);
+      }
+
+      await this.injector.inject(step.members, step.fault);
+      this.record(step, 'inject');
+      console.log(`💥 Injected ${describeFault(step.fault)} on ${target(step)} (${phase})\n`);
+
+      const entry: ActiveStep = { step };
+      if (step.healAfterMs !== undefined) {
+        entry.timer = setTimeout(() => this.track(this.heal(entry)), step.healAfterMs);
+      }
+      this.active.push(entry);
+    }
+  }
+
+  /**
+   * Heal every fault still in place so an unattended run leaves the
+   * replica set as it found it.
+   */
+  async finish(): Promise<void> {
+    await Promise.all(this.healing);
+    for (const entry of [...this.active]) {
+      await this.heal(entry);
+    }
+  }
+
+  private async heal(entry: ActiveStep): Promise<void> {
+    if (!this.active.includes(entry)) {
+      return;
+    }
+    clearTimeout(entry.timer);
+    this.active = this.active.filter(e => e !== entry);
+
+    try {
+      await this.injector.heal(entry.step.members, entry.step.fault);
+      this.record(entry.step, 'heal');
+      console.log(`🩹 Healed ${describeFault(entry.step.fault)} on ${target(entry.step)}\n`);
+    } catch (err: any) {
+      console.error(`Failed to heal ${describeFault(entry.step.fault)} on ${target(entry.step)}:`, err.message);
+    }
+  }
+
+  private track(healing: Promise<void>): void {
+    this.healing.add(healing);
+    healing.finally(() => this.healing.delete(healing));
+  }
+
+  private record(step: FaultStep, action: FaultEvent['action']): void {
+    const event: FaultEvent = {
+      atMs: Date.now() - this.startedAt,
+      phase: step.at,
+      action,
+      members: step.members,
+      fault: step.fault
+    };
+    this.events.push(event);
+    this.onEvent(event);
+  }
+}
@@ -0,0 +1,381 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Db, Document, MongoClient, MongoNetworkError } from 'mongodb';
+import { baseUri, dbName, proxyUri } from './connection';
+import { FakeReplicaSet, FakeRule } from './fake-mongod';
+import { ActiveFault, FaultDirection, FaultProxy, ProxyFault } from './fault-proxy';
+import { ReplicaSetController } from './replica-set';
+import { isInteger, isNonEmptyString, isObject } from './spec-file';
+import { getTopology } from './topologies';
+
+const run = promisify(execFile);
+
+/**
+ * A fault applied to one or more members.
+ *
+ * - stop / kill / pause: docker compose stop, docker compose kill, docker pause
+ * - partition:           blackhole the member in both directions via the fault proxy
+ * - isolate:             blackhole the member from its peers only; the driver
+ *                        still reaches it, so an isolated primary keeps taking
+ *                        writes until it notices and steps down
+ * - stepdown:            ask the current primary to step down (members are ignored)
+ * - reconfig:            reconfigure the set to a named topology; healing restores
+ *                        the members as they were (members are ignored)
+ * - proxy:               any other fault proxy fault, e.g. latency or half-open
+ * - script:              scripted replies from the members of the fake replica
+ *                        set, e.g. never answer commitTransaction (fake only)
+ * - create-index:        build an index on a collection from outside the
+ *                        transaction and wait for it; healing drops it (members
+ *                        are ignored). The build queues behind any transaction
+ *                        that has touched the collection, so fire it before the
+ *                        transaction does to see the catalog conflict instead
+ *
+ * On the fake replica set (--fake) process faults act on the fake members;
+ * a partition or blackhole freezes them like pause, since the driver and the
+ * other members both lose them, and isolate cuts them off from their peers.
+ * Throttle, half-open and one-way proxy faults have no fake equivalent and
+ * are refused before the run starts (see checkFakeFaults).
+ */
+export type FaultSpec =
+  | { type: 'stop' }
+  | { type: 'kill' }
+  | { type: 'pause' }
+  | { type: 'partition' }
+  | { type: 'isolate' }
+  | { type: 'stepdown' }
+  | { type: 'reconfig'; topology: string }
+  | { type: 'proxy'; fault: ProxyFault; direction?: FaultDirection }
+  | { type: 'script'; rule: FakeRule }
+  | { type: 'create-index'; collection: string; key: Record<string, 1 | -1> };
+
+/**
+ * docker compose stop/start/kill for member containers.
+ */
+export async function compose(action: 'stop' | 'start' | 'kill', members: string[]): Promise<void> {
+  await run('docker', ['compose', action, ...members]);
+}
+
+export function describeFault(fault: FaultSpec): string {
+  if (fault.type === 'proxy') {
+    return `${fault.fault.type} (${fault.direction ?? 'both'})`;
+  }
+  if (fault.type === 'reconfig') {
+    return `reconfig (${fault.topology})`;
+  }
+  if (fault.type === 'script') {
+    return `script (${fault.rule.command}: ${fault.rule.reply.type})`;
+  }
+  if (fault.type === 'create-index') {
+    return `create-index (${fault.collection} ${JSON.stringify(fault.key)})`;
+  }
+  return fault.type;
+}
+
+/**
+ * Why the fake replica set cannot apply `fault`, or undefined when it can.
+ * The fake answers commands instead of forwarding bytes, so it has nothing
+ * to throttle or half-close and cannot fault one direction only.
+ */
+export function fakeUnsupported(fault: FaultSpec): string | undefined {
+  if (fault.type === 'reconfig') {
+    return 'reconfig needs the Docker replica set';
+  }
+  if (fault.type !== 'proxy') {
+    return undefined;
+  }
+  if (fault.fault.type === 'throttle' || fault.fault.type === 'half-open') {
+    return `${fault.fault.type} is not supported by the fake replica set; run it against the Docker replica set with --proxy`;
+  }
+  if ((fault.direction ?? 'both') !== 'both') {
+    return `${describeFault(fault)} is not supported by the fake replica set, which only faults both directions`;
+  }
+  return undefined;
+}
+
+/**
+ * Refuse to start a run on the fake replica set that would fail once it
+ * reaches a fault the fake cannot apply.
+ */
+export function checkFakeFaults(faults: FaultSpec[]): void {
+  const problems = faults.map(fakeUnsupported).filter((problem): problem is string => problem !== undefined);
+  if (problems.length > 0) {
+    throw new Error(`Cannot run on the fake replica set:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+}
+
+const FAULT_TYPES: FaultSpec['type'][] = ['stop', 'kill', 'pause', 'partition', 'isolate', 'stepdown', 'reconfig', 'proxy', 'script', 'create-index'];
+const PROXY_FAULT_TYPES: ProxyFault['type'][] = ['blackhole', 'latency', 'reset', 'throttle', 'half-open'];
+const DIRECTIONS: FaultDirection[] = ['inbound', 'outbound', 'both'];
+const FAKE_REPLY_TYPES: FakeRule['reply']['type'][] = ['error', 'wtimeout', 'no-reply', 'delay'];
+
+function proxyFaultValid(fault: unknown): boolean {
+  if (!isObject(fault) || !PROXY_FAULT_TYPES.includes(fault.type as ProxyFault['type'])) {
+    return false;
+  }
+  return fault.type === 'latency' ? isInteger(fault.ms, 0)
+    : fault.type === 'throttle' ? isInteger(fault.bytesPerSecond, 1) : true;
+}
+
+/**
+ * What is wrong with a fault read from a spec file, or undefined when it
+ * is a FaultSpec the injector can apply.
+ */
+export function faultProblem(fault: unknown): string | undefined {
+  const got = `got ${JSON.stringify(fault)}`;
+  if (!isObject(fault) || !FAULT_TYPES.includes(fault.type as FaultSpec['type'])) {
+    return `expected { type: ${FAULT_TYPES.join(' | ')}, ... }, ${got}`;
+  }
+  switch (fault.type) {
+    case 'reconfig':
+      return typeof fault.topology === 'string' && getTopology(fault.topology) ? undefined
+        : `expected { type: 'reconfig', topology } with a known topology, ${got}`;
+    case 'proxy':
+      return proxyFaultValid(fault.fault) && (fault.direction === undefined || DIRECTIONS.includes(fault.direction as FaultDirection))
+        ? undefined
+        : `expected { type: 'proxy', fault: { type: ${PROXY_FAULT_TYPES.join(' | ')}, ... }, direction?: ${DIRECTIONS.join(' | ')} }, ${got}`;
+    case 'script': {
+      const rule = fault.rule;
+      return isObject(rule) && isNonEmptyString(rule.command) && isObject(rule.reply) &&
+        FAKE_REPLY_TYPES.includes(rule.reply.type as FakeRule['reply']['type']) ? undefined
+        : `expected { type: 'script', rule: { command, reply: { type: ${FAKE_REPLY_TYPES.join(' | ')}, ... } } }, ${got}`;
+    }
+    case 'create-index':
+      return isNonEmptyString(fault.collection) && isObject(fault.key) &&
+        Object.values(fault.key).every(direction => direction === 1 || direction === -1) ? undefined
+        : `expected { type: 'create-index', collection, key: { field: 1 | -1 } }, ${got}`;
+    default:
+      return undefined;
+  }
+}
+
+export function needsProxy(fault: FaultSpec): boolean {
+  return fault.type === 'partition' || fault.type === 'isolate' || fault.type === 'proxy';
+}
+
+/**
+ * Applies and reverts faults on the local replica set, through docker for
+ * process-level faults and through the fault proxy for network faults, or
+ * directly on the fake replica set when there is one.
+ */
+export class FaultInjector {
+  // Members as they were before each reconfig, restored on heal
+  private readonly reconfigured = new Map<FaultSpec, Document[]>();
+  // Proxy faults started for each step, so healing one leaves overlapping ones in place
+  private readonly proxyFaults = new Map<FaultSpec, ActiveFault[]>();
+  // Names of the indexes built by create-index, dropped on heal
+  private readonly indexes = new Map<FaultSpec, string>();
+
+  constructor(
+    private readonly client: MongoClient,
+    private readonly proxy: FaultProxy | null,
+    private readonly fake: FakeReplicaSet | null = null
+  ) {}
+
+  async inject(members: string[], fault: FaultSpec): Promise<void> {
+    // DDL goes through a driver on the fake replica set too
+    if (fault.type === 'create-index') {
+      this.indexes.set(fault, await this.withDb(db => db.collection(fault.collection).createIndex(fault.key)));
+      return;
+    }
+    if (this.fake) {
+      return this.injectFake(this.fake, members, fault);
+    }
+    switch (fault.type) {
+      case 'stop':
+      case 'kill':
+        await compose(fault.type, members);
+        break;
+      case 'pause':
+        await run('docker', ['pause', ...members]);
+        break;
+      case 'partition':
+        this.injectProxy(fault, members.map(member => this.requireProxy().inject(member, { type: 'blackhole' }, 'both')));
+        break;
+      case 'isolate':
+        this.injectProxy(fault, members.map(member => this.requireProxy().inject(member, { type: 'blackhole' }, 'both', 'peers')));
+        break;
+      case 'proxy':
+        this.injectProxy(fault, members.map(member => this.requireProxy().inject(member, fault.fault, fault.direction ?? 'both')));
+        break;
+      case 'stepdown':
+        try {
+          await this.client.db('admin').command({ replSetStepDown: 60 });
+        } catch (err) {
+          // Older servers drop connections on stepdown; the stepdown still happened
+          if (!(err instanceof MongoNetworkError)) {
+            throw err;
+          }
+        }
+        break;
+      case 'reconfig': {
+        const topology = getTopology(fault.topology);
+        if (!topology) {
+          throw new Error(`Unknown topology: ${fault.topology}`);
+        }
+        await this.withController(async controller => {
+          this.reconfigured.set(fault, (await controller.getReplSetConfig()).members);
+          await controller.applyTopology(topology);
+        });
+        break;
+      }
+      case 'script':
+        throw new Error('Scripted replies need the fake replica set (--fake)');
+    }
+  }
+
+  async heal(members: string[], fault: FaultSpec): Promise<void> {
+    if (fault.type === 'create-index') {
+      const name = this.indexes.get(fault);
+      this.indexes.delete(fault);
+      if (name) {
+        await this.withDb(db => db.collection(fault.collection).dropIndex(name));
+      }
+      return;
+    }
+    if (this.fake) {
+      return this.healFake(this.fake, members, fault);
+    }
+    switch (fault.type) {
+      case 'stop':
+      case 'kill':
+        await compose('start', members);
+        break;
+      case 'pause':
+        await run('docker', ['unpause', ...members]);
+        break;
+      case 'partition':
+      case 'isolate':
+      case 'proxy': {
+        const started = this.proxyFaults.get(fault) ?? [];
+        const healed = started.filter(active => members.includes(active.member));
+        healed.forEach(active => this.requireProxy().remove(active));
+        const remaining = started.filter(active => !healed.includes(active));
+        if (remaining.length > 0) {
+          this.proxyFaults.set(fault, remaining);
+        } else {
+          this.proxyFaults.delete(fault);
+        }
+        break;
+      }
+      case 'stepdown':
+        // Nothing to revert: the set has already elected a new primary
+        break;
+      case 'reconfig': {
+        const members = this.reconfigured.get(fault);
+        this.reconfigured.delete(fault);
+        if (members) {
+          await this.withController(async controller => {
+            await controller.waitForPrimary();
+            await controller.restoreMembers(members);
+          });
+        }
+        break;
+      }
+      case 'script':
+        break;
+    }
+  }
+
+  private async injectFake(fake: FakeReplicaSet, members: string[], fault: FaultSpec): Promise<void> {
+    const unsupported = fakeUnsupported(fault);
+    if (unsupported) {
+      throw new Error(unsupported);
+    }
+    switch (fault.type) {
+      case 'stop':
+      case 'kill':
+        for (const member of members) {
+          await fake.stopMember(member);
+        }
+        break;
+      case 'pause':
+      case 'partition':
+        members.forEach(member => fake.pause(member));
+        break;
+      case 'isolate':
+        members.forEach(member => fake.isolate(member));
+        break;
+      case 'stepdown':
+        fake.stepDown();
+        break;
+      case 'script':
+        members.forEach(member => fake.script(member, fault.rule));
+        break;
+      case 'proxy':
+        for (const member of members) {
+          switch (fault.fault.type) {
+            case 'blackhole':
+              fake.pause(member);
+              break;
+            case 'latency':
+              fake.setLatency(member, fault.fault.ms);
+              break;
+            case 'reset':
+              fake.resetConnections(member);
+              break;
+          }
+        }
+        break;
+    }
+  }
+
+  private async healFake(fake: FakeReplicaSet, members: string[], fault: FaultSpec): Promise<void> {
+    switch (fault.type) {
+      case 'stop':
+      case 'kill':
+        for (const member of members) {
+          await fake.startMember(member);
+        }
+        break;
+      case 'pause':
+      case 'partition':
+        members.forEach(member => fake.resume(member));
+        break;
+      case 'isolate':
+        members.forEach(member => fake.reconnect(member));
+        break;
+      case 'script':
+        members.forEach(member => fake.unscript(member, fault.rule));
+        break;
+      case 'proxy':
+        for (const member of members) {
+          if (fault.fault.type === 'blackhole') {
+            fake.resume(member);
+          } else if (fault.fault.type === 'latency') {
+            fake.setLatency(member, 0);
+          }
+        }
+        break;
+    }
+  }
+
+  private async withController(action: (controller: ReplicaSetController) => Promise<void>): Promise<void> {
+    const controller = new ReplicaSetController(this.proxy ? proxyUri() : baseUri(), this.proxy !== null);
+    try {
+      await action(controller);
+    } finally {
+      await controller.close();
+    }
+  }
+
+  // A client of its own: faults are healed after the run's client has closed
+  private async withDb<T>(action: (db: Db) => Promise<T>): Promise<T> {
+    const client = new MongoClient(this.fake ? this.fake.uri() : this.proxy ? proxyUri() : baseUri());
+    try {
+      return await action(client.db(dbName()));
+    } finally {
+      await client.close();
+    }
+  }
+
+  private injectProxy(fault: FaultSpec, started: ActiveFault[]): void {
+    this.proxyFaults.set(fault, [...(this.proxyFaults.get(fault) ?? []), ...started]);
+  }
+
+  private requireProxy(): FaultProxy {
+    if (!this.proxy) {
+      throw new Error('This fault needs the fault proxy (see "Fault Proxy" in the README)');
+    }
+    return this.proxy;
+  }
+}
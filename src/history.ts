@@ -0,0 +1,150 @@
+import fs from 'fs';
+import path from 'path';
+import { classifyMongoError } from './classify-error';
+
+/**
+ * - invoke: the client is about to send the operation
+ * - ok:     it took effect, with the value it returned
+ * - fail:   it certainly did not take effect
+ * - info:   it may or may not have taken effect (timeout, network error,
+ *           unknown commit result); the checkers consider both
+ */
+export type OpType = 'invoke' | 'ok' | 'fail' | 'info';
+
+/**
+ * Register operations act on one document: read returns its value, write
+ * sets it, cas takes [expected, new] and only succeeds on a match. A txn
+ * is a list of micro-operations, see TxnMicroOp.
+ */
+export type OpFunction = 'read' | 'write' | 'cas' | 'txn';
+
+/**
+ * ['r', key, value read] or ['w', key, value written]; reads are null on
+ * invoke and filled in on completion.
+ */
+export type TxnMicroOp = ['r' | 'w', number, number | null];
+
+export interface HistoryOp {
+  /** Position in the history; orders events exactly, unlike timeMs */
+  index: number;
+  type: OpType;
+  /** The logical client that issued the operation; one operation at a time each */
+  process: number;
+  f: OpFunction;
+  value: unknown;
+  timeMs: number;
+  /** Error code name or category of a fail/info completion */
+  error?: string;
+}
+
+/**
+ * An invocation with its completion; info operations and ones still
+ * pending when the history ended have completion type info.
+ */
+export interface CompletedOp {
+  process: number;
+  f: OpFunction;
+  invoke: HistoryOp;
+  completion: HistoryOp;
+}
+
+/**
+ * Records client operations as invoke/ok/fail/info events, in the order
+ * they happen, for the checkers to analyze after the run.
+ */
+export class History {
+  readonly ops: HistoryOp[] = [];
+  private readonly origin = performance.now();
+
+  invoke(process: number, f: OpFunction, value: unknown): HistoryOp {
+    return this.append({ type: 'invoke', process, f, value });
+  }
+
+  ok(invocation: HistoryOp, value: unknown = invocation.value): HistoryOp {
+    return this.append({ type: 'ok', process: invocation.process, f: invocation.f, value });
+  }
+
+  fail(invocation: HistoryOp, error: string, value: unknown = invocation.value): HistoryOp {
+    return this.append({ type: 'fail', process: invocation.process, f: invocation.f, value, error });
+  }
+
+  info(invocation: HistoryOp, error: string, value: unknown = invocation.value): HistoryOp {
+    return this.append({ type: 'info', process: invocation.process, f: invocation.f, value, error });
+  }
+
+  /** One JSON object per line, like the event timelines */
+  save(file: string): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, this.ops.map(op => JSON.stringify(op)).join('\n') + '\n');
+  }
+
+  static load(file: string): HistoryOp[] {
+    return fs.readFileSync(file, 'utf8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as HistoryOp);
+  }
+
+  private append(op: Omit<HistoryOp, 'index' | 'timeMs'>): HistoryOp {
+    const entry: HistoryOp = {
+      index: this.ops.length,
+      timeMs: Math.round((performance.now() - this.origin) * 1000) / 1000,
+      ...op
+    };
+    this.ops.push(entry);
+    return entry;
+  }
+}
+
+/**
+ * Pair each invocation with its completion. An invocation the history ends
+ * without completing is indeterminate, like an info completion.
+ */
+export function completedOps(ops: HistoryOp[]): CompletedOp[] {
+  const open = new Map<number, HistoryOp>();
+  const completed: CompletedOp[] = [];
+  for (const op of ops) {
+    if (op.type === 'invoke') {
+      if (open.has(op.process)) {
+        throw new Error(`Process ${op.process} invoked op ${op.index} while op ${open.get(op.process)!.index} was pending`);
+      }
+      open.set(op.process, op);
+      continue;
+    }
+    const invoke = open.get(op.process);
+    if (!invoke) {
+      throw new Error(`Completion ${op.index} of process ${op.process} has no invocation`);
+    }
+    open.delete(op.process);
+    completed.push({ process: op.process, f: op.f, invoke, completion: op });
+  }
+  const end = ops.length;
+  for (const invoke of open.values()) {
+    completed.push({
+      process: invoke.process,
+      f: invoke.f,
+      invoke,
+      completion: { ...invoke, index: end, type: 'info', error: 'pending at end of history' }
+    });
+  }
+  return completed.sort((a, b) => a.invoke.index - b.invoke.index);
+}
+
+/**
+ * Whether a failed write may still have taken effect. Only errors the
+ * server attaches TransientTransactionError to prove that nothing was
+ * applied; a retried write can fail on the retry after the first attempt
+ * went through, so everything else is indeterminate.
+ */
+export function failureType(error: any): 'fail' | 'info' {
+  const classified = classifyMongoError(error);
+  if (classified.labels.includes('UnknownTransactionCommitResult')) {
+    return 'info';
+  }
+  return classified.labels.includes('TransientTransactionError') ? 'fail' : 'info';
+}
+
+export function errorName(error: any): string {
+  const classified = classifyMongoError(error);
+  return classified.codeName || classified.category;
+}
@@ -0,0 +1,47 @@
+// The parts of @hyperswarm/rpc and hyperdht the RPC harness uses; neither ships types.
+
+declare module 'hyperdht' {
+  class DHT {
+    destroy(): Promise<void>;
+  }
+  export = DHT;
+}
+
+declare module 'hyperdht/testnet' {
+  import DHT from 'hyperdht';
+
+  interface Testnet {
+    bootstrap: { host: string; port: number }[];
+    /** An ephemeral node on the testnet, for one RPC instance */
+    createNode(): DHT;
+    destroy(): Promise<void>;
+  }
+
+  function createTestnet(size?: number): Promise<Testnet>;
+  export = createTestnet;
+}
+
+declare module '@hyperswarm/rpc' {
+  import DHT from 'hyperdht';
+
+  interface RequestOptions {
+    /** Reject with code TIMEOUT_EXCEEDED after this many ms; none by default */
+    timeout?: number;
+  }
+
+  interface RPCServer {
+    readonly publicKey: Buffer;
+    respond(method: string, handler: (request: Buffer) => Promise<Buffer> | Buffer): this;
+    listen(): Promise<void>;
+    close(): Promise<void>;
+  }
+
+  class RPC {
+    constructor(options?: { dht?: DHT; bootstrap?: { host: string; port: number }[] });
+    createServer(): RPCServer;
+    request(publicKey: Buffer, method: string, value: Buffer, options?: RequestOptions): Promise<Buffer>;
+    destroy(options?: { force?: boolean }): Promise<void>;
+  }
+
+  export = RPC;
+}
@@ -0,0 +1,45 @@
+export { classifyMongoError } from './classify-error';
+export type { ErrorCategory, ErrorClassification, Retryability } from './classify-error';
+export { backoffDelay, getRetryPolicy, RETRY_POLICIES, runTransactionWithRetry } from './transaction-retry';
+export type { RetryEvent, RetryPolicy } from './transaction-retry';
+export { ReplicaSetController } from './replica-set';
+export type { MemberStatus } from './replica-set';
+export { getTopology, TOPOLOGIES, validateTopology } from './topologies';
+export type { MemberSpec, Topology } from './topologies';
+export { FakeReplicaSet, NOT_WRITABLE_PRIMARY } from './fake-mongod';
+export type { FakeReplicaSetOptions, FakeReply, FakeRule } from './fake-mongod';
+export { buildReport, toJUnit, toMarkdown, writeReports } from './report';
+export type { ReportedRun, ReportEnvironment, RunReport } from './report';
+export { onShutdown, onWorkloadShutdown, shutdown } from './shutdown';
+export type { CleanupResult, CleanupStatus, ShutdownReport, WorkloadCleanup } from './shutdown';
+export { auditSettings, confirmFindings } from './audit';
+export type { AuditConfirmation, AuditFinding, AuditOptions, Severity } from './audit';
+export { classifyWrites, runRollback } from './rollback';
+export type { RollbackResult, RollbackSpec, RollbackWrite } from './rollback';
+export { checkCounter, checkInserts, runRetryable, summarizeOperation } from './retryable';
+export type {
+  CounterCheck,
+  RetryableEffects,
+  RetryableFailure,
+  RetryableFault,
+  RetryableOperation,
+  RetryableOperationSummary,
+  RetryableRecord,
+  RetryableResult,
+  RetryableSpec
+} from './retryable';
+export { bucketize, recovery, runLoad, summarize } from './load';
+export type { LatencySummary, LoadBucket, LoadFault, LoadOperation, LoadResult, LoadSample, LoadSpec } from './load';
+export { completedOps, History } from './history';
+export type { CompletedOp, HistoryOp, OpFunction, OpType, TxnMicroOp } from './history';
+export { checkLinearizable, checkTransactions } from './checkers';
+export type { Anomaly, AnomalyType, LinearizabilityResult, TransactionCheckResult } from './checkers';
+export { checkHistory, runConsistency } from './consistency';
+export type { ConsistencyResult, ConsistencySpec, ConsistencyWorkload } from './consistency';
+export { WalletWorker } from './wallet-worker';
+export type { HandlerRecord, WalletMethod } from './wallet-worker';
+export { runRpcHarness } from './rpc-harness';
+export type { CallOutcome, CallRecord, RpcBucket, RpcMethodSummary, RpcResult, RpcSpec } from './rpc-harness';
+export { runStepConsole } from './step-console';
+export { compareReplay, loadReplay, replayOf, saveReplay } from './replay';
+export type { FaultComparison, PhaseComparison, Replay, ReplayComparison, ReplayOutcome } from './replay';
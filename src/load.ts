@@ -0,0 +1,560 @@
+import fs from 'fs';
+import path from 'path';
+import { Collection, MongoClient, TransactionOptions } from 'mongodb';
+import { classifyMongoError } from './classify-error';
+import { getConfig } from './config';
+import { baseUri, buildUri, dbName, PROXY_MEMBERS, proxyUri } from './connection';
+import { EventRecorder } from './event-recorder';
+import { FakeReplicaSet } from './fake-mongod';
+import { FaultProxy } from './fault-proxy';
+import { checkFakeFaults, describeFault, faultProblem, FaultInjector, FaultSpec, needsProxy } from './faults';
+import { waitForHealthy } from './replica-set';
+import { onWorkloadShutdown } from './shutdown';
+import { isInteger, isMix, isNonEmptyString, isObject, isStringArray, isUriOptions, loadSpecFile } from './spec-file';
+import { printTable, rule, sleep } from './util';
+
+export type LoadOperation = 'transaction' | 'insert' | 'update' | 'find';
+
+const OPERATIONS: LoadOperation[] = ['transaction', 'insert', 'update', 'find'];
+
+/**
+ * N workers share one client (and so one pool) and together issue
+ * operations at a target rate, picked by weight from the mix. One fault
+ * is injected partway through and healed later.
+ */
+export interface LoadSpec {
+  workers: number;
+  /** Operations started per second across all workers; 0 runs every worker flat out */
+  ratePerSec: number;
+  durationMs: number;
+  /** Relative weights, e.g. { transaction: 5, find: 3 } */
+  mix: Partial<Record<LoadOperation, number>>;
+  /** Connection string options; maxPoolSize=150 as in production */
+  uriOptions: Record<string, string | number>;
+  /** null runs without a fault, as a baseline */
+  fault: LoadFault | null;
+  /** Width of the throughput-over-time buckets */
+  bucketMs: number;
+  /** How long to wait for in-flight operations once the run is over */
+  drainMs: number;
+  collection: string;
+}
+
+export interface LoadFault {
+  atMs: number;
+  members: string[];
+  fault: FaultSpec;
+  /** null leaves the fault in place until the run ends */
+  healAfterMs: number | null;
+}
+
+export const DEFAULT_LOAD: LoadSpec = {
+  workers: 50,
+  ratePerSec: 200,
+  durationMs: 40000,
+  mix: { transaction: 5, insert: 2, update: 1, find: 2 },
+  uriOptions: { maxPoolSize: 150, socketTimeoutMS: 30000, serverSelectionTimeoutMS: 30000 },
+  fault: { atMs: 10000, members: ['mongo1'], fault: { type: 'stop' }, healAfterMs: 10000 },
+  bucketMs: 1000,
+  drainMs: 35000,
+  collection: 'testcollection_load'
+};
+
+export interface LatencySummary {
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LoadBucket {
+  /** Start of the bucket, ms since the run started */
+  atMs: number;
+  /** Operations that finished in the bucket */
+  ok: number;
+  errors: number;
+  /** Successful operations per second */
+  throughput: number;
+  latency: LatencySummary;
+  poolWait: LatencySummary;
+  /** Most checkouts waiting for a connection at once */
+  peakQueued: number;
+  /** Most connections checked out at once */
+  peakInUse: number;
+  /** fault / heal when one happened in the bucket */
+  marker?: string;
+}
+
+export interface LoadResult {
+  spec: LoadSpec;
+  testId: string;
+  uri: string;
+  durationMs: number;
+  started: number;
+  ok: number;
+  errors: number;
+  /** Operations still pending after the drain budget */
+  stuck: number;
+  latency: Record<LoadOperation, LatencySummary>;
+  /** Time to check a connection out of the pool, including checkouts that failed */
+  poolWait: LatencySummary;
+  /** Failed operations by error category and code name (or driver error class) */
+  errorsByClass: Record<string, number>;
+  buckets: LoadBucket[];
+  faultAtMs?: number;
+  healedAtMs?: number;
+  /**
+   * From the heal (or the fault, when it is never healed) to the first
+   * bucket without errors and with at least 90% of the pre-fault throughput
+   */
+  recoveryMs?: number;
+  /** The same from the fault; shows a failover that recovers before the heal */
+  recoveredAfterFaultMs?: number;
+  /** Longest stretch without a single successful operation */
+  longestGapMs: number;
+  eventsFile: string;
+}
+
+export interface LoadSample {
+  operation: LoadOperation;
+  endedAtMs: number;
+  latencyMs: number;
+  error?: string;
+}
+
+// Counter documents are keyed by test id and worker rather than an ObjectId
+interface Counter {
+  _id: string;
+  n: number;
+}
+
+// A bucket after the fault counts as recovered at this share of the baseline throughput
+const RECOVERED_SHARE = 0.9;
+
+/**
+ * What is wrong with the scheduled fault of a workload spec, or undefined
+ * when it is null or a LoadFault.
+ */
+export function loadFaultProblem(fault: unknown): string | undefined {
+  if (fault === null) {
+    return undefined;
+  }
+  if (!isObject(fault) || !isInteger(fault.atMs, 0) || !isStringArray(fault.members) ||
+      !(fault.healAfterMs === null || isInteger(fault.healAfterMs, 0))) {
+    return `fault: expected null or { atMs, members, fault: { type, ... }, healAfterMs }, got ${JSON.stringify(fault)}`;
+  }
+  const problem = faultProblem(fault.fault);
+  return problem && `fault.fault: ${problem}`;
+}
+
+/** The default load with the file's settings on top, checked like the config file */
+export function loadLoadSpec(file: string | undefined): LoadSpec {
+  return loadSpecFile(file, DEFAULT_LOAD, (spec, expect) => {
+    expect('workers', isInteger(spec.workers, 1), 'an integer >= 1');
+    for (const key of ['ratePerSec', 'durationMs', 'drainMs']) {
+      expect(key, isInteger(spec[key], 0), 'an integer >= 0');
+    }
+    expect('bucketMs', isInteger(spec.bucketMs, 1), 'an integer >= 1');
+    expect('mix', isMix(spec.mix, OPERATIONS), `weights >= 0 of ${OPERATIONS.join(', ')}`);
+    expect('uriOptions', isUriOptions(spec.uriOptions), 'an object of connection string options');
+    expect('collection', isNonEmptyString(spec.collection), 'a non-empty string');
+    const problem = loadFaultProblem(spec.fault);
+    return problem ? [problem] : [];
+  });
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p / 100 * sorted.length) - 1)];
+}
+
+export function summarize(values: number[]): LatencySummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+  };
+}
+
+/**
+ * Weighted pick from the mix; throws on a mix with no positive weight.
+ */
+function picker(mix: LoadSpec['mix']): () => LoadOperation {
+  const weights = OPERATIONS.map(operation => Math.max(0, mix[operation] ?? 0));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    throw new Error(`The operation mix needs a positive weight for one of ${OPERATIONS.join(', ')}`);
+  }
+  return () => {
+    let roll = Math.random() * total;
+    for (const [index, weight] of weights.entries()) {
+      roll -= weight;
+      if (roll < 0) {
+        return OPERATIONS[index];
+      }
+    }
+    return OPERATIONS[OPERATIONS.length - 1];
+  };
+}
+
+function transactionOptions(): TransactionOptions {
+  const { transaction } = getConfig();
+  return {
+    readConcern: { level: transaction.readConcern },
+    writeConcern: { w: transaction.w, wtimeoutMS: transaction.wtimeoutMS, journal: transaction.journal },
+    maxCommitTimeMS: transaction.maxCommitTimeMS
+  };
+}
+
+/**
+ * One operation of the mix. Every worker updates its own counter document,
+ * so transactions of different workers do not conflict with each other.
+ */
+async function runOperation(
+  client: MongoClient,
+  collection: Collection,
+  counters: Collection<Counter>,
+  operation: LoadOperation,
+  testId: string,
+  worker: number,
+  seq: number
+): Promise<void> {
+  const maxTimeMS = getConfig().transaction.maxTimeMS;
+  const counter = { _id: `${testId}-${worker}` };
+  switch (operation) {
+    case 'insert':
+      await collection.insertOne({ testId, worker, seq, at: new Date() }, { maxTimeMS });
+      return;
+    case 'update':
+      await counters.updateOne(counter, { $inc: { n: 1 } }, { upsert: true, maxTimeMS });
+      return;
+    case 'find':
+      await counters.findOne(counter, { maxTimeMS });
+      return;
+    case 'transaction': {
+      const session = client.startSession();
+      try {
+        session.startTransaction(transactionOptions());
+        await collection.insertOne({ testId, worker, seq, at: new Date() }, { session, maxTimeMS });
+        await counters.updateOne(counter, { $inc: { n: 1 } }, { session, upsert: true, maxTimeMS });
+        await session.commitTransaction();
+      } catch (error: any) {
+        if (session.inTransaction()) {
+          await session.abortTransaction().catch(() => undefined);
+        }
+        throw error;
+      } finally {
+        await session.endSession().catch(() => undefined);
+      }
+    }
+  }
+}
+
+/**
+ * Time to recover, and the longest stretch without a successful operation.
+ */
+export function recovery(buckets: LoadBucket[], samples: LoadSample[], spec: LoadSpec, faultAtMs?: number, healedAtMs?: number) {
+  const okTimes = samples.filter(s => !s.error).map(s => s.endedAtMs).sort((a, b) => a - b);
+  let longestGapMs = 0;
+  for (let i = 1; i < okTimes.length; i++) {
+    longestGapMs = Math.max(longestGapMs, okTimes[i] - okTimes[i - 1]);
+  }
+  if (faultAtMs === undefined) {
+    return { longestGapMs };
+  }
+
+  const before = buckets.filter(b => b.atMs + spec.bucketMs <= faultAtMs && b.atMs > 0);
+  const baseline = before.length > 0 ? before.reduce((sum, b) => sum + b.throughput, 0) / before.length : 0;
+  const healthy = (b: LoadBucket) => b.errors === 0 && b.throughput >= RECOVERED_SHARE * baseline;
+  // The bucket the fault fired in was healthy up to the fault, so count from the next one
+  const afterFault = buckets.find(b => b.atMs > faultAtMs && healthy(b));
+  const from = healedAtMs ?? faultAtMs;
+  const afterHeal = buckets.find(b => b.atMs + spec.bucketMs > from && b.atMs > faultAtMs && healthy(b));
+  return {
+    longestGapMs,
+    recoveredAfterFaultMs: afterFault ? afterFault.atMs - faultAtMs : undefined,
+    recoveryMs: afterHeal ? Math.max(0, afterHeal.atMs - from) : undefined
+  };
+}
+
+export function bucketize(spec: LoadSpec, samples: LoadSample[], poolWaits: { atMs: number; ms: number }[],
+  pool: Map<number, { queued: number; inUse: number }>, durationMs: number, faultAtMs?: number, healedAtMs?: number): LoadBucket[] {
+  const buckets: LoadBucket[] = [];
+  const within = (at: number, start: number) => at >= start && at < start + spec.bucketMs;
+  for (let start = 0; start < durationMs; start += spec.bucketMs) {
+    const finished = samples.filter(s => within(s.endedAtMs, start));
+    const ok = finished.filter(s => !s.error);
+    const peaks = pool.get(start / spec.bucketMs) ?? { queued: 0, inUse: 0 };
+    const markers = [
+      faultAtMs !== undefined && within(faultAtMs, start) ? 'fault' : '',
+      healedAtMs !== undefined && within(healedAtMs, start) ? 'heal' : ''
+    ].filter(Boolean);
+    buckets.push({
+      atMs: start,
+      ok: ok.length,
+      errors: finished.length - ok.length,
+      throughput: Math.round(ok.length * 1000 / spec.bucketMs),
+      latency: summarize(ok.map(s => s.latencyMs)),
+      poolWait: summarize(poolWaits.filter(w => within(w.atMs, start)).map(w => w.ms)),
+      peakQueued: peaks.queued,
+      peakInUse: peaks.inUse,
+      marker: markers.length > 0 ? markers.join('+') : undefined
+    });
+  }
+  return buckets;
+}
+
+/**
+ * Run the load against a fresh fake replica set, or the configured one.
+ * Operations are measured from when they start; ones that cannot get a
+ * connection show up as pool wait.
+ */
+export async function runLoad(spec: LoadSpec): Promise<LoadResult> {
+  const pick = picker(spec.mix);
+  const { mongo } = getConfig();
+  if (mongo.fake && spec.fault) {
+    checkFakeFaults([spec.fault.fault]);
+  }
+  const fake = mongo.fake ? new FakeReplicaSet() : null;
+  const proxied = !mongo.fake && (mongo.proxy || (spec.fault !== null && needsProxy(spec.fault.fault)));
+  const proxy = proxied ? new FaultProxy(PROXY_MEMBERS) : null;
+  await fake?.start();
+  await proxy?.start();
+
+  const uri = buildUri(spec.uriOptions, fake ? fake.uri() : proxy ? proxyUri() : baseUri());
+  if (!fake) {
+    await waitForHealthy(uri);
+  }
+  const testId = `load-${Date.now()}`;
+  const client = new MongoClient(uri, { monitorCommands: true });
+  const recorder = new EventRecorder(testId);
+  const injector = new FaultInjector(client, proxy, fake);
+  const collection = client.db(dbName()).collection(spec.collection);
+  const counters = client.db(dbName()).collection<Counter>(spec.collection);
+
+  const startedAt = Date.now();
+  const since = () => Date.now() - startedAt;
+  const samples: LoadSample[] = [];
+  const poolWaits: { atMs: number; ms: number }[] = [];
+  // Peak queue and in-use counts per bucket index
+  const pool = new Map<number, { queued: number; inUse: number }>();
+  let queued = 0;
+  let inUse = 0;
+  const notePool = () => {
+    const index = Math.floor(since() / spec.bucketMs);
+    const peaks = pool.get(index) ?? { queued: 0, inUse: 0 };
+    pool.set(index, { queued: Math.max(peaks.queued, queued), inUse: Math.max(peaks.inUse, inUse) });
+  };
+  client.on('connectionCheckOutStarted', () => {
+    queued++;
+    notePool();
+  });
+  client.on('connectionCheckedOut', event => {
+    queued--;
+    inUse++;
+    poolWaits.push({ atMs: since(), ms: event.durationMS });
+    notePool();
+  });
+  client.on('connectionCheckOutFailed', event => {
+    queued--;
+    poolWaits.push({ atMs: since(), ms: event.durationMS });
+    notePool();
+  });
+  client.on('connectionCheckedIn', () => {
+    inUse--;
+    notePool();
+  });
+
+  let faultAtMs: number | undefined;
+  let healedAtMs: number | undefined;
+  let started = 0;
+  let pending = 0;
+  const errorsByClass: Record<string, number> = {};
+  const describe = spec.fault ? `${describeFault(spec.fault.fault)} on ${spec.fault.members.join(', ') || 'the primary'}` : '';
+
+  console.log(rule());
+  console.log(`Load: ${spec.workers} workers, ${spec.ratePerSec || 'unlimited'} ops/s for ${spec.durationMs}ms`);
+  console.log(`Mix: ${OPERATIONS.filter(o => (spec.mix[o] ?? 0) > 0).map(o => `${o}=${spec.mix[o]}`).join(' ')}`);
+  console.log(`Fault: ${spec.fault ? `${describe} at ${spec.fault.atMs}ms, healed after ${spec.fault.healAfterMs ?? 'never'}ms` : 'none'}`);
+  console.log(`Connection string: ${uri}`);
+  console.log(rule() + '\n');
+
+  // Shared schedule: each operation claims the next start slot
+  let nextSlot = 0;
+  const claimSlot = async (): Promise<boolean> => {
+    if (spec.ratePerSec > 0) {
+      const slot = nextSlot;
+      nextSlot += 1000 / spec.ratePerSec;
+      if (slot >= spec.durationMs) {
+        return false;
+      }
+      await sleep(Math.max(0, slot - since()));
+    }
+    return since() < spec.durationMs;
+  };
+
+  const worker = async (index: number): Promise<void> => {
+    for (let seq = 0; await claimSlot(); seq++) {
+      const operation = pick();
+      const begun = since();
+      started++;
+      pending++;
+      try {
+        await runOperation(client, collection, counters, operation, testId, index, seq);
+        samples.push({ operation, endedAtMs: since(), latencyMs: since() - begun });
+      } catch (error: any) {
+        const classified = classifyMongoError(error);
+        const key = `${classified.category}/${classified.codeName || classified.name}`;
+        errorsByClass[key] = (errorsByClass[key] ?? 0) + 1;
+        samples.push({ operation, endedAtMs: since(), latencyMs: since() - begun, error: key });
+      } finally {
+        pending--;
+      }
+    }
+  };
+
+  // A fault the run ends, or is stopped, with still in place
+  const healLeftover = async (): Promise<boolean> => {
+    if (faultAtMs === undefined || healedAtMs !== undefined || !spec.fault || spec.fault.fault.type === 'stepdown') {
+      return false;
+    }
+    await injector.heal(spec.fault.members, spec.fault.fault);
+    return true;
+  };
+  const unregisterShutdown = onWorkloadShutdown({ name: 'load', testId, startedAt, client, recorder, heal: healLeftover });
+
+  // Started once connected, and awaited right away, so a failed inject or heal ends the run
+  const faults = async (): Promise<void> => {
+    if (!spec.fault) {
+      return;
+    }
+    const { members, fault } = spec.fault;
+    await sleep(Math.max(0, spec.fault.atMs - since()));
+    await injector.inject(members, fault);
+    faultAtMs = since();
+    recorder.record('fault', 'inject', { atMs: faultAtMs, members, fault });
+    console.log(`💥 ${describe} at ${faultAtMs}ms`);
+    if (spec.fault.healAfterMs === null || fault.type === 'stepdown') {
+      return;
+    }
+    await sleep(spec.fault.healAfterMs);
+    await injector.heal(members, fault);
+    healedAtMs = since();
+    recorder.record('fault', 'heal', { atMs: healedAtMs, members, fault });
+    console.log(`🩹 Healed at ${healedAtMs}ms`);
+  };
+
+  const progress = setInterval(() => {
+    console.log(`  ${since()}ms: ${samples.length}/${started} finished, ${pending} in flight, ${queued} waiting for a connection`);
+  }, 5000);
+
+  try {
+    await client.connect();
+    const workers = Array.from({ length: spec.workers }, (_, index) => worker(index));
+    await faults();
+    await sleep(Math.max(0, spec.durationMs - since()));
+    console.log(`Run over at ${since()}ms; waiting up to ${spec.drainMs}ms for ${pending} in-flight operations...`);
+    await Promise.race([Promise.all(workers), sleep(spec.drainMs)]);
+  } finally {
+    clearInterval(progress);
+    unregisterShutdown();
+    await healLeftover().catch((err: any) => console.error('Failed to heal the fault:', err.message));
+    // Operations that never returned keep the client busy; do not wait for them
+    await Promise.race([client.close(), sleep(spec.drainMs)]);
+    await proxy?.stop();
+    await fake?.stop();
+  }
+
+  const durationMs = since();
+  const buckets = bucketize(spec, samples, poolWaits, pool, Math.max(spec.durationMs, durationMs), faultAtMs, healedAtMs);
+  const latency = Object.fromEntries(OPERATIONS.map(operation =>
+    [operation, summarize(samples.filter(s => s.operation === operation && !s.error).map(s => s.latencyMs))]
+  )) as Record<LoadOperation, LatencySummary>;
+  const ok = samples.filter(s => !s.error).length;
+
+  const result: LoadResult = {
+    spec,
+    testId,
+    uri,
+    durationMs,
+    started,
+    ok,
+    errors: samples.length - ok,
+    stuck: pending,
+    latency,
+    poolWait: summarize(poolWaits.map(w => w.ms)),
+    errorsByClass,
+    buckets,
+    faultAtMs,
+    healedAtMs,
+    ...recovery(buckets, samples, spec, faultAtMs, healedAtMs),
+    eventsFile: recorder.file
+  };
+  recorder.record('run', 'finished', { ...result, spec: undefined, buckets: undefined });
+  await recorder.close();
+
+  fs.mkdirSync(getConfig().run.eventsDir, { recursive: true });
+  const file = path.join(getConfig().run.eventsDir, `${testId}.json`);
+  fs.writeFileSync(file, JSON.stringify(result, null, 2));
+  printLoadResult(result);
+  console.log(`\nFull results written to ${file}`);
+  return result;
+}
+
+export function printLoadResult(result: LoadResult): void {
+  console.log('\n' + rule());
+  console.log('Throughput over time');
+  console.log(rule());
+  printTable(
+    ['t (s)', 'ok/s', 'errors', 'p50 (ms)', 'p99 (ms)', 'pool wait p99 (ms)', 'queued', 'in use', ''],
+    result.buckets.map(b => [
+      (b.atMs / 1000).toFixed(1),
+      String(b.throughput),
+      String(b.errors),
+      String(b.latency.p50),
+      String(b.latency.p99),
+      String(b.poolWait.p99),
+      String(b.peakQueued),
+      String(b.peakInUse),
+      b.marker ? `💥 ${b.marker}` : ''
+    ])
+  );
+
+  console.log('\n' + rule());
+  console.log('Latency of successful operations (ms)');
+  console.log(rule());
+  printTable(
+    ['Operation', 'Count', 'p50', 'p95', 'p99', 'max'],
+    [
+      ...OPERATIONS.filter(operation => result.latency[operation].count > 0).map(operation => [operation, result.latency[operation]] as const),
+      ['pool wait', result.poolWait] as const
+    ].map(([name, s]) => [name, String(s.count), String(s.p50), String(s.p95), String(s.p99), String(s.max)])
+  );
+
+  console.log('\n' + rule());
+  console.log('Errors by class');
+  console.log(rule());
+  const errors = Object.entries(result.errorsByClass).sort((a, b) => b[1] - a[1]);
+  if (errors.length === 0) {
+    console.log('None');
+  } else {
+    printTable(['Class', 'Count'], errors.map(([key, count]) => [key, String(count)]));
+  }
+
+  console.log('\n' + rule());
+  console.log(`Started ${result.started}, succeeded ${result.ok}, failed ${result.errors}, stuck ${result.stuck}`);
+  console.log(`Longest stretch without a successful operation: ${result.longestGapMs}ms`);
+  if (result.faultAtMs !== undefined) {
+    const from = result.healedAtMs !== undefined ? 'the heal' : 'the fault';
+    console.log(result.recoveryMs !== undefined
+      ? `Recovered ${result.recoveryMs}ms after ${from} (${result.recoveredAfterFaultMs}ms after the fault)`
+      : `⚠️  Did not recover after ${from} before the run ended`);
+  }
+  console.log(rule());
+}
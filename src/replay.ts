@@ -0,0 +1,246 @@
+import fs from 'fs';
+import path from 'path';
+import { Config, getConfig } from './config';
+import { FaultEvent } from './fault-timeline';
+import { describeFault } from './faults';
+import { CommitDurability } from './verify-commit';
+import { PhaseTiming, RunResult, Scenario } from './types';
+import { printTable, rule } from './util';
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * What a run ended with, reduced to what a replay has to reproduce.
+ */
+export interface ReplayOutcome {
+  status: RunResult['status'];
+  /** Error code name (or category) of an error, step of a hang */
+  detail?: string;
+  labels: string[];
+  durability?: CommitDurability;
+  attempts: number;
+  commitCommands: number;
+  outcomeAtMs: number;
+}
+
+/**
+ * Everything needed to run a scenario again exactly as it ran: the scenario
+ * itself as it ran (sweep and compare runs are variants of a named one,
+ * faults included), the effective config, and what happened when - each
+ * transaction phase and each fault relative to the start of the run.
+ */
+export interface Replay {
+  version: number;
+  testId: string;
+  recordedAt: string;
+  scenario: Scenario;
+  config: Config;
+  phases: PhaseTiming[];
+  faults: FaultEvent[];
+  outcome: ReplayOutcome;
+}
+
+export interface PhaseComparison {
+  step: string;
+  recorded?: PhaseTiming;
+  replayed?: PhaseTiming;
+}
+
+export interface FaultComparison {
+  action: FaultEvent['action'];
+  fault: string;
+  members: string[];
+  recordedAtMs?: number;
+  replayedAtMs?: number;
+}
+
+export interface ReplayComparison {
+  file: string;
+  recorded: Replay;
+  replayed: Replay;
+  /** Same status, error or hung step, and durability */
+  sameOutcome: boolean;
+  /** Every way the replay went differently, timing aside */
+  differences: string[];
+  phases: PhaseComparison[];
+  faults: FaultComparison[];
+}
+
+type Outcome = Omit<RunResult, 'replayFile'>;
+
+function outcomeOf(result: Outcome): ReplayOutcome {
+  return {
+    status: result.status,
+    detail: result.status === 'hung'
+      ? result.hang?.step
+      : result.status === 'error' ? result.error?.codeName || result.error?.category : undefined,
+    labels: result.error?.labels ?? [],
+    durability: result.verification?.durability,
+    attempts: result.attempts,
+    commitCommands: result.commitCommands,
+    outcomeAtMs: result.outcomeAtMs
+  };
+}
+
+export function replayOf(scenario: Scenario, result: Outcome): Replay {
+  return {
+    version: REPLAY_VERSION,
+    testId: result.testId,
+    recordedAt: new Date().toISOString(),
+    scenario,
+    config: result.config,
+    phases: result.phases,
+    faults: result.faults,
+    outcome: outcomeOf(result)
+  };
+}
+
+/**
+ * Save a run's replay file next to its event timeline.
+ */
+export function saveReplay(scenario: Scenario, result: Outcome): string {
+  const dir = getConfig().run.eventsDir;
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${result.testId}.replay.json`);
+  fs.writeFileSync(file, JSON.stringify(replayOf(scenario, result), null, 2));
+  return file;
+}
+
+export function loadReplay(file: string): Replay {
+  const replay = JSON.parse(fs.readFileSync(file, 'utf8')) as Replay;
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`${file}: replay file version ${replay.version}, expected ${REPLAY_VERSION}`);
+  }
+  if (!replay.scenario || !replay.config) {
+    throw new Error(`${file}: not a replay file (no scenario or config)`);
+  }
+  return replay;
+}
+
+function describeOutcome(outcome: ReplayOutcome): string {
+  const detail = outcome.detail ? `${outcome.status === 'hung' ? '@' : ' '}${outcome.detail}` : '';
+  return `${outcome.status}${detail}`;
+}
+
+/**
+ * Compare a replay with the run it was recorded from. Outcome, phase order
+ * and phase outcomes, faults and attempt counts must match; timings are
+ * listed side by side but never count as a difference.
+ */
+export function compareReplay(file: string, recorded: Replay, replayed: Replay): ReplayComparison {
+  const differences: string[] = [];
+  const was = recorded.outcome;
+  const now = replayed.outcome;
+
+  const sameOutcome = was.status === now.status && was.detail === now.detail && was.durability === now.durability;
+  if (was.status !== now.status || was.detail !== now.detail) {
+    differences.push(`outcome: ${describeOutcome(was)} -> ${describeOutcome(now)}`);
+  }
+  if (was.durability !== now.durability) {
+    differences.push(`durability: ${was.durability ?? '-'} -> ${now.durability ?? '-'}`);
+  }
+  if (was.labels.join(',') !== now.labels.join(',')) {
+    differences.push(`error labels: ${was.labels.join(', ') || 'none'} -> ${now.labels.join(', ') || 'none'}`);
+  }
+  if (was.attempts !== now.attempts) {
+    differences.push(`attempts: ${was.attempts} -> ${now.attempts}`);
+  }
+  if (was.commitCommands !== now.commitCommands) {
+    differences.push(`commitTransaction commands: ${was.commitCommands} -> ${now.commitCommands}`);
+  }
+
+  const phases: PhaseComparison[] = [];
+  for (let i = 0; i < Math.max(recorded.phases.length, replayed.phases.length); i++) {
+    const before = recorded.phases[i];
+    const after = replayed.phases[i];
+    phases.push({ step: (before ?? after).step, recorded: before, replayed: after });
+    if (before?.step !== after?.step) {
+      differences.push(`phase ${i + 1}: ${before?.step ?? 'none'} -> ${after?.step ?? 'none'}`);
+    } else if (before.outcome !== after.outcome) {
+      differences.push(`${before.step}: ${before.outcome} -> ${after.outcome}`);
+    }
+  }
+
+  const faults: FaultComparison[] = [];
+  for (let i = 0; i < Math.max(recorded.faults.length, replayed.faults.length); i++) {
+    const before = recorded.faults[i];
+    const after = replayed.faults[i];
+    const event = before ?? after;
+    faults.push({
+      action: event.action,
+      fault: describeFault(event.fault),
+      members: event.members,
+      recordedAtMs: before?.atMs,
+      replayedAtMs: after?.atMs
+    });
+    if (!before || !after || before.action !== after.action || describeFault(before.fault) !== describeFault(after.fault)) {
+      differences.push(`fault ${i + 1}: ${before ? `${before.action} ${describeFault(before.fault)}` : 'none'} -> ` +
+        `${after ? `${after.action} ${describeFault(after.fault)}` : 'none'}`);
+    }
+  }
+
+  return { file, recorded, replayed, sameOutcome, differences, phases, faults };
+}
+
+function ms(value: number | undefined): string {
+  return value === undefined ? '-' : `${value}ms`;
+}
+
+function delta(recorded: number | undefined, replayed: number | undefined): string {
+  if (recorded === undefined || replayed === undefined) {
+    return '-';
+  }
+  const diff = replayed - recorded;
+  return `${diff >= 0 ? '+' : ''}${diff}ms`;
+}
+
+export function printReplayComparison(comparison: ReplayComparison): void {
+  const { recorded, replayed } = comparison;
+  console.log(rule());
+  console.log(`Replay of ${comparison.file} (${recorded.scenario.name}, recorded ${recorded.recordedAt})`);
+  console.log(rule());
+  console.log(`Recorded: ${describeOutcome(recorded.outcome)} after ${recorded.outcome.outcomeAtMs}ms`);
+  console.log(`Replayed: ${describeOutcome(replayed.outcome)} after ${replayed.outcome.outcomeAtMs}ms`);
+  console.log('');
+
+  console.log('Phases:');
+  printTable(
+    ['step', 'recorded at', 'took', 'outcome', 'replayed at', 'took', 'outcome', 'shift'],
+    comparison.phases.map(p => [
+      p.step,
+      ms(p.recorded?.startedAtMs),
+      ms(p.recorded?.durationMs),
+      p.recorded?.outcome ?? '-',
+      ms(p.replayed?.startedAtMs),
+      ms(p.replayed?.durationMs),
+      p.replayed?.outcome ?? '-',
+      delta(p.recorded?.startedAtMs, p.replayed?.startedAtMs)
+    ])
+  );
+  if (comparison.faults.length > 0) {
+    console.log('');
+    console.log('Faults:');
+    printTable(
+      ['action', 'fault', 'members', 'recorded at', 'replayed at', 'shift'],
+      comparison.faults.map(f => [
+        f.action,
+        f.fault,
+        f.members.join(','),
+        ms(f.recordedAtMs),
+        ms(f.replayedAtMs),
+        delta(f.recordedAtMs, f.replayedAtMs)
+      ])
+    );
+  }
+
+  console.log('');
+  if (comparison.differences.length === 0) {
+    console.log('✓ Replay reproduced the recorded run');
+  } else {
+    console.log(comparison.sameOutcome ? '✓ Replay reproduced the recorded outcome, with differences:' : '⚠️  Replay differs from the recorded run:');
+    for (const difference of comparison.differences) {
+      console.log(`  - ${difference}`);
+    }
+  }
+  console.log(rule());
+}
@@ -0,0 +1,321 @@
+import { Db, Document, MongoClient, MongoNetworkError } from 'mongodb';
+import { getConfig } from './config';
+import { baseUri, DOCKER_MEMBERS, memberHost, PROXY_MEMBERS } from './connection';
+import { MemberSpec, Topology, validateTopology } from './topologies';
+import { sleep } from './util';
+
+/**
+ * Wait until every member reports healthy and the set has a primary, so the
+ * next run does not start while the previous fault is still settling.
+ */
+export async function waitForHealthy(uri: string, timeoutMs: number = 120000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  let lastProblem = 'not checked yet';
+
+  while (Date.now() < deadline) {
+    const client = new MongoClient(uri, { serverSelectionTimeoutMS: 5000 });
+    try {
+      const status = await client.db('admin').command({ replSetGetStatus: 1 });
+      const members: any[] = status.members || [];
+      const unhealthy = members.filter(m => m.health !== 1 || !['PRIMARY', 'SECONDARY', 'ARBITER'].includes(m.stateStr));
+
+      if (unhealthy.length === 0 && members.some(m => m.stateStr === 'PRIMARY')) {
+        return;
+      }
+      lastProblem = unhealthy.length > 0
+        ? `unhealthy: ${unhealthy.map(m => `${m.name} (${m.stateStr})`).join(', ')}`
+        : 'no primary';
+    } catch (err: any) {
+      lastProblem = err.message;
+    } finally {
+      await client.close();
+    }
+    await sleep(2000);
+  }
+
+  throw new Error(`Replica set not healthy after ${timeoutMs}ms: ${lastProblem}`);
+}
+
+export interface MemberStatus {
+  /** Compose name when the host is known, otherwise the configured host */
+  name: string;
+  host: string;
+  state: string;
+  health: number;
+  /** Seconds behind the primary, when both optimes are known */
+  lagSecs?: number;
+}
+
+// Member states a healthy member settles in
+const SETTLED_STATES = ['PRIMARY', 'SECONDARY', 'ARBITER'];
+
+function toMemberDoc(spec: MemberSpec, id: number, proxy: boolean): Document {
+  const doc: Document = { _id: id, host: memberHost(spec.name, proxy) };
+  if (spec.arbiter) {
+    doc.arbiterOnly = true;
+    doc.priority = 0;
+    return doc;
+  }
+  doc.priority = spec.priority ?? 1;
+  doc.votes = spec.votes ?? 1;
+  doc.hidden = spec.hidden ?? false;
+  doc.secondaryDelaySecs = spec.secondaryDelaySecs ?? 0;
+  return doc;
+}
+
+// The settings a topology controls, for comparing a member with its target
+function memberSettings(doc: Document): string {
+  return JSON.stringify([
+    doc.host,
+    doc.arbiterOnly ?? false,
+    doc.priority ?? 1,
+    doc.votes ?? 1,
+    doc.hidden ?? false,
+    doc.secondaryDelaySecs ?? doc.slaveDelay ?? 0
+  ]);
+}
+
+/**
+ * Drives the local replica set through admin commands: initiate, reconfigure,
+ * step down, freeze, and wait for a primary or a member state.
+ */
+export class ReplicaSetController {
+  private client: MongoClient | null = null;
+
+  constructor(
+    private readonly uri: string = baseUri(),
+    private readonly proxy: boolean = getConfig().mongo.proxy
+  ) {}
+
+  /**
+   * Initiate the set on the topology's first member. Members must be
+   * running with empty data directories.
+   */
+  async initiate(topology: Topology, replicaSet: string = getConfig().mongo.replicaSet): Promise<void> {
+    this.assertValid(topology);
+    const config = {
+      _id: replicaSet,
+      members: topology.members.map((spec, index) => toMemberDoc(spec, index, this.proxy))
+    };
+    await this.direct(topology.members[0].name, admin => admin.command({ replSetInitiate: config }));
+  }
+
+  async getReplSetConfig(): Promise<Document> {
+    const reply = await (await this.admin()).command({ replSetGetConfig: 1 });
+    return reply.config;
+  }
+
+  /** Install `config` as the next version; `force` works without a primary */
+  async reconfig(config: Document, force: boolean = false): Promise<void> {
+    const next = { ...config, version: config.version + 1 };
+    await (await this.admin()).command({ replSetReconfig: next, force });
+  }
+
+  /**
+   * Reconfigure the running set to `topology`, one member per reconfig
+   * since the server allows a single voting change at a time.
+   */
+  async applyTopology(topology: Topology): Promise<void> {
+    this.assertValid(topology);
+    const current = await this.getReplSetConfig();
+    let nextId = Math.max(...current.members.map((m: Document) => m._id)) + 1;
+
+    const targets = topology.members.map(spec => {
+      const host = memberHost(spec.name, this.proxy);
+      const existing = current.members.find((m: Document) => m.host === host);
+      if (existing && Boolean(existing.arbiterOnly) !== Boolean(spec.arbiter)) {
+        throw new Error(
+          `${spec.name} would switch between arbiter and data-bearing; ` +
+          `re-initiate on fresh volumes (docker compose down -v) with "rs init ${topology.name}"`
+        );
+      }
+      return toMemberDoc(spec, existing ? existing._id : nextId++, this.proxy);
+    });
+
+    await this.reconfigMembers(targets);
+  }
+
+  /** Put members back exactly as they are in a config captured earlier */
+  async restoreMembers(members: Document[]): Promise<void> {
+    await this.reconfigMembers(members);
+  }
+
+  async status(): Promise<MemberStatus[]> {
+    const status = await (await this.admin()).command({ replSetGetStatus: 1 });
+    const members: Document[] = status.members || [];
+    const primary = members.find(m => m.stateStr === 'PRIMARY');
+
+    return members.map(m => {
+      const lag = primary?.optimeDate && m.optimeDate && m.stateStr === 'SECONDARY'
+        ? Math.round((primary.optimeDate.getTime() - m.optimeDate.getTime()) / 1000)
+        : undefined;
+      return { name: this.memberName(m.name), host: m.name, state: m.stateStr, health: m.health, lagSecs: lag };
+    });
+  }
+
+  /** Ask the primary to step down and not stand for election for `seconds` */
+  async stepDown(seconds: number = 60, secondaryCatchUpPeriodSecs: number = 10): Promise<void> {
+    try {
+      await (await this.admin()).command({ replSetStepDown: seconds, secondaryCatchUpPeriodSecs });
+    } catch (err) {
+      // Older servers drop connections on stepdown; the stepdown still happened
+      if (!(err instanceof MongoNetworkError)) {
+        throw err;
+      }
+    }
+  }
+
+  /** Wait until each member answers ping on its published port */
+  async waitForReachable(members: string[], timeoutMs: number = 60000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    for (const member of members) {
+      for (;;) {
+        try {
+          await this.direct(member, admin => admin.command({ ping: 1 }));
+          break;
+        } catch (err: any) {
+          if (Date.now() >= deadline) {
+            throw new Error(`${member} not reachable after ${timeoutMs}ms: ${err.message}`);
+          }
+          await sleep(2000);
+        }
+      }
+    }
+  }
+
+  /**
+   * setParameter on every data-bearing member, so whichever is primary runs
+   * with them; returns each member's previous values for restoreParameters.
+   */
+  async setParameters(parameters: Record<string, number>): Promise<Record<string, Document>> {
+    const previous: Record<string, Document> = {};
+    const members = (await this.status()).filter(m => m.state !== 'ARBITER');
+    for (const { name } of members) {
+      const current = await this.direct(name, admin =>
+        admin.command({ getParameter: 1, ...Object.fromEntries(Object.keys(parameters).map(key => [key, 1])) }));
+      previous[name] = Object.fromEntries(Object.keys(parameters).map(key => [key, current[key]]));
+      await this.direct(name, admin => admin.command({ setParameter: 1, ...parameters }));
+    }
+    return previous;
+  }
+
+  async restoreParameters(previous: Record<string, Document>): Promise<void> {
+    for (const [name, parameters] of Object.entries(previous)) {
+      await this.direct(name, admin => admin.command({ setParameter: 1, ...parameters }));
+    }
+  }
+
+  /** Keep a member from seeking election for `seconds` (0 unfreezes) */
+  async freeze(member: string, seconds: number): Promise<void> {
+    await this.direct(member, admin => admin.command({ replSetFreeze: seconds }));
+  }
+
+  async waitForPrimary(timeoutMs: number = 60000): Promise<string> {
+    const members = await this.waitFor(timeoutMs, 'a primary', all => all.some(m => m.state === 'PRIMARY'));
+    return (members.find(m => m.state === 'PRIMARY') as MemberStatus).name;
+  }
+
+  async waitForMemberState(member: string, states: string[], timeoutMs: number = 60000): Promise<void> {
+    await this.waitFor(timeoutMs, `${member} in ${states.join('/')}`,
+      all => all.some(m => m.name === member && states.includes(m.state)));
+  }
+
+  /** Every member settled (primary, secondary or arbiter) and a primary elected */
+  async waitForSettled(timeoutMs: number = 120000): Promise<void> {
+    await this.waitFor(timeoutMs, 'all members settled',
+      all => all.some(m => m.state === 'PRIMARY') && all.every(m => m.health === 1 && SETTLED_STATES.includes(m.state)));
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    await client?.close();
+  }
+
+  private async reconfigMembers(targets: Document[]): Promise<void> {
+    const byId = (members: Document[], id: number) => members.find(m => m._id === id);
+
+    // Each round settles one member; more rounds means the server keeps rewriting a setting
+    for (let round = 0; round <= targets.length * 2; round++) {
+      const current = await this.getReplSetConfig();
+      const members: Document[] = current.members;
+
+      // Removals first, then additions and changes, one member per round
+      const removed = members.find(m => !byId(targets, m._id));
+      const changed = targets.find(t => {
+        const existing = byId(members, t._id);
+        return !existing || memberSettings(existing) !== memberSettings(t);
+      });
+
+      if (removed) {
+        current.members = members.filter(m => m !== removed);
+      } else if (changed) {
+        const existing = byId(members, changed._id);
+        current.members = existing
+          ? members.map(m => (m === existing ? { ...existing, ...changed } : m))
+          : [...members, changed];
+      } else {
+        return;
+      }
+      await this.reconfig(current);
+    }
+    throw new Error('Replica set config did not converge on the requested members');
+  }
+
+  private assertValid(topology: Topology): void {
+    const problems = validateTopology(topology);
+    if (problems.length > 0) {
+      throw new Error(`Invalid topology ${topology.name}: ${problems.join('; ')}`);
+    }
+  }
+
+  private memberName(host: string): string {
+    const member = DOCKER_MEMBERS.find(m => memberHost(m.name, false) === host) ??
+      PROXY_MEMBERS.find(m => memberHost(m.name, true) === host);
+    return member?.name ?? host;
+  }
+
+  private async waitFor(
+    timeoutMs: number,
+    what: string,
+    done: (members: MemberStatus[]) => boolean
+  ): Promise<MemberStatus[]> {
+    const deadline = Date.now() + timeoutMs;
+    let lastProblem = 'not checked yet';
+
+    while (Date.now() < deadline) {
+      try {
+        const members = await this.status();
+        if (done(members)) {
+          return members;
+        }
+        lastProblem = members.map(m => `${m.name} ${m.state}`).join(', ');
+      } catch (err: any) {
+        lastProblem = err.message;
+      }
+      await sleep(1000);
+    }
+    throw new Error(`Timed out after ${timeoutMs}ms waiting for ${what}: ${lastProblem}`);
+  }
+
+  private async admin(): Promise<Db> {
+    if (!this.client) {
+      this.client = new MongoClient(this.uri, { serverSelectionTimeoutMS: 5000 });
+    }
+    return this.client.db('admin');
+  }
+
+  // Commands that must reach one particular member, e.g. replSetFreeze
+  private async direct<T>(member: string, command: (admin: Db) => Promise<T>): Promise<T> {
+    const docker = DOCKER_MEMBERS.find(m => m.name === member);
+    if (!docker) {
+      throw new Error(`Unknown member: ${member} (known: ${DOCKER_MEMBERS.map(m => m.name).join(', ')})`);
+    }
+    const client = new MongoClient(`mongodb://${docker.address}/?directConnection=true`, { serverSelectionTimeoutMS: 5000 });
+    try {
+      return await command(client.db('admin'));
+    } finally {
+      await client.close();
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import path from 'path';
+import { describeFault } from './faults';
+import { describeExpected, describeOutcome, matchesExpected } from './runner';
+import { TransactionStep } from './watchdog';
+import { PhaseTiming, RunResult } from './types';
+import { formatTable } from './util';
+
+// Bump when the JSON layout changes so tooling can tell reports apart
+const SCHEMA_VERSION = 1;
+
+const PHASE_ORDER: TransactionStep[] = ['connect', 'transaction', 'insert', 'update', 'commit', 'abort', 'end-session', 'close'];
+
+export interface ReportEnvironment {
+  driverVersion: string;
+  nodeVersion: string;
+  platform: string;
+}
+
+export interface ReportedRun {
+  label: string;
+  outcome: string;
+  matched: boolean;
+  result: RunResult;
+}
+
+/**
+ * Everything one invocation ran, in a layout that stays the same across
+ * driver versions and configs so reports can be diffed against each other.
+ */
+export interface RunReport {
+  schemaVersion: number;
+  title: string;
+  generatedAt: string;
+  environment: ReportEnvironment;
+  runs: ReportedRun[];
+}
+
+function driverVersion(): string {
+  try {
+    return JSON.parse(fs.readFileSync(require.resolve('mongodb/package.json'), 'utf8')).version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+export function buildReport(title: string, runs: { label: string; result: RunResult }[]): RunReport {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    title,
+    generatedAt: new Date().toISOString(),
+    environment: { driverVersion: driverVersion(), nodeVersion: process.version, platform: process.platform },
+    runs: runs.map(({ label, result }) => ({
+      label,
+      outcome: describeOutcome(result),
+      matched: matchesExpected(result, result.expected),
+      result
+    }))
+  };
+}
+
+/**
+ * Total time per step; steps that ran more than once (retried inserts,
+ * several commits) are summed. A step that hung or failed is marked.
+ */
+function phaseTotals(phases: PhaseTiming[]): Map<TransactionStep, string> {
+  const totals = new Map<TransactionStep, { ms: number; outcome: PhaseTiming['outcome'] }>();
+  for (const phase of phases) {
+    const total = totals.get(phase.step) ?? { ms: 0, outcome: 'ok' };
+    total.ms += phase.durationMs;
+    total.outcome = phase.outcome === 'ok' ? total.outcome : phase.outcome;
+    totals.set(phase.step, total);
+  }
+  return new Map([...totals].map(([step, { ms, outcome }]) => [step, outcome === 'ok' ? String(ms) : `${ms} (${outcome})`]));
+}
+
+/**
+ * Config flattened to `section.key` pairs, for JUnit properties and tables.
+ */
+function flattenConfig(result: RunResult): [string, string][] {
+  return Object.entries(result.config).flatMap(([section, values]) =>
+    Object.entries(values as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]): [string, string] => [`${section}.${key}`, String(value)])
+  );
+}
+
+export function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&apos;', '"': '&quot;' }[c] as string));
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function describeRun(run: ReportedRun): string[] {
+  const { result } = run;
+  const lines = [
+    `Outcome: ${run.outcome} (expected ${describeExpected(result.expected)}) after ${result.durationMs}ms`,
+    `Mode: ${result.mode}, attempts: ${result.attempts}, commitTransaction commands: ${result.commitCommands}`,
+    'Phases:',
+    ...result.phases.map(p => `  ${p.startedAtMs}ms ${p.step} ${p.durationMs}ms ${p.outcome}`),
+    'Fault timeline:',
+    ...result.faults.map(f => `  ${f.atMs}ms ${f.action} ${describeFault(f.fault)} on ${f.members.join(',')} (${f.phase})`)
+  ];
+  if (result.error) {
+    lines.push(`Error: ${result.error.codeName || result.error.name} (${result.error.category}): ${result.error.message}`);
+  }
+  lines.push(`Events: ${result.eventsFile}`, `Replay: ${result.replayFile}`);
+  return lines;
+}
+
+export function toJUnit(report: RunReport): string {
+  const failures = report.runs.filter(run => !run.matched).length;
+  const time = seconds(report.runs.reduce((sum, run) => sum + run.result.durationMs, 0));
+  const properties: [string, string][] = [
+    ['driverVersion', report.environment.driverVersion],
+    ['nodeVersion', report.environment.nodeVersion],
+    ...(report.runs.length > 0 ? flattenConfig(report.runs[0].result) : [])
+  ];
+  const attr = (text: string) => escapeXml(text);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${attr(report.title)}" tests="${report.runs.length}" failures="${failures}" time="${time}">`,
+    `  <testsuite name="${attr(report.title)}" tests="${report.runs.length}" failures="${failures}" errors="0" ` +
+      `skipped="0" time="${time}" timestamp="${report.generatedAt}">`,
+    '    <properties>',
+    ...properties.map(([name, value]) => `      <property name="${attr(name)}" value="${attr(value)}"/>`),
+    '    </properties>'
+  ];
+  for (const run of report.runs) {
+    lines.push(`    <testcase classname="${attr(run.result.scenario)}" name="${attr(run.label)}" time="${seconds(run.result.durationMs)}">`);
+    if (!run.matched) {
+      const message = `expected ${describeExpected(run.result.expected)}, got ${run.outcome}`;
+      lines.push(`      <failure message="${attr(message)}" type="${run.result.status}">${escapeXml(run.result.error?.message ?? message)}</failure>`);
+    }
+    lines.push(`      <system-out>${escapeXml(describeRun(run).join('\n'))}</system-out>`);
+    lines.push('    </testcase>');
+  }
+  lines.push('  </testsuite>', '</testsuites>', '');
+  return lines.join('\n');
+}
+
+export function toMarkdown(report: RunReport): string {
+  const { environment } = report;
+  const lines = [
+    `# ${report.title}`,
+    '',
+    `Generated ${report.generatedAt} with mongodb driver ${environment.driverVersion} on Node ${environment.nodeVersion} (${environment.platform}).`,
+    '',
+    '## Summary',
+    '',
+    ...formatTable(
+      ['Run', 'Outcome', 'Expected', 'Match', 'Outcome at (ms)', 'Durability'],
+      report.runs.map(run => [
+        run.label,
+        run.outcome,
+        describeExpected(run.result.expected),
+        run.matched ? '✓' : '⚠️',
+        String(run.result.outcomeAtMs),
+        run.result.verification?.durability ?? '-'
+      ])
+    ),
+    '',
+    '## Time per phase (ms)',
+    '',
+    ...formatTable(
+      ['Run', ...PHASE_ORDER],
+      report.runs.map(run => {
+        const totals = phaseTotals(run.result.phases);
+        return [run.label, ...PHASE_ORDER.map(step => totals.get(step) ?? '-')];
+      })
+    ),
+    ''
+  ];
+
+  for (const run of report.runs) {
+    const { result } = run;
+    lines.push(`## ${run.label}`, '');
+    lines.push(`- Scenario: \`${result.scenario}\`, test id \`${result.testId}\``);
+    lines.push(`- Mode: ${result.mode}, attempts: ${result.attempts}, commitTransaction commands: ${result.commitCommands}`);
+    lines.push(`- Outcome: **${run.outcome}** after ${result.outcomeAtMs}ms (run took ${result.durationMs}ms)`);
+    if (result.hang) {
+      lines.push(`- Hung at \`${result.hang.step}\`, pending for ${result.hang.pendingMs}ms`);
+    }
+    lines.push(`- Cleanup: session ${result.cleanup.sessionEnded ? 'ended' : 'NOT ended'}, client ${result.cleanup.clientClosed ? 'closed' : 'NOT closed'}`);
+    lines.push(`- Connection string: \`${result.uri}\``);
+    lines.push(`- Event timeline: \`${result.eventsFile}\``);
+    lines.push(`- Replay: \`npm run scenario -- replay ${result.replayFile}\``, '');
+
+    if (result.error) {
+      const error = result.error;
+      lines.push('### Error', '');
+      lines.push(`- ${error.codeName || error.name}${error.code !== undefined ? ` (code ${error.code})` : ''}, category ${error.category}, retryable: ${error.retryable}`);
+      lines.push(`- Labels: ${error.labels.join(', ') || 'none'}`);
+      lines.push(`- Commit outcome ${error.commitOutcomeKnown ? 'known' : 'UNKNOWN'}`);
+      lines.push(`- Message: ${error.message}`, '');
+    }
+
+    lines.push('### Phases', '');
+    lines.push(...formatTable(
+      ['Step', 'Start (ms)', 'Duration (ms)', 'Outcome'],
+      result.phases.map(p => [p.step, String(p.startedAtMs), String(p.durationMs), p.outcome])
+    ), '');
+
+    lines.push('### Fault timeline', '');
+    if (result.faults.length === 0) {
+      lines.push('No faults injected.', '');
+    } else {
+      lines.push(...formatTable(
+        ['At (ms)', 'Action', 'Fault', 'Members', 'Phase'],
+        result.faults.map(f => [String(f.atMs), f.action, describeFault(f.fault), f.members.join(', '), f.phase])
+      ), '');
+    }
+
+    lines.push('<details><summary>Effective configuration</summary>', '');
+    lines.push(...formatTable(['Setting', 'Value'], flattenConfig(result)));
+    lines.push('', '</details>', '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Write `<base>.report.json`, `<base>.junit.xml` and `<base>.md` and return
+ * their paths.
+ */
+export function writeReports(base: string, title: string, runs: { label: string; result: RunResult }[]): string[] {
+  const report = buildReport(title, runs);
+  fs.mkdirSync(path.dirname(base), { recursive: true });
+  const files: [string, string][] = [
+    [`${base}.report.json`, JSON.stringify(report, null, 2)],
+    [`${base}.junit.xml`, toJUnit(report)],
+    [`${base}.md`, toMarkdown(report)]
+  ];
+  for (const [file, content] of files) {
+    fs.writeFileSync(file, content);
+  }
+  return files.map(([file]) => file);
+}
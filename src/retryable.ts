@@ -0,0 +1,497 @@
+import fs from 'fs';
+import path from 'path';
+import { MongoClient } from 'mongodb';
+import { classifyMongoError } from './classify-error';
+import { getConfig } from './config';
+import { baseUri, buildUri, dbName, PROXY_MEMBERS, proxyUri } from './connection';
+import { EventRecorder } from './event-recorder';
+import { FakeReplicaSet } from './fake-mongod';
+import { FaultProxy } from './fault-proxy';
+import { FaultInjector, FaultSpec } from './faults';
+import { ReplicaSetController, waitForHealthy } from './replica-set';
+import { onWorkloadShutdown } from './shutdown';
+import { isInteger, isNonEmptyString, isObject, isUriOptions, loadSpecFile } from './spec-file';
+import { printTable, rule, sleep } from './util';
+
+export type RetryableOperation = 'insertOne' | 'updateOne' | 'findOneAndUpdate' | 'find';
+
+export type RetryableFault = 'stepdown' | 'kill' | 'partition';
+
+const OPERATIONS: RetryableOperation[] = ['insertOne', 'updateOne', 'findOneAndUpdate', 'find'];
+
+const FAULTS: RetryableFault[] = ['stepdown', 'kill', 'partition'];
+
+// The command each operation sends; every attempt beyond the first is a driver retry
+const COMMANDS: Record<RetryableOperation, string> = {
+  insertOne: 'insert',
+  updateOne: 'update',
+  findOneAndUpdate: 'findAndModify',
+  find: 'find'
+};
+
+/**
+ * A retryable writes and reads experiment: one client runs plain
+ * (non-transactional) operations in a loop while the primary is stepped
+ * down, killed or partitioned, once per retryWrites/retryReads setting.
+ */
+export interface RetryableSpec {
+  /** One run per setting and fault */
+  settings: { retryWrites: boolean; retryReads: boolean }[];
+  faults: RetryableFault[];
+  collection: string;
+  /** Pause between two operations */
+  operationIntervalMs: number;
+  /** Running time before the fault */
+  faultAfterMs: number;
+  /** How long a killed or partitioned primary stays down */
+  faultForMs: number;
+  /** Running time after healing */
+  runAfterHealMs: number;
+  /** Query string options besides retryWrites and retryReads */
+  uriOptions: Record<string, string | number>;
+}
+
+export const DEFAULT_RETRYABLE: RetryableSpec = {
+  settings: [
+    { retryWrites: true, retryReads: true },
+    { retryWrites: false, retryReads: false }
+  ],
+  faults: ['stepdown', 'kill', 'partition'],
+  collection: 'testcollection_retryable',
+  operationIntervalMs: 20,
+  faultAfterMs: 2000,
+  faultForMs: 5000,
+  runAfterHealMs: 3000,
+  uriOptions: {}
+};
+
+export interface RetryableOperationSummary {
+  operation: RetryableOperation;
+  attempted: number;
+  succeeded: number;
+  failed: number;
+  /** Failed operations by error code name or category */
+  errors: Record<string, number>;
+  /** Attempts beyond the first of each operation */
+  retries: number;
+  /** Operations the driver retried, and those of them that failed anyway */
+  retried: number;
+  failedAfterRetry: number;
+}
+
+/** One failed operation and how often the driver had retried it */
+export interface RetryableFailure {
+  operation: RetryableOperation;
+  seq: number;
+  atMs: number;
+  error: string;
+  labels: string[];
+  retries: number;
+}
+
+/**
+ * An $inc counter read back with majority once the set has settled.
+ * Failed increments may or may not have been applied, so the value is
+ * expected between `acknowledged` and `acknowledged + unknown`.
+ */
+export interface CounterCheck {
+  operation: 'updateOne' | 'findOneAndUpdate';
+  acknowledged: number;
+  /** Increments that failed: applied or not, the client cannot tell */
+  unknown: number;
+  value: number;
+  /** Increments applied more than once */
+  duplicates: number;
+  /** Acknowledged increments that are not there */
+  missing: number;
+  /** Failed increments that were applied anyway */
+  appliedDespiteError: number;
+}
+
+export interface RetryableEffects {
+  /** Acknowledged inserts that are not there */
+  missingInserts: number[];
+  /** Failed inserts that are there anyway */
+  failedButPresent: number[];
+  /** Inserts found more than once */
+  duplicateInserts: number[];
+  counters: CounterCheck[];
+}
+
+export interface RetryableResult {
+  retryWrites: boolean;
+  retryReads: boolean;
+  fault: RetryableFault;
+  testId: string;
+  /** The primary when the fault fired */
+  primary: string;
+  operations: RetryableOperationSummary[];
+  failures: RetryableFailure[];
+  effects: RetryableEffects;
+  faultAtMs: number;
+  healedAtMs?: number;
+  durationMs: number;
+  eventsFile: string;
+}
+
+export interface RetryableRecord {
+  operation: RetryableOperation;
+  seq: number;
+  atMs: number;
+  /** Commands sent, plus checkouts that failed before one could be */
+  attempts: number;
+  error?: string;
+}
+
+/** The default experiment with the file's settings on top, checked like the config file */
+export function loadRetryableSpec(file: string | undefined): RetryableSpec {
+  return loadSpecFile(file, DEFAULT_RETRYABLE, (spec, expect) => {
+    expect('settings', Array.isArray(spec.settings) && spec.settings.length > 0 && spec.settings.every(settings =>
+      isObject(settings) && Object.keys(settings).length === 2 &&
+      typeof settings.retryWrites === 'boolean' && typeof settings.retryReads === 'boolean'),
+    'a non-empty list of { retryWrites: true/false, retryReads: true/false }');
+    expect('faults', Array.isArray(spec.faults) && spec.faults.length > 0 &&
+      spec.faults.every(fault => FAULTS.includes(fault)), `a non-empty list of ${FAULTS.join(', ')}`);
+    expect('collection', isNonEmptyString(spec.collection), 'a non-empty string');
+    for (const key of ['operationIntervalMs', 'faultAfterMs', 'runAfterHealMs']) {
+      expect(key, isInteger(spec[key], 0), 'an integer >= 0');
+    }
+    expect('faultForMs', isInteger(spec.faultForMs, 1), 'an integer >= 1');
+    expect('uriOptions', isUriOptions(spec.uriOptions), 'an object of connection string options');
+  });
+}
+
+function describeSettings(result: { retryWrites: boolean; retryReads: boolean }): string {
+  return `retryWrites=${result.retryWrites} retryReads=${result.retryReads}`;
+}
+
+async function currentPrimary(fake: FakeReplicaSet | null, proxy: FaultProxy | null): Promise<string> {
+  if (fake) {
+    if (!fake.primaryName) {
+      throw new Error('The fake replica set has no primary');
+    }
+    return fake.primaryName;
+  }
+  const controller = new ReplicaSetController(proxy ? proxyUri() : baseUri(), proxy !== null);
+  try {
+    return await controller.waitForPrimary();
+  } finally {
+    await controller.close();
+  }
+}
+
+/** Counts, errors and retries of one operation's records */
+export function summarizeOperation(operation: RetryableOperation, records: RetryableRecord[]): RetryableOperationSummary {
+  const mine = records.filter(r => r.operation === operation);
+  const errors: Record<string, number> = {};
+  for (const record of mine.filter(r => r.error)) {
+    errors[record.error as string] = (errors[record.error as string] ?? 0) + 1;
+  }
+  const retried = mine.filter(r => r.attempts > 1);
+  return {
+    operation,
+    attempted: mine.length,
+    succeeded: mine.filter(r => !r.error).length,
+    failed: mine.filter(r => r.error).length,
+    errors,
+    retries: mine.reduce((sum, r) => sum + Math.max(0, r.attempts - 1), 0),
+    retried: retried.length,
+    failedAfterRetry: retried.filter(r => r.error).length
+  };
+}
+
+/**
+ * Compare an $inc counter read back with majority with the increments the
+ * client sent: each acknowledged one must be there, each failed one may be.
+ */
+export function checkCounter(operation: CounterCheck['operation'], records: RetryableRecord[], value: number): CounterCheck {
+  const mine = records.filter(r => r.operation === operation);
+  const acknowledged = mine.filter(r => !r.error).length;
+  const unknown = mine.length - acknowledged;
+  return {
+    operation,
+    acknowledged,
+    unknown,
+    value,
+    duplicates: Math.max(0, value - acknowledged - unknown),
+    missing: Math.max(0, acknowledged - value),
+    appliedDespiteError: Math.min(unknown, Math.max(0, value - acknowledged))
+  };
+}
+
+/**
+ * Compare the inserts the client sent with the sequence numbers a majority
+ * read finds, with how often each was found.
+ */
+export function checkInserts(
+  records: RetryableRecord[],
+  found: Map<number, number>
+): Pick<RetryableEffects, 'missingInserts' | 'failedButPresent' | 'duplicateInserts'> {
+  const inserts = records.filter(r => r.operation === 'insertOne');
+  return {
+    missingInserts: inserts.filter(r => !r.error && !found.has(r.seq)).map(r => r.seq),
+    failedButPresent: inserts.filter(r => r.error && found.has(r.seq)).map(r => r.seq),
+    duplicateInserts: [...found].filter(([, count]) => count > 1).map(([seq]) => seq)
+  };
+}
+
+/**
+ * One run: a single client cycles through insertOne, updateOne ($inc),
+ * findOneAndUpdate ($inc) and find while the fault hits the primary, then
+ * the inserts and counters are read back with majority to find effects
+ * that were lost, applied despite an error, or applied twice.
+ */
+async function runOnce(
+  spec: RetryableSpec,
+  settings: RetryableSpec['settings'][number],
+  fault: RetryableFault,
+  proxy: FaultProxy | null
+): Promise<RetryableResult> {
+  const fake = getConfig().mongo.fake ? new FakeReplicaSet() : null;
+  await fake?.start();
+  const uri = buildUri(
+    { ...spec.uriOptions, retryWrites: String(settings.retryWrites), retryReads: String(settings.retryReads) },
+    fake ? fake.uri() : proxy ? proxyUri() : undefined
+  );
+  if (!fake) {
+    await waitForHealthy(uri);
+  }
+
+  const testId = `retryable-${settings.retryWrites ? 'rw' : 'norw'}-${fault}-${Date.now()}`;
+  const client = new MongoClient(uri, { monitorCommands: true });
+  const recorder = new EventRecorder(testId);
+  recorder.attach(client);
+  const injector = new FaultInjector(client, proxy, fake);
+  const collection = client.db(dbName()).collection(spec.collection, { writeConcern: { w: 'majority' } });
+  const startedAt = Date.now();
+  const since = () => Date.now() - startedAt;
+
+  // Operations run one at a time, so every attempt belongs to the current one
+  let current: RetryableRecord | undefined;
+  client.on('commandStarted', event => {
+    if (current && event.commandName === COMMANDS[current.operation]) {
+      current.attempts++;
+    }
+  });
+  client.on('connectionCheckOutFailed', () => {
+    if (current) {
+      current.attempts++;
+    }
+  });
+
+  const faultSpec: FaultSpec = { type: fault };
+  let primary = '';
+  let members: string[] = [];
+  let faultAtMs = 0;
+  let healedAtMs: number | undefined;
+  let running = true;
+  const records: RetryableRecord[] = [];
+  const failures: RetryableFailure[] = [];
+  const counterId = (operation: RetryableOperation) => `${testId}-${operation}`;
+
+  const perform = async (operation: RetryableOperation, seq: number): Promise<void> => {
+    switch (operation) {
+      case 'insertOne':
+        await collection.insertOne({ testId, seq, at: new Date() });
+        break;
+      case 'updateOne':
+        await collection.updateOne({ counter: counterId(operation) }, { $inc: { n: 1 } }, { upsert: true });
+        break;
+      case 'findOneAndUpdate':
+        await collection.findOneAndUpdate({ counter: counterId(operation) }, { $inc: { n: 1 } }, { upsert: true, returnDocument: 'after' });
+        break;
+      case 'find':
+        await collection.find({ testId }).limit(10).toArray();
+        break;
+    }
+  };
+
+  // A fault the run ends, or is stopped, with still in place
+  const healLeftover = async (): Promise<boolean> => {
+    if (!faultAtMs || healedAtMs !== undefined || fault === 'stepdown') {
+      return false;
+    }
+    await injector.heal(members, faultSpec);
+    return true;
+  };
+  const unregisterShutdown = onWorkloadShutdown({ name: 'retryable', testId, startedAt, client, recorder, heal: healLeftover });
+
+  try {
+    await client.connect();
+    primary = await currentPrimary(fake, proxy);
+    members = fault === 'stepdown' ? [] : [primary];
+    console.log(`Running ${OPERATIONS.join(', ')} with ${describeSettings(settings)} (test id ${testId})...`);
+
+    const worker = (async () => {
+      for (let seq = 0; running; seq++) {
+        const operation = OPERATIONS[seq % OPERATIONS.length];
+        const record: RetryableRecord = { operation, seq, atMs: since(), attempts: 0 };
+        records.push(record);
+        current = record;
+        try {
+          await perform(operation, seq);
+        } catch (error: any) {
+          const classified = classifyMongoError(error);
+          record.error = classified.codeName || classified.category;
+          failures.push({
+            operation,
+            seq,
+            atMs: record.atMs,
+            error: record.error,
+            labels: classified.labels,
+            retries: Math.max(0, record.attempts - 1)
+          });
+        } finally {
+          current = undefined;
+        }
+        await sleep(spec.operationIntervalMs);
+      }
+    })();
+
+    await sleep(spec.faultAfterMs);
+    await injector.inject(members, faultSpec);
+    faultAtMs = since();
+    recorder.record('fault', 'inject', { atMs: faultAtMs, members, fault: faultSpec });
+    console.log(`💥 ${fault} of ${primary} at ${faultAtMs}ms`);
+
+    if (fault !== 'stepdown') {
+      await sleep(spec.faultForMs);
+      await injector.heal(members, faultSpec);
+      healedAtMs = since();
+      recorder.record('fault', 'heal', { atMs: healedAtMs, members, fault: faultSpec });
+      console.log(`🩹 Healed ${primary} at ${healedAtMs}ms`);
+    }
+
+    await sleep(spec.runAfterHealMs);
+    running = false;
+    await worker;
+
+    console.log('Reading back the effects once the replica set is healthy...');
+    if (!fake) {
+      await waitForHealthy(uri, getConfig().run.verifyHealthyTimeoutMs);
+    }
+    const majority = { readConcern: { level: 'majority' as const } };
+    const inserted = await collection.find({ testId }, { ...majority, projection: { seq: 1 } }).toArray();
+    const found = new Map<number, number>();
+    for (const doc of inserted) {
+      found.set(doc.seq, (found.get(doc.seq) ?? 0) + 1);
+    }
+    const counter = async (operation: CounterCheck['operation']): Promise<CounterCheck> => {
+      const doc = await collection.findOne({ counter: counterId(operation) }, majority);
+      return checkCounter(operation, records, doc?.n ?? 0);
+    };
+
+    const result: RetryableResult = {
+      ...settings,
+      fault,
+      testId,
+      primary,
+      operations: OPERATIONS.map(operation => summarizeOperation(operation, records)),
+      failures,
+      effects: {
+        ...checkInserts(records, found),
+        counters: [await counter('updateOne'), await counter('findOneAndUpdate')]
+      },
+      faultAtMs,
+      healedAtMs,
+      durationMs: since(),
+      eventsFile: recorder.file
+    };
+    recorder.record('run', 'finished', { ...result, failures: failures.length });
+    return result;
+  } finally {
+    running = false;
+    unregisterShutdown();
+    await healLeftover().catch((err: any) => console.error(`Failed to heal ${primary}:`, err.message));
+    await client.close();
+    await recorder.close();
+    await fake?.stop();
+  }
+}
+
+function printRetryableTable(results: RetryableResult[]): void {
+  printTable(
+    ['Settings', 'Fault', 'Operations', 'Failed', 'Driver retries', 'Failed after retry', 'Inserts lost / failed but present', '$inc duplicated / lost / applied despite error'],
+    results.map(r => {
+      const total = (key: 'attempted' | 'failed' | 'retries' | 'failedAfterRetry') =>
+        String(r.operations.reduce((sum, op) => sum + op[key], 0));
+      const counters = r.effects.counters;
+      const sum = (key: 'duplicates' | 'missing' | 'appliedDespiteError') => counters.reduce((s, c) => s + c[key], 0);
+      return [
+        describeSettings(r),
+        r.fault,
+        total('attempted'),
+        total('failed'),
+        total('retries'),
+        total('failedAfterRetry'),
+        `${r.effects.missingInserts.length} / ${r.effects.failedButPresent.length}`,
+        `${sum('duplicates')} / ${sum('missing')} / ${sum('appliedDespiteError')}`
+      ];
+    })
+  );
+  for (const r of results) {
+    console.log(`\n${describeSettings(r)}, ${r.fault}:`);
+    for (const op of r.operations.filter(o => o.failed > 0 || o.retried > 0)) {
+      const errors = Object.entries(op.errors).map(([key, count]) => `${key} x${count}`).join(', ') || 'no errors';
+      console.log(`   ${op.operation}: ${op.failed}/${op.attempted} failed (${errors}); ${op.retried} retried by the driver, ${op.failedAfterRetry} failed anyway`);
+    }
+    // How many retries the driver made before each kind of failure
+    const byRetries = new Map<string, number>();
+    for (const failure of r.failures) {
+      const key = `${failure.operation} ${failure.error} after ${failure.retries} ${failure.retries === 1 ? 'retry' : 'retries'}`;
+      byRetries.set(key, (byRetries.get(key) ?? 0) + 1);
+    }
+    for (const [key, count] of byRetries) {
+      console.log(`   ✗ ${key} x${count}`);
+    }
+    for (const c of r.effects.counters) {
+      console.log(`   ${c.operation} $inc: ${c.value} applied, ${c.acknowledged} acknowledged, ${c.unknown} failed` +
+        (c.duplicates > 0 ? `, ⚠️  ${c.duplicates} duplicated` : '') +
+        (c.missing > 0 ? `, ⚠️  ${c.missing} lost` : '') +
+        (c.appliedDespiteError > 0 ? `, ${c.appliedDespiteError} applied despite an error` : ''));
+    }
+  }
+}
+
+/**
+ * Run plain operations through each fault once per retry setting. On
+ * Docker a partition needs a replica set initiated in proxy mode; without
+ * one partition runs are left out.
+ */
+export async function runRetryable(spec: RetryableSpec): Promise<RetryableResult[]> {
+  const { mongo } = getConfig();
+  const proxy = !mongo.fake && mongo.proxy ? new FaultProxy(PROXY_MEMBERS) : null;
+  const faults = spec.faults.filter(fault => fault !== 'partition' || mongo.fake || proxy);
+  const results: RetryableResult[] = [];
+
+  console.log(rule());
+  console.log('Retryable writes and reads through failover');
+  console.log(rule() + '\n');
+  if (faults.length < spec.faults.length) {
+    console.log('Skipping partition: it needs a replica set initiated with --proxy (or --fake)\n');
+  }
+
+  const runs = spec.settings.flatMap(settings => faults.map(fault => ({ settings, fault })));
+  await proxy?.start();
+  try {
+    for (const [index, { settings, fault }] of runs.entries()) {
+      console.log(`[${index + 1}/${runs.length}] ${describeSettings(settings)}, ${fault}`);
+      results.push(await runOnce(spec, settings, fault, proxy));
+      console.log('');
+    }
+  } finally {
+    await proxy?.stop();
+  }
+
+  fs.mkdirSync(getConfig().run.eventsDir, { recursive: true });
+  const file = path.join(getConfig().run.eventsDir, `retryable-${Date.now()}.json`);
+  fs.writeFileSync(file, JSON.stringify({ spec, results }, null, 2));
+
+  console.log(rule());
+  console.log('Retryable writes and reads results');
+  console.log(rule());
+  printRetryableTable(results);
+  console.log(`\nFull results written to ${file}`);
+
+  return results;
+}
@@ -0,0 +1,325 @@
+import fs from 'fs';
+import path from 'path';
+import { MongoClient } from 'mongodb';
+import { classifyMongoError } from './classify-error';
+import { getConfig } from './config';
+import { buildUri, dbName, PROXY_MEMBERS, proxyUri } from './connection';
+import { EventRecorder } from './event-recorder';
+import { FakeReplicaSet } from './fake-mongod';
+import { FaultProxy } from './fault-proxy';
+import { FaultInjector, FaultSpec } from './faults';
+import { ReplicaSetController, waitForHealthy } from './replica-set';
+import { onWorkloadShutdown } from './shutdown';
+import { isInteger, isNonEmptyString, loadSpecFile } from './spec-file';
+import { printTable, rule, sleep } from './util';
+
+/**
+ * A rollback experiment: write with w:1 while the primary is cut off from
+ * its peers (but not from the client), then heal and count what survived.
+ */
+export interface RollbackSpec {
+  /** One run per entry: w:1, and w:1 with j:true */
+  journal: boolean[];
+  collection: string;
+  /** Pause between two inserts */
+  writeIntervalMs: number;
+  /** Writing time before the primary is isolated */
+  isolateAfterMs: number;
+  /** How long the old primary stays isolated; longer than it takes to step down */
+  isolatedForMs: number;
+  /** Writing time after healing */
+  writeAfterHealMs: number;
+}
+
+export const DEFAULT_ROLLBACK: RollbackSpec = {
+  journal: [false, true],
+  collection: 'testcollection_rollback',
+  writeIntervalMs: 20,
+  isolateAfterMs: 2000,
+  isolatedForMs: 15000,
+  writeAfterHealMs: 2000
+};
+
+export interface RollbackResult {
+  journal: boolean;
+  testId: string;
+  oldPrimary: string;
+  attempted: number;
+  acknowledged: number;
+  failed: number;
+  /** Failed writes by error code name or category */
+  errors: Record<string, number>;
+  survived: number;
+  /** Sequence numbers acknowledged to the client but gone after the rollback */
+  lost: number[];
+  /** Sequence numbers whose insert failed but that are there anyway */
+  failedButPresent: number[];
+  /** When the lost writes were acknowledged, in ms after the isolation */
+  lostWindowMs?: { first: number; last: number };
+  /** Member addresses that acknowledged lost writes, with counts */
+  lostAcknowledgedBy: Record<string, number>;
+  isolatedAtMs: number;
+  healedAtMs: number;
+  durationMs: number;
+  eventsFile: string;
+}
+
+export interface RollbackWrite {
+  seq: number;
+  /** Ms since the run started */
+  atMs: number;
+  acknowledgedBy?: string;
+  error?: string;
+}
+
+/** The default experiment with the file's settings on top, checked like the config file */
+export function loadRollbackSpec(file: string | undefined): RollbackSpec {
+  return loadSpecFile(file, DEFAULT_ROLLBACK, (spec, expect) => {
+    expect('journal', Array.isArray(spec.journal) && spec.journal.length > 0 &&
+      spec.journal.every(journal => typeof journal === 'boolean'), 'a non-empty list of true/false');
+    expect('collection', isNonEmptyString(spec.collection), 'a non-empty string');
+    expect('writeIntervalMs', isInteger(spec.writeIntervalMs, 0), 'an integer >= 0');
+    for (const key of ['isolateAfterMs', 'isolatedForMs', 'writeAfterHealMs']) {
+      expect(key, isInteger(spec[key], 1), 'an integer >= 1');
+    }
+  });
+}
+
+/**
+ * Compare the writes the client attempted with the sequence numbers a
+ * majority read finds once the old primary has rolled back.
+ */
+export function classifyWrites(
+  writes: RollbackWrite[],
+  present: Set<number>,
+  isolatedAtMs: number
+): Pick<RollbackResult, 'attempted' | 'acknowledged' | 'failed' | 'survived' | 'lost' | 'failedButPresent' | 'lostWindowMs' | 'lostAcknowledgedBy'> {
+  const acknowledged = writes.filter(w => !w.error);
+  const lost = acknowledged.filter(w => !present.has(w.seq));
+  const lostAcknowledgedBy: Record<string, number> = {};
+  for (const write of lost) {
+    const by = write.acknowledgedBy ?? 'unknown';
+    lostAcknowledgedBy[by] = (lostAcknowledgedBy[by] ?? 0) + 1;
+  }
+
+  return {
+    attempted: writes.length,
+    acknowledged: acknowledged.length,
+    failed: writes.length - acknowledged.length,
+    survived: present.size,
+    lost: lost.map(w => w.seq),
+    failedButPresent: writes.filter(w => w.error && present.has(w.seq)).map(w => w.seq),
+    lostWindowMs: lost.length > 0
+      ? { first: lost[0].atMs - isolatedAtMs, last: lost[lost.length - 1].atMs - isolatedAtMs }
+      : undefined,
+    lostAcknowledgedBy
+  };
+}
+
+function describeWriteConcern(journal: boolean): string {
+  return journal ? 'w:1, j:true' : 'w:1';
+}
+
+async function primaryName(fake: FakeReplicaSet | null): Promise<string> {
+  if (fake) {
+    if (!fake.primaryName) {
+      throw new Error('The fake replica set has no primary');
+    }
+    return fake.primaryName;
+  }
+  const controller = new ReplicaSetController(proxyUri(), true);
+  try {
+    return await controller.waitForPrimary();
+  } finally {
+    await controller.close();
+  }
+}
+
+/**
+ * One run: a single writer inserts numbered documents, the primary is
+ * isolated from its peers and later healed, and the acknowledged writes
+ * are compared with what a majority read finds once the set has settled.
+ */
+async function runOnce(spec: RollbackSpec, journal: boolean, proxy: FaultProxy | null): Promise<RollbackResult> {
+  const fake = getConfig().mongo.fake ? new FakeReplicaSet() : null;
+  await fake?.start();
+  const uri = buildUri({}, fake ? fake.uri() : proxyUri());
+  if (!fake) {
+    await waitForHealthy(uri);
+  }
+
+  const testId = `rollback-${journal ? 'j' : 'w1'}-${Date.now()}`;
+  const client = new MongoClient(uri, { monitorCommands: true });
+  const recorder = new EventRecorder(testId);
+  recorder.attach(client);
+  const injector = new FaultInjector(client, proxy, fake);
+  const collection = client.db(dbName()).collection(spec.collection);
+  const startedAt = Date.now();
+  const since = () => Date.now() - startedAt;
+
+  // Which member acknowledged each insert; a retried insert keeps the last one
+  const seqByRequest = new Map<number, number>();
+  const writes: RollbackWrite[] = [];
+  client.on('commandStarted', event => {
+    if (event.commandName === 'insert') {
+      seqByRequest.set(event.requestId, event.command.documents?.[0]?.seq);
+    }
+  });
+  client.on('commandSucceeded', event => {
+    const seq = seqByRequest.get(event.requestId);
+    if (seq !== undefined && writes[seq]) {
+      writes[seq].acknowledgedBy = event.address;
+    }
+  });
+
+  const fault: FaultSpec = { type: 'isolate' };
+  let oldPrimary = '';
+  let isolatedAtMs = 0;
+  let healedAtMs = 0;
+  let writing = true;
+  const errors: Record<string, number> = {};
+
+  // An isolation the run ends, or is stopped, with still in place
+  const healLeftover = async (): Promise<boolean> => {
+    if (!isolatedAtMs || healedAtMs) {
+      return false;
+    }
+    await injector.heal([oldPrimary], fault);
+    return true;
+  };
+  const unregisterShutdown = onWorkloadShutdown({ name: 'rollback', testId, startedAt, client, recorder, heal: healLeftover });
+
+  try {
+    await client.connect();
+    oldPrimary = await primaryName(fake);
+    console.log(`Writing with ${describeWriteConcern(journal)} to ${oldPrimary} (test id ${testId})...`);
+
+    const writer = (async () => {
+      for (let seq = 0; writing; seq++) {
+        const write: RollbackWrite = { seq, atMs: since() };
+        writes.push(write);
+        try {
+          await collection.insertOne({ testId, seq, at: new Date() }, { writeConcern: { w: 1, journal } });
+        } catch (error: any) {
+          const classified = classifyMongoError(error);
+          const key = classified.codeName || classified.category;
+          write.error = key;
+          write.acknowledgedBy = undefined;
+          errors[key] = (errors[key] ?? 0) + 1;
+        }
+        await sleep(spec.writeIntervalMs);
+      }
+    })();
+
+    await sleep(spec.isolateAfterMs);
+    await injector.inject([oldPrimary], fault);
+    isolatedAtMs = since();
+    recorder.record('fault', 'inject', { atMs: isolatedAtMs, members: [oldPrimary], fault });
+    console.log(`💥 Isolated ${oldPrimary} from its peers at ${isolatedAtMs}ms; the client still reaches it`);
+
+    await sleep(spec.isolatedForMs);
+    await injector.heal([oldPrimary], fault);
+    healedAtMs = since();
+    recorder.record('fault', 'heal', { atMs: healedAtMs, members: [oldPrimary], fault });
+    console.log(`🩹 Healed ${oldPrimary} at ${healedAtMs}ms`);
+
+    await sleep(spec.writeAfterHealMs);
+    writing = false;
+    await writer;
+
+    // The old primary rolls back once it rejoins; only then is the outcome final
+    console.log('Waiting for the old primary to rejoin and roll back...');
+    if (!fake) {
+      await waitForHealthy(uri, getConfig().run.verifyHealthyTimeoutMs);
+    }
+    const survivors = await collection
+      .find({ testId }, { readConcern: { level: 'majority' }, projection: { seq: 1 } })
+      .toArray();
+    const present = new Set(survivors.map(doc => doc.seq as number));
+
+    const result: RollbackResult = {
+      journal,
+      testId,
+      oldPrimary,
+      errors,
+      ...classifyWrites(writes, present, isolatedAtMs),
+      isolatedAtMs,
+      healedAtMs,
+      durationMs: since(),
+      eventsFile: recorder.file
+    };
+    recorder.record('run', 'finished', { ...result, lost: result.lost.length, failedButPresent: result.failedButPresent.length });
+    return result;
+  } finally {
+    writing = false;
+    unregisterShutdown();
+    await healLeftover().catch((err: any) => console.error(`Failed to heal ${oldPrimary}:`, err.message));
+    await client.close();
+    await recorder.close();
+    await fake?.stop();
+  }
+}
+
+function printRollbackTable(results: RollbackResult[]): void {
+  printTable(
+    ['Write concern', 'Attempted', 'Acknowledged', 'Failed', 'Lost (acked, rolled back)', 'Failed but present', 'Lost window (ms after isolation)'],
+    results.map(r => [
+      describeWriteConcern(r.journal),
+      String(r.attempted),
+      String(r.acknowledged),
+      String(r.failed),
+      `${r.lost.length} (${r.acknowledged > 0 ? (100 * r.lost.length / r.acknowledged).toFixed(1) : '0.0'}%)`,
+      String(r.failedButPresent.length),
+      r.lostWindowMs ? `${r.lostWindowMs.first}..${r.lostWindowMs.last}` : '-'
+    ])
+  );
+  for (const r of results) {
+    const errors = Object.entries(r.errors).map(([key, count]) => `${key} x${count}`).join(', ') || 'none';
+    console.log(`\n${describeWriteConcern(r.journal)}: errors ${errors}`);
+    if (r.lost.length > 0) {
+      const by = Object.entries(r.lostAcknowledgedBy).map(([address, count]) => `${address} x${count}`).join(', ');
+      console.log(`   lost writes acknowledged by ${by}; first lost seq ${r.lost[0]}, last ${r.lost[r.lost.length - 1]}`);
+    }
+  }
+}
+
+/**
+ * Run the rollback experiment once per write concern variant. On Docker
+ * the replica set must be initiated in proxy mode, since isolating the
+ * primary from its peers only works on replication traffic the proxy sees.
+ */
+export async function runRollback(spec: RollbackSpec): Promise<RollbackResult[]> {
+  const { mongo } = getConfig();
+  if (!mongo.fake && !mongo.proxy) {
+    throw new Error('Isolating the primary needs a replica set initiated with --proxy (or --fake)');
+  }
+  const proxy = mongo.fake ? null : new FaultProxy(PROXY_MEMBERS);
+  const results: RollbackResult[] = [];
+
+  console.log(rule());
+  console.log('Rollback of w:1 writes during primary isolation');
+  console.log(rule() + '\n');
+
+  await proxy?.start();
+  try {
+    for (const [index, journal] of spec.journal.entries()) {
+      console.log(`[${index + 1}/${spec.journal.length}] ${describeWriteConcern(journal)}`);
+      results.push(await runOnce(spec, journal, proxy));
+      console.log('');
+    }
+  } finally {
+    await proxy?.stop();
+  }
+
+  fs.mkdirSync(getConfig().run.eventsDir, { recursive: true });
+  const file = path.join(getConfig().run.eventsDir, `rollback-${Date.now()}.json`);
+  fs.writeFileSync(file, JSON.stringify({ spec, results }, null, 2));
+
+  console.log(rule());
+  console.log('Rollback results');
+  console.log(rule());
+  printRollbackTable(results);
+  console.log(`\nFull results written to ${file}`);
+
+  return results;
+}
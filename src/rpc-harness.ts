@@ -0,0 +1,405 @@
+import fs from 'fs';
+import path from 'path';
+import RPC from '@hyperswarm/rpc';
+import createTestnet from 'hyperdht/testnet';
+import { getConfig } from './config';
+import { baseUri, buildUri, PROXY_MEMBERS, proxyUri } from './connection';
+import { FakeReplicaSet } from './fake-mongod';
+import { FaultProxy } from './fault-proxy';
+import { checkFakeFaults, describeFault, FaultInjector, needsProxy } from './faults';
+import { LatencySummary, LoadFault, loadFaultProblem, summarize } from './load';
+import { waitForHealthy } from './replica-set';
+import { onWorkloadShutdown } from './shutdown';
+import { isInteger, isMix, isNonEmptyString, isUriOptions, loadSpecFile } from './spec-file';
+import { printTable, rule, sleep } from './util';
+import { HandlerRecord, WALLET_METHODS, WalletMethod, WalletWorker } from './wallet-worker';
+
+/**
+ * Callers send RPC requests to a local stub worker at a fixed rate,
+ * whether or not earlier ones have been answered, as the API does.
+ */
+export interface RpcSpec {
+  ratePerSec: number;
+  durationMs: number;
+  /** Relative weights of the three methods */
+  mix: Partial<Record<WalletMethod, number>>;
+  /** The caller's request timeout; null sends requests without one, like the production API */
+  requestTimeoutMs: number | null;
+  /** A handler running this long counts as stuck */
+  stuckAfterMs: number;
+  /** The worker's connection string options; production's by default */
+  uriOptions: Record<string, string | number>;
+  fault: LoadFault | null;
+  bucketMs: number;
+  /** How long to wait for outstanding requests once the run is over */
+  drainMs: number;
+  collection: string;
+}
+
+export const DEFAULT_RPC: RpcSpec = {
+  ratePerSec: 20,
+  durationMs: 45000,
+  mix: { addWallet: 1, getWallet: 2, listWallets: 1 },
+  requestTimeoutMs: 10000,
+  stuckAfterMs: 10000,
+  uriOptions: { maxPoolSize: 150, socketTimeoutMS: 30000, serverSelectionTimeoutMS: 30000 },
+  fault: { atMs: 10000, members: ['mongo2', 'mongo3'], fault: { type: 'stop' }, healAfterMs: 20000 },
+  bucketMs: 5000,
+  drainMs: 35000,
+  collection: 'testcollection_wallets'
+};
+
+export type CallOutcome = 'ok' | 'caller-timeout' | 'error';
+
+export interface CallRecord {
+  rid: number;
+  method: WalletMethod;
+  sentAtMs: number;
+  endedAtMs?: number;
+  outcome?: CallOutcome;
+  error?: string;
+}
+
+export interface RpcBucket {
+  atMs: number;
+  ok: number;
+  callerTimeouts: number;
+  errors: number;
+  /** Sampled at the end of the bucket */
+  outstanding: number;
+  runningHandlers: number;
+  stuckHandlers: number;
+  poolQueued: number;
+  marker?: string;
+}
+
+export interface RpcMethodSummary {
+  calls: number;
+  ok: number;
+  callerTimeouts: number;
+  errors: number;
+  latency: LatencySummary;
+}
+
+export interface RpcResult {
+  spec: RpcSpec;
+  uri: string;
+  durationMs: number;
+  methods: Record<WalletMethod, RpcMethodSummary>;
+  /** Caller-side errors other than timeouts, by message */
+  callerErrors: Record<string, number>;
+  handlers: {
+    started: number;
+    failed: Record<string, number>;
+    /** Handlers that kept running after their caller had given up */
+    outlivedCaller: number;
+    /** Still running when the run ended */
+    running: number;
+    longestMs: number;
+  };
+  /** Requests never answered, not even by a timeout */
+  unanswered: number;
+  buckets: RpcBucket[];
+  faultAtMs?: number;
+  healedAtMs?: number;
+  workerClosed: boolean;
+}
+
+/** The default harness with the file's settings on top, checked like the config file */
+export function loadRpcSpec(file: string | undefined): RpcSpec {
+  return loadSpecFile(file, DEFAULT_RPC, (spec, expect) => {
+    expect('ratePerSec', isInteger(spec.ratePerSec, 1), 'an integer >= 1');
+    for (const key of ['durationMs', 'drainMs']) {
+      expect(key, isInteger(spec[key], 0), 'an integer >= 0');
+    }
+    expect('mix', isMix(spec.mix, WALLET_METHODS), `weights >= 0 of ${WALLET_METHODS.join(', ')}`);
+    expect('requestTimeoutMs', spec.requestTimeoutMs === null || isInteger(spec.requestTimeoutMs, 1), 'null or an integer >= 1');
+    for (const key of ['stuckAfterMs', 'bucketMs']) {
+      expect(key, isInteger(spec[key], 1), 'an integer >= 1');
+    }
+    expect('uriOptions', isUriOptions(spec.uriOptions), 'an object of connection string options');
+    expect('collection', isNonEmptyString(spec.collection), 'a non-empty string');
+    const problem = loadFaultProblem(spec.fault);
+    return problem ? [problem] : [];
+  });
+}
+
+function pickMethod(mix: RpcSpec['mix']): WalletMethod {
+  const weights = WALLET_METHODS.map(method => Math.max(0, mix[method] ?? 0));
+  let roll = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (const [index, weight] of weights.entries()) {
+    roll -= weight;
+    if (roll < 0) {
+      return WALLET_METHODS[index];
+    }
+  }
+  return 'addWallet';
+}
+
+function summarizeMethods(calls: CallRecord[]): Record<WalletMethod, RpcMethodSummary> {
+  return Object.fromEntries(WALLET_METHODS.map(method => {
+    const own = calls.filter(c => c.method === method);
+    const ok = own.filter(c => c.outcome === 'ok');
+    return [method, {
+      calls: own.length,
+      ok: ok.length,
+      callerTimeouts: own.filter(c => c.outcome === 'caller-timeout').length,
+      errors: own.filter(c => c.outcome === 'error').length,
+      latency: summarize(ok.map(c => (c.endedAtMs as number) - c.sentAtMs))
+    }];
+  })) as Record<WalletMethod, RpcMethodSummary>;
+}
+
+function summarizeHandlers(handlers: HandlerRecord[], calls: CallRecord[], endMs: number): RpcResult['handlers'] {
+  const timedOut = new Map(calls.filter(c => c.outcome === 'caller-timeout').map(c => [c.rid, c.endedAtMs as number]));
+  const failed: Record<string, number> = {};
+  for (const handler of handlers.filter(h => h.error)) {
+    failed[handler.error as string] = (failed[handler.error as string] ?? 0) + 1;
+  }
+  return {
+    started: handlers.length,
+    failed,
+    outlivedCaller: handlers.filter(h => timedOut.has(h.rid) && (h.endedAtMs ?? Infinity) > (timedOut.get(h.rid) as number)).length,
+    running: handlers.filter(h => h.endedAtMs === undefined).length,
+    longestMs: Math.max(0, ...handlers.map(h => (h.endedAtMs ?? endMs) - h.startedAtMs))
+  };
+}
+
+/**
+ * Start a local DHT testnet, a stub wallet worker on it and a caller, then
+ * drive requests through a Mongo fault and report how the hang surfaced
+ * at the RPC layer.
+ */
+export async function runRpcHarness(spec: RpcSpec): Promise<RpcResult> {
+  const { mongo } = getConfig();
+  if (mongo.fake && spec.fault) {
+    checkFakeFaults([spec.fault.fault]);
+  }
+  const fake = mongo.fake ? new FakeReplicaSet() : null;
+  const proxied = !mongo.fake && (mongo.proxy || (spec.fault !== null && needsProxy(spec.fault.fault)));
+  const proxy = proxied ? new FaultProxy(PROXY_MEMBERS) : null;
+  await fake?.start();
+  await proxy?.start();
+
+  const uri = buildUri(spec.uriOptions, fake ? fake.uri() : proxy ? proxyUri() : baseUri());
+  if (!fake) {
+    await waitForHealthy(uri);
+  }
+
+  const startedAt = Date.now();
+  const since = () => Date.now() - startedAt;
+  const testnet = await createTestnet(3);
+  const worker = new WalletWorker(testnet.createNode(), uri, spec.collection, since);
+  const caller = new RPC({ dht: testnet.createNode() });
+  const injector = new FaultInjector(worker.client, proxy, fake);
+
+  const calls: CallRecord[] = [];
+  const samples: Omit<RpcBucket, 'ok' | 'callerTimeouts' | 'errors' | 'marker'>[] = [];
+  const callerErrors: Record<string, number> = {};
+  const walletIds: string[] = [];
+  const userIds: string[] = [];
+  let faultAtMs: number | undefined;
+  let healedAtMs: number | undefined;
+  const outstanding = () => calls.filter(c => c.outcome === undefined).length;
+
+  const call = async (rid: number): Promise<void> => {
+    let method = pickMethod(spec.mix);
+    if (walletIds.length === 0) {
+      method = 'addWallet';
+    }
+    const userId = method === 'addWallet' ? `rpc-user-${rid}` : userIds[Math.floor(Math.random() * userIds.length)];
+    const payload = method === 'addWallet'
+      ? {
+        rid,
+        userId,
+        wallets: [{ type: 'channel', name: `Wallet ${rid}`, enabled: true, channelId: 'channel-test', addresses: { ethereum: '0x' + '1'.repeat(40) } }]
+      }
+      : method === 'getWallet'
+        ? { rid, id: walletIds[Math.floor(Math.random() * walletIds.length)] }
+        : { rid, userId };
+    const record: CallRecord = { rid, method, sentAtMs: since() };
+    calls.push(record);
+    try {
+      const reply = await caller.request(worker.publicKey, method, Buffer.from(JSON.stringify(payload)),
+        spec.requestTimeoutMs !== null ? { timeout: spec.requestTimeoutMs } : {});
+      record.outcome = 'ok';
+      if (method === 'addWallet') {
+        walletIds.push(...JSON.parse(reply.toString()).map((wallet: { id: string }) => wallet.id));
+        userIds.push(userId);
+      }
+    } catch (error: any) {
+      record.outcome = error.code === 'TIMEOUT_EXCEEDED' ? 'caller-timeout' : 'error';
+      record.error = error.code ?? error.message;
+      if (record.outcome === 'error') {
+        callerErrors[error.message] = (callerErrors[error.message] ?? 0) + 1;
+      }
+    } finally {
+      record.endedAtMs = since();
+    }
+  };
+
+  const faults = async (): Promise<void> => {
+    if (!spec.fault) {
+      return;
+    }
+    const { members, fault } = spec.fault;
+    await sleep(spec.fault.atMs);
+    await injector.inject(members, fault);
+    faultAtMs = since();
+    console.log(`💥 ${describeFault(fault)} on ${members.join(', ') || 'the primary'} at ${faultAtMs}ms`);
+    if (spec.fault.healAfterMs === null || fault.type === 'stepdown') {
+      return;
+    }
+    await sleep(spec.fault.healAfterMs);
+    await injector.heal(members, fault);
+    healedAtMs = since();
+    console.log(`🩹 Healed at ${healedAtMs}ms`);
+  };
+
+  // A fault the run ends, or is stopped, with still in place
+  const healLeftover = async (): Promise<boolean> => {
+    if (faultAtMs === undefined || healedAtMs !== undefined || !spec.fault || spec.fault.fault.type === 'stepdown') {
+      return false;
+    }
+    await injector.heal(spec.fault.members, spec.fault.fault);
+    return true;
+  };
+  const unregisterShutdown = onWorkloadShutdown({
+    name: 'rpc',
+    testId: `rpc-${startedAt}`,
+    startedAt,
+    client: worker.client,
+    heal: healLeftover
+  });
+
+  console.log(rule());
+  console.log(`RPC harness: ${spec.ratePerSec} requests/s for ${spec.durationMs}ms, caller timeout ${spec.requestTimeoutMs ?? 'none'}`);
+  console.log(`Worker connection string: ${uri}`);
+  console.log(`Fault: ${spec.fault ? `${describeFault(spec.fault.fault)} on ${spec.fault.members.join(', ') || 'the primary'} at ${spec.fault.atMs}ms` : 'none'}`);
+  console.log(rule() + '\n');
+
+  const sample = setInterval(() => {
+    const running = worker.running();
+    const now = since();
+    const entry = {
+      atMs: now - spec.bucketMs,
+      outstanding: outstanding(),
+      runningHandlers: running.length,
+      stuckHandlers: running.filter(h => now - h.startedAtMs >= spec.stuckAfterMs).length,
+      poolQueued: worker.poolQueued
+    };
+    samples.push(entry);
+    console.log(`  ${now}ms: ${entry.outstanding} requests outstanding, ${entry.runningHandlers} handlers running ` +
+      `(${entry.stuckHandlers} stuck), ${entry.poolQueued} waiting for a connection`);
+  }, spec.bucketMs);
+
+  let workerClosed = false;
+  const pending: Promise<void>[] = [];
+  try {
+    await worker.start();
+    const faulting = faults();
+    // Awaited once the requests are sent; a failed inject or heal before then must not go unhandled
+    faulting.catch(() => {});
+    for (let rid = 0; since() < spec.durationMs; rid++) {
+      pending.push(call(rid));
+      await sleep(Math.max(0, (rid + 1) * 1000 / spec.ratePerSec - since()));
+    }
+    await faulting;
+    console.log(`Run over at ${since()}ms; waiting up to ${spec.drainMs}ms for ${outstanding()} outstanding requests...`);
+    await Promise.race([Promise.all(pending), sleep(spec.drainMs)]);
+  } finally {
+    clearInterval(sample);
+    unregisterShutdown();
+    await healLeftover().catch((err: any) => console.error('Failed to heal the fault:', err.message));
+    await caller.destroy({ force: true });
+    workerClosed = await worker.stop(getConfig().run.shutdownCloseMs);
+    await testnet.destroy();
+    await proxy?.stop();
+    await fake?.stop();
+  }
+
+  const durationMs = since();
+  const within = (at: number | undefined, start: number) => at !== undefined && at >= start && at < start + spec.bucketMs;
+  const buckets: RpcBucket[] = samples.map(s => {
+    const ended = calls.filter(c => within(c.endedAtMs, s.atMs));
+    const markers = [within(faultAtMs, s.atMs) ? 'fault' : '', within(healedAtMs, s.atMs) ? 'heal' : ''].filter(Boolean);
+    return {
+      ...s,
+      ok: ended.filter(c => c.outcome === 'ok').length,
+      callerTimeouts: ended.filter(c => c.outcome === 'caller-timeout').length,
+      errors: ended.filter(c => c.outcome === 'error').length,
+      marker: markers.length > 0 ? markers.join('+') : undefined
+    };
+  });
+
+  const result: RpcResult = {
+    spec,
+    uri,
+    durationMs,
+    methods: summarizeMethods(calls),
+    callerErrors,
+    handlers: summarizeHandlers(worker.handlers, calls, durationMs),
+    unanswered: outstanding(),
+    buckets,
+    faultAtMs,
+    healedAtMs,
+    workerClosed
+  };
+
+  fs.mkdirSync(getConfig().run.eventsDir, { recursive: true });
+  const file = path.join(getConfig().run.eventsDir, `rpc-${Date.now()}.json`);
+  fs.writeFileSync(file, JSON.stringify({ ...result, calls, handlers: { ...result.handlers, records: worker.handlers } }, null, 2));
+  printRpcResult(result);
+  console.log(`\nFull results written to ${file}`);
+  return result;
+}
+
+export function printRpcResult(result: RpcResult): void {
+  console.log('\n' + rule());
+  console.log('Over time (requests and handlers sampled at the end of each interval)');
+  console.log(rule());
+  printTable(
+    ['t (s)', 'ok', 'caller timeouts', 'errors', 'outstanding', 'handlers running', 'stuck', 'waiting for connection', ''],
+    result.buckets.map(b => [
+      (b.atMs / 1000).toFixed(0),
+      String(b.ok),
+      String(b.callerTimeouts),
+      String(b.errors),
+      String(b.outstanding),
+      String(b.runningHandlers),
+      String(b.stuckHandlers),
+      String(b.poolQueued),
+      b.marker ? `💥 ${b.marker}` : ''
+    ])
+  );
+
+  console.log('\n' + rule());
+  console.log('Calls per method (latency of successful calls, ms)');
+  console.log(rule());
+  printTable(
+    ['Method', 'Calls', 'OK', 'Caller timeouts', 'Errors', 'p50', 'p95', 'p99', 'max'],
+    WALLET_METHODS.map(method => {
+      const m = result.methods[method];
+      return [method, String(m.calls), String(m.ok), String(m.callerTimeouts), String(m.errors),
+        String(m.latency.p50), String(m.latency.p95), String(m.latency.p99), String(m.latency.max)];
+    })
+  );
+
+  const { handlers } = result;
+  console.log('\n' + rule());
+  console.log('Worker handlers');
+  console.log(rule());
+  console.log(`Started ${handlers.started}, longest ${handlers.longestMs}ms`);
+  console.log(`Kept running after the caller timed out: ${handlers.outlivedCaller}`);
+  console.log(`Still running at the end: ${handlers.running}${result.workerClosed ? '' : ' (the worker\'s client did not close)'}`);
+  const failures = Object.entries(handlers.failed);
+  console.log(`Failed: ${failures.length > 0 ? failures.map(([key, count]) => `${key} x${count}`).join(', ') : 'none'}`);
+  const errors = Object.entries(result.callerErrors);
+  if (errors.length > 0) {
+    console.log(`Errors seen by the caller: ${errors.map(([message, count]) => `${message} x${count}`).join('; ')}`);
+  }
+  if (result.unanswered > 0) {
+    console.log(`⚠️  ${result.unanswered} requests were never answered`);
+  }
+  console.log(rule());
+}
@@ -0,0 +1,703 @@
+import { MongoClient, ClientSession, Collection, Document } from 'mongodb';
+import { classifyMongoError, ErrorClassification } from './classify-error';
+import { getConfig, printConfig } from './config';
+import { baseUri, buildUri, dbName, PROXY_MEMBERS, proxyUri } from './connection';
+import { FakeReplicaSet } from './fake-mongod';
+import { FaultProxy } from './fault-proxy';
+import { FaultTimeline, Phase } from './fault-timeline';
+import { checkFakeFaults, FaultInjector, needsProxy } from './faults';
+import { DeadlineExceededError, TransactionDeadline } from './deadline';
+import { DriverStateTracker } from './driver-state';
+import { EventRecorder } from './event-recorder';
+import { HangDetectedError, HangReport, HangWatchdog, printHangReport, TransactionStep } from './watchdog';
+import { CommitVerification, printVerification, verifyCommit } from './verify-commit';
+import { ReplicaSetController } from './replica-set';
+import { saveReplay } from './replay';
+import { CleanupResult, cleanupStep, onShutdown, ShutdownReport, skipped } from './shutdown';
+import { getTopology } from './topologies';
+import { runTransactionWithRetry } from './transaction-retry';
+import { ExpectedOutcome, Operation, PhaseTiming, RunResult, Scenario, TransactionMode } from './types';
+import { printTable, rule, sleep } from './util';
+
+function printBanner(scenario: Scenario, uri: string): void {
+  console.log(rule());
+  console.log(`MongoDB Transaction Test - ${scenario.title}`);
+  console.log(rule());
+  console.log(`Scenario: ${scenario.name}`);
+  console.log(`Connection URI: ${uri}`);
+  for (const line of scenario.description) {
+    console.log(line);
+  }
+  if (scenario.timeoutMS) {
+    const levels = (['client', 'db', 'collection', 'session'] as const)
+      .map(level => `${level}=${scenario.timeoutMS?.[level] ?? '-'}`);
+    console.log(`Client-side timeoutMS: ${levels.join(' ')}`);
+  }
+  if (scenario.deadlineMs !== undefined) {
+    console.log(`Application deadline: ${scenario.deadlineMs}ms (AbortSignal)`);
+  }
+  console.log(`Expected outcome: ${describeExpected(scenario.expected)}`);
+  console.log(rule());
+  console.log('');
+}
+
+export function describeExpected(expected: ExpectedOutcome): string {
+  if (expected.status === 'error' && (expected.codeName || expected.category)) {
+    const labels = expected.labels?.length ? `, ${expected.labels.join(', ')}` : '';
+    return `error (${expected.codeName || expected.category}${labels})`;
+  }
+  return expected.status;
+}
+
+export function describeMode(mode: TransactionMode): string {
+  return mode.type === 'retry' ? `retry:${mode.policy.name}` : mode.type;
+}
+
+/**
+ * Scenarios that inject proxy faults must connect through the proxy.
+ * The proxy setting (MONGO_PROXY=1) forces it for replica sets initiated in proxy mode.
+ * The fake replica set applies network faults itself and never needs it.
+ */
+export function usesProxy(scenario: Scenario): boolean {
+  const { mongo } = getConfig();
+  return !mongo.fake && (mongo.proxy || (scenario.faults ?? []).some(step => needsProxy(step.fault)));
+}
+
+async function runOperation(
+  operation: Operation,
+  collection: (name?: string) => Collection,
+  session: ClientSession,
+  testId: string,
+  maxTimeMS: number | undefined
+): Promise<void> {
+  const limit = maxTimeMS !== undefined ? `maxTimeMS: ${maxTimeMS}ms` : 'NO maxTimeMS';
+
+  switch (operation.kind) {
+    case 'insert': {
+      const count = operation.count ?? 1;
+      const target = collection(operation.collection);
+      const padding = operation.sizeBytes ? 'x'.repeat(operation.sizeBytes) : undefined;
+      const size = padding ? `, ~${Math.round(count * padding.length / 1024)}KB in total` : '';
+      console.log(`Inserting ${count} document(s) into ${target.collectionName} with testId: ${testId} (${limit}${size})...`);
+      const document = (i: number) => ({
+        testId,
+        operationNumber: i + 1,
+        value: 'initial',
+        timestamp: new Date(),
+        ...(padding && { padding })
+      });
+      if (operation.batchSize) {
+        for (let start = 0; start < count; start += operation.batchSize) {
+          const batch = Array.from({ length: Math.min(operation.batchSize, count - start) }, (_, i) => document(start + i));
+          await target.insertMany(batch, { session, maxTimeMS });
+          console.log(`  ✓ Inserts ${start + 1}-${start + batch.length} completed`);
+        }
+      } else {
+        for (let i = 0; i < count; i++) {
+          await target.insertOne(document(i), { session, maxTimeMS });
+          console.log(`  ✓ Insert ${i + 1} completed`);
+        }
+      }
+      console.log('');
+      break;
+    }
+
+    case 'update': {
+      console.log(`Updating document(s) (${limit})...`);
+      const updateResult = await collection().updateMany(
+        { testId },
+        { $set: { value: 'updated', updatedAt: new Date() } },
+        { session, maxTimeMS }
+      );
+      console.log(`Update successful: ${updateResult.modifiedCount} document(s) modified\n`);
+      break;
+    }
+
+    case 'sleep':
+      console.log(`Sleeping ${operation.ms}ms between operations...`);
+      await sleep(operation.ms);
+      break;
+  }
+}
+
+function printPhases(phases: PhaseTiming[]): void {
+  if (phases.length === 0) {
+    return;
+  }
+  console.log('Phase timings:');
+  printTable(
+    ['Step', 'Start (ms)', 'Duration (ms)', 'Outcome'],
+    phases.map(phase => [phase.step, String(phase.startedAtMs), String(phase.durationMs), phase.outcome])
+  );
+  console.log('');
+}
+
+function printError(error: ErrorClassification): void {
+  console.error('\n' + rule());
+  console.error('ERROR OCCURRED');
+  console.error(rule());
+
+  console.error(`Error Code: ${error.code}`);
+  console.error(`Error Name: ${error.codeName || error.name}`);
+  console.error(`Error Message: ${error.message}`);
+  console.error(`Error Labels: ${error.labels.join(', ') || 'none'}\n`);
+
+  console.error(error.description);
+  console.error(`   Category: ${error.category}, retryable: ${error.retryable}, commit outcome ${error.commitOutcomeKnown ? 'known' : 'UNKNOWN'}`);
+  console.error(rule() + '\n');
+}
+
+/**
+ * Short outcome label for tables: committed, the error's codeName or
+ * category, or hung@<step>.
+ */
+export function describeOutcome(result: RunResult): string {
+  if (result.status === 'hung') {
+    return `hung@${result.hang?.step}`;
+  }
+  if (result.status === 'error') {
+    return result.error?.codeName || result.error?.category || 'error';
+  }
+  return 'committed';
+}
+
+/**
+ * Whether a finished run matches what the scenario declared.
+ */
+export function matchesExpected(result: RunResult, expected: ExpectedOutcome): boolean {
+  if (expected.status !== result.status) {
+    return false;
+  }
+  if (expected.status === 'error') {
+    return (!expected.codeName || result.error?.codeName === expected.codeName) &&
+      (!expected.category || result.error?.category === expected.category) &&
+      (expected.labels ?? []).every(label => result.error?.labels.includes(label));
+  }
+  return true;
+}
+
+export interface RunOptions {
+  /** An already running fault proxy to use instead of starting one for this run */
+  proxy?: FaultProxy;
+  /** An already running fake replica set to run against instead of the configured backend */
+  fake?: FakeReplicaSet;
+}
+
+/**
+ * Run one scenario: connect, start a transaction, perform the scenario's
+ * operations, commit (retrying as the scenario's mode allows), and always
+ * clean up the session and client.
+ */
+export async function runScenario(scenario: Scenario, options: RunOptions = {}): Promise<RunResult> {
+  const topology = scenario.topology ? getTopology(scenario.topology) : undefined;
+  if (scenario.topology && !topology) {
+    throw new Error(`Unknown topology: ${scenario.topology}`);
+  }
+
+  // A fake replica set per run, started first since its ports make up the URI
+  const ownsFake = !options.fake && getConfig().mongo.fake;
+  if (options.fake || ownsFake) {
+    checkFakeFaults((scenario.faults ?? []).map(step => step.fault));
+  }
+  const fake = options.fake ?? (ownsFake ? new FakeReplicaSet({ topology }) : null);
+  if (ownsFake && fake) {
+    await fake.start();
+  }
+
+  const ownsProxy = !options.proxy && !fake && usesProxy(scenario);
+  const proxy = options.proxy ?? (ownsProxy ? new FaultProxy(PROXY_MEMBERS) : null);
+  const uri = buildUri(scenario.uriOptions, fake ? fake.uri() : proxy ? proxyUri() : undefined);
+  const client = new MongoClient(uri, { monitorCommands: true, timeoutMS: scenario.timeoutMS?.client });
+  let session: ClientSession | null = null;
+  const startedAt = Date.now();
+
+  // Generate a unique test ID for this run
+  const testId = `test-${scenario.name}-${Date.now()}`;
+
+  const recorder = new EventRecorder(testId);
+  recorder.attach(client);
+  const timeline = new FaultTimeline(
+    scenario.faults ?? [],
+    new FaultInjector(client, proxy, fake),
+    startedAt,
+    event => recorder.record('fault', event.action, { ...event })
+  );
+  const tracker = new DriverStateTracker();
+  tracker.attach(client);
+  const mode = scenario.mode ?? { type: 'manual' };
+  const phases: PhaseTiming[] = [];
+  const addPhase = (name: TransactionStep, begun: number, outcome: PhaseTiming['outcome']): void => {
+    phases.push({ step: name, startedAtMs: begun - startedAt, durationMs: Date.now() - begun, outcome });
+  };
+  // Outside manual mode commits and aborts happen inside the transaction
+  // step; they are timed from their commands instead
+  const endCommands = new Map<number, TransactionStep>();
+  const endCommand = (requestId: number, duration: number, outcome: PhaseTiming['outcome']): void => {
+    const name = endCommands.get(requestId);
+    if (name) {
+      endCommands.delete(requestId);
+      addPhase(name, Date.now() - Math.round(duration), outcome);
+    }
+  };
+  client.on('commandStarted', event => {
+    if (event.commandName === 'commitTransaction') {
+      commitCommands++;
+    }
+    if (mode.type !== 'manual' && (event.commandName === 'commitTransaction' || event.commandName === 'abortTransaction')) {
+      endCommands.set(event.requestId, event.commandName === 'commitTransaction' ? 'commit' : 'abort');
+    }
+  });
+  client.on('commandSucceeded', event => endCommand(event.requestId, event.duration, 'ok'));
+  client.on('commandFailed', event => endCommand(event.requestId, event.duration, 'failed'));
+  const watchdog = new HangWatchdog(tracker, scenario.hangAfterMs);
+
+  // Set once the transaction starts when the scenario has an application deadline
+  let deadline: TransactionDeadline | undefined;
+  const guard = <T>(name: string, operation: Promise<T>): Promise<T> =>
+    deadline ? deadline.race(name, operation) : operation;
+
+  // Every awaited step is watched for hangs and marked in the event timeline.
+  // Transaction steps are also raced against the deadline; cleanup steps are not.
+  const step = async <T>(name: TransactionStep, operation: Promise<T>): Promise<T> => {
+    recorder.record('step', 'started', { step: name });
+    const begun = Date.now();
+    try {
+      const cleanup = name === 'abort' || name === 'end-session' || name === 'close';
+      const value = await watchdog.watch(name, cleanup ? operation : guard(name, operation));
+      addPhase(name, begun, 'ok');
+      recorder.record('step', 'succeeded', { step: name });
+      return value;
+    } catch (error: any) {
+      const outcome = error instanceof HangDetectedError ? 'hung' : 'failed';
+      addPhase(name, begun, outcome);
+      recorder.record('step', outcome, {
+        step: name,
+        error: error.message
+      });
+      throw error;
+    }
+  };
+  const reach = (phase: Phase): Promise<void> => {
+    recorder.record('phase', 'reached', { phase });
+    return timeline.reach(phase);
+  };
+  let status: RunResult['status'] = 'committed';
+  let runError: ErrorClassification | undefined;
+  let hang: HangReport | undefined;
+  let outcomeAtMs: number | undefined;
+  let verification: CommitVerification | undefined;
+  let commitSent = false;
+  let sessionEnded = false;
+  let clientClosed = false;
+  // Rethrown only once faults are healed and the recorder is closed
+  let cleanupFailure: Error | undefined;
+  let controller: ReplicaSetController | undefined;
+  let previousMembers: Document[] | undefined;
+  let previousParameters: Record<string, Document> | undefined;
+  // Once a deadline has fired, cleanup gets its own bounded budget instead of hanging
+  const cleanupOptions = () => deadline?.expired ? { timeoutMS: getConfig().run.cleanupTimeoutMs } : undefined;
+  let duringCommit: Promise<void> | undefined;
+  let attempts = 0;
+  let commitCommands = 0;
+
+  // After SIGINT/SIGTERM the shutdown handler cleans up and ends the
+  // process; the interrupted run parks instead of racing it
+  let shuttingDown = false;
+  const parked = new Promise<never>(() => {});
+  const unregisterShutdown = onShutdown(async (signal): Promise<ShutdownReport> => {
+    shuttingDown = true;
+    const { run } = getConfig();
+    const report: ShutdownReport = {
+      signal,
+      scenario: scenario.name,
+      testId,
+      atMs: Date.now() - startedAt,
+      inFlight: watchdog.current(),
+      commands: tracker.snapshot().inFlight,
+      cleanup: []
+    };
+    recorder.record('run', 'signal', { signal, inFlight: report.inFlight, commands: report.commands.map(c => c.commandName) });
+    console.log(`\n🛑 ${signal} received${report.inFlight ? ` during ${report.inFlight.step}` : ''}, cleaning up...\n`);
+
+    const attempt = async (result: Promise<CleanupResult> | CleanupResult): Promise<void> => {
+      const done = await result;
+      report.cleanup.push(done);
+      recorder.record('run', 'shutdown-step', { ...done });
+    };
+    // Like the deadline, a sent commit may still land, so it is not raced by an abort
+    if (!session?.inTransaction()) {
+      await attempt(skipped('abort', 'no transaction in progress'));
+    } else if (commitSent) {
+      await attempt(skipped('abort', 'commit in flight, outcome unknown'));
+    } else {
+      const txnSession = session;
+      await attempt(cleanupStep('abort', run.shutdownAbortMs, tracker, () => txnSession.abortTransaction()));
+    }
+    if (!session || sessionEnded) {
+      await attempt(skipped('end-session', session ? 'already ended' : 'no session'));
+    } else {
+      const openSession = session;
+      await attempt(cleanupStep('end-session', run.shutdownEndSessionMs, tracker, () => openSession.endSession()));
+      sessionEnded = report.cleanup[report.cleanup.length - 1].status === 'completed';
+    }
+    if (clientClosed) {
+      await attempt(skipped('close', 'already closed'));
+    } else {
+      await attempt(cleanupStep('close', run.shutdownCloseMs, tracker, () => client.close()));
+      clientClosed = report.cleanup[report.cleanup.length - 1].status === 'completed';
+    }
+
+    // Stopped members and other faults must not outlive the process
+    const begun = Date.now();
+    try {
+      await timeline.finish();
+      await attempt({ step: 'heal-faults', status: 'completed', durationMs: Date.now() - begun });
+    } catch (error: any) {
+      await attempt({ step: 'heal-faults', status: 'failed', durationMs: Date.now() - begun, detail: error.message });
+    }
+
+    recorder.record('run', 'shutdown', { ...report });
+    await recorder.close();
+    return report;
+  });
+
+  const recordHang = (error: HangDetectedError): void => {
+    outcomeAtMs = outcomeAtMs ?? Date.now() - startedAt;
+    status = 'hung';
+    hang = error.report;
+    printHangReport(error.report);
+  };
+
+  try {
+    printBanner(scenario, uri);
+    printConfig();
+    recorder.record('run', 'started', { scenario: scenario.name, testId, uri, mode: describeMode(mode), config: getConfig() });
+
+    if (ownsProxy && proxy) {
+      await proxy.start();
+      console.log('Fault proxy listening for mongo1..mongo3\n');
+    }
+
+    if (fake) {
+      console.log(`Fake replica set: ${fake.uri()}\n`);
+    } else if (topology) {
+      console.log(`Applying topology ${topology.name}: ${topology.description}`);
+      controller = new ReplicaSetController(proxy ? proxyUri() : baseUri(), proxy !== null);
+      previousMembers = (await controller.getReplSetConfig()).members;
+      await controller.applyTopology(topology);
+      await controller.waitForPrimary();
+      recorder.record('run', 'topology', { topology: topology.name });
+      console.log('✓ Topology applied\n');
+    }
+
+    if (scenario.serverParameters) {
+      const parameters = scenario.serverParameters;
+      console.log(`Setting server parameters: ${Object.entries(parameters).map(([k, v]) => `${k}=${v}`).join(', ')}`);
+      if (fake) {
+        previousParameters = { fake: fake.setParameters(parameters) };
+      } else {
+        controller = controller ?? new ReplicaSetController(proxy ? proxyUri() : baseUri(), proxy !== null);
+        previousParameters = await controller.setParameters(parameters);
+      }
+      recorder.record('run', 'server-parameters', { parameters, previous: previousParameters });
+      console.log('✓ Server parameters set\n');
+    }
+
+    // Connect to MongoDB
+    console.log('Connecting to MongoDB replica set...');
+    await step('connect', client.connect());
+    console.log('Connected successfully!\n');
+    await reach('after-connect');
+
+    const db = client.db(dbName(), { timeoutMS: scenario.timeoutMS?.db });
+    const collection = (name: string = scenario.collection) => db.collection(name, { timeoutMS: scenario.timeoutMS?.collection });
+
+    if (scenario.uniqueTestId) {
+      try {
+        await collection().createIndex({ testId: 1 }, { unique: true });
+        console.log('Ensured unique index on testId field\n');
+      } catch (err) {
+        // Index might already exist
+      }
+    }
+
+    // Committed to a majority, so the transaction's snapshot includes them
+    if (scenario.seed) {
+      const seeded = Array.from({ length: scenario.seed }, () => ({ testId, seeded: true, value: 'initial', timestamp: new Date() }));
+      await collection().insertMany(seeded, { writeConcern: { w: 'majority' } });
+      console.log(`Seeded ${scenario.seed} document(s) into ${scenario.collection}\n`);
+    }
+
+    // Start a session
+    session = client.startSession({ defaultTimeoutMS: scenario.timeoutMS?.session });
+    console.log('Session started\n');
+
+    if (scenario.deadlineMs !== undefined) {
+      deadline = new TransactionDeadline(scenario.deadlineMs);
+      deadline.signal.addEventListener('abort', () => {
+        recorder.record('run', 'deadline', { deadlineMs: scenario.deadlineMs });
+        console.log(`⏰ Application deadline of ${scenario.deadlineMs}ms passed, cancelling the transaction\n`);
+      });
+    }
+
+    // The transaction body; modes that retry run it once per attempt
+    const lastInsert = scenario.operations.map(op => op.kind).lastIndexOf('insert');
+    const body = async (txnSession: ClientSession): Promise<void> => {
+      attempts++;
+      if (attempts > 1) {
+        console.log(`Transaction attempt ${attempts}\n`);
+      }
+      for (const [index, operation] of scenario.operations.entries()) {
+        const running = runOperation(operation, collection, txnSession, testId, scenario.operationMaxTimeMS);
+        await (operation.kind === 'sleep' ? guard('sleep', running) : step(operation.kind, running));
+        if (index === lastInsert) {
+          await reach('after-insert');
+        }
+      }
+      await reach('before-commit');
+    };
+
+    console.log(`Transaction mode: ${describeMode(mode)}, options:`);
+    console.log(JSON.stringify(scenario.transactionOptions, null, 2));
+    console.log('');
+
+    if (mode.type === 'manual') {
+      session.startTransaction(scenario.transactionOptions);
+      await body(session);
+
+      // Commit the transaction; during-commit faults fire while it is in flight
+      console.log('Committing transaction...');
+      commitSent = true;
+      await step('commit', Promise.all([
+        session.commitTransaction(),
+        reach('during-commit')
+      ]));
+    } else {
+      // The commit is sent by the driver or the policy as soon as the body returns
+      const bodyThenCommit = async (txnSession: ClientSession): Promise<void> => {
+        await body(txnSession);
+        console.log('Committing transaction...');
+        commitSent = true;
+        duringCommit = duringCommit ?? reach('during-commit');
+      };
+      const transaction = mode.type === 'with-transaction'
+        ? session.withTransaction(bodyThenCommit, scenario.transactionOptions)
+        : runTransactionWithRetry(session, bodyThenCommit, mode.policy, scenario.transactionOptions, event => {
+          recorder.record('run', 'retry', { ...event });
+          console.log(`⏱️  ${event.error.codeName || event.error.category}: retrying ${event.kind} ` +
+            `(attempt ${event.attempt}) in ${event.delayMs}ms\n`);
+        });
+      await step('transaction', transaction);
+    }
+    outcomeAtMs = Date.now() - startedAt;
+    deadline?.clear();
+    console.log('✓ Transaction committed successfully!\n');
+
+  } catch (error: any) {
+    if (shuttingDown) {
+      await parked;
+    }
+    deadline?.clear();
+    if (error instanceof HangDetectedError) {
+      recordHang(error);
+    } else {
+      outcomeAtMs = Date.now() - startedAt;
+      status = 'error';
+      runError = classifyMongoError(error);
+      printError(runError);
+
+      // Attempt to abort the transaction. A commit abandoned by the deadline
+      // may still land, so it is left alone rather than raced by an abort.
+      if (error instanceof DeadlineExceededError && commitSent) {
+        console.log('Commit was in flight when the deadline passed - not aborting\n');
+      } else if (session && session.inTransaction()) {
+        try {
+          console.log('Attempting to abort transaction...');
+          await step('abort', session.abortTransaction(cleanupOptions()));
+          console.log('✓ Transaction aborted successfully\n');
+        } catch (abortError: any) {
+          if (abortError instanceof HangDetectedError) {
+            recordHang(abortError);
+          } else {
+            console.error('Failed to abort transaction:', abortError.message, '\n');
+          }
+        }
+      }
+    }
+
+  } finally {
+    if (shuttingDown) {
+      await parked;
+    }
+    // A during-commit fault fired outside a watched step; let it land before healing
+    await duringCommit?.catch((err: any) => console.error('during-commit fault failed:', err.message));
+
+    // A hung run leaves the stuck operation behind; cleanup would block on it
+    if (hang) {
+      console.log('Postponing endSession/close until the faults are healed: a step is still pending\n');
+    } else {
+      const attemptCleanup = async (cleanup: () => Promise<void>): Promise<void> => {
+        try {
+          await cleanup();
+        } catch (cleanupError: any) {
+          if (cleanupError instanceof HangDetectedError) {
+            recordHang(cleanupError);
+          } else {
+            console.error('Cleanup failed:', cleanupError.message, '\n');
+            cleanupFailure = cleanupFailure ?? cleanupError;
+          }
+        }
+      };
+
+      // CRITICAL: Always end the session
+      await attemptCleanup(async () => {
+        if (session) {
+          console.log('Ending session...');
+          await step('end-session', session.endSession(cleanupOptions()));
+          console.log('✓ Session ended\n');
+        }
+        sessionEnded = true;
+      });
+
+      // Close the client even when endSession failed, so no pool or monitor
+      // outlives the run; a hung endSession leaves it to the late cleanup
+      if (!hang) {
+        await attemptCleanup(async () => {
+          console.log('Closing MongoDB connection...');
+          await step('close', client.close());
+          clientClosed = true;
+          console.log('✓ Connection closed\n');
+        });
+      }
+    }
+
+    await timeline.finish();
+
+    // Healed faults usually release the stuck operation; whatever cleanup is
+    // left gets the cleanup budget instead of the hang threshold
+    if (hang) {
+      const late = new HangWatchdog(tracker, getConfig().run.cleanupTimeoutMs);
+      try {
+        if (session && !sessionEnded) {
+          console.log('Ending session after healing...');
+          const begun = Date.now();
+          await late.watch('end-session', session.endSession());
+          addPhase('end-session', begun, 'ok');
+          console.log('✓ Session ended\n');
+        }
+        sessionEnded = true;
+        if (!clientClosed) {
+          console.log('Closing MongoDB connection after healing...');
+          const begun = Date.now();
+          await late.watch('close', client.close());
+          addPhase('close', begun, 'ok');
+          clientClosed = true;
+          console.log('✓ Connection closed\n');
+        }
+      } catch (error: any) {
+        console.error(`Cleanup after the hang failed: ${error.message}\n`);
+      }
+      recorder.record('run', 'late-cleanup', { sessionEnded, clientClosed });
+    }
+
+    if (previousParameters) {
+      try {
+        console.log('Restoring server parameters...');
+        if (fake) {
+          fake.setParameters(previousParameters.fake);
+        } else if (controller) {
+          await controller.restoreParameters(previousParameters);
+        }
+        console.log('✓ Server parameters restored\n');
+      } catch (err: any) {
+        console.error('Failed to restore server parameters:', err.message, '\n');
+      }
+    }
+
+    if (controller) {
+      try {
+        if (previousMembers) {
+          console.log('Restoring the previous topology...');
+          await controller.waitForPrimary(getConfig().run.verifyHealthyTimeoutMs);
+          await controller.restoreMembers(previousMembers);
+          console.log('✓ Topology restored\n');
+        }
+      } catch (err: any) {
+        console.error('Failed to restore the previous topology:', err.message, '\n');
+      } finally {
+        await controller.close();
+      }
+    }
+
+    // Faults are healed now; find out whether the transaction really committed.
+    // Before commit was sent there is nothing to verify: the transaction is gone.
+    if (commitSent && scenario.verify !== false) {
+      console.log('Verifying commit outcome (majority read once the replica set is healthy)...');
+      verification = await verifyCommit(uri, scenario, { testId, status });
+      printVerification(verification);
+      recorder.record('run', 'verified', { ...verification });
+    }
+
+    if (scenario.dropCollection) {
+      const dropper = new MongoClient(uri);
+      try {
+        console.log(`Dropping ${scenario.collection}...`);
+        await dropper.db(dbName()).collection(scenario.collection).drop();
+        recorder.record('run', 'collection-dropped', { collection: scenario.collection });
+        console.log('✓ Collection dropped\n');
+      } catch (err: any) {
+        console.error(`Failed to drop ${scenario.collection}:`, err.message, '\n');
+      } finally {
+        await dropper.close();
+      }
+    }
+
+    if (ownsProxy && proxy) {
+      await proxy.stop();
+    }
+    if (ownsFake && fake) {
+      await fake.stop();
+    }
+
+    recorder.record('run', 'finished', {
+      status,
+      attempts,
+      commitCommands,
+      error: runError && { category: runError.category, codeName: runError.codeName },
+      hungAt: hang?.step,
+      cleanupError: cleanupFailure?.message
+    });
+    unregisterShutdown();
+    await recorder.close();
+    printPhases(phases);
+    console.log(`Event timeline written to ${recorder.file}\n`);
+  }
+
+  if (cleanupFailure) {
+    throw cleanupFailure;
+  }
+
+  const result: Omit<RunResult, 'replayFile'> = {
+    scenario: scenario.name,
+    testId,
+    status,
+    expected: scenario.expected,
+    mode: describeMode(mode),
+    attempts,
+    commitCommands,
+    error: runError,
+    hang,
+    verification,
+    cleanup: { sessionEnded, clientClosed },
+    outcomeAtMs: outcomeAtMs ?? Date.now() - startedAt,
+    durationMs: Date.now() - startedAt,
+    phases,
+    faults: timeline.events,
+    uri,
+    config: getConfig(),
+    eventsFile: recorder.file
+  };
+  const replayFile = saveReplay(scenario, result);
+  console.log(`Replay file written to ${replayFile}\n`);
+  return { ...result, replayFile };
+}
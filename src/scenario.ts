@@ -0,0 +1,475 @@
+#!/usr/bin/env node
+import path from 'path';
+import { auditSettings, configuredTarget, confirmFindings, loadAuditOptions, printAudit } from './audit';
+import { modeRuns, runComparison, timeoutLayerRuns } from './compare';
+import { checkHistory, loadConsistencySpec, printConsistency, runConsistency } from './consistency';
+import { ConfigError, getConfig, initConfig, useRecordedConfig } from './config';
+import { baseUri, DOCKER_MEMBERS, PROXY_MEMBERS, proxyUri } from './connection';
+import { FakeReplicaSet } from './fake-mongod';
+import { FaultProxy } from './fault-proxy';
+import { compose } from './faults';
+import { History } from './history';
+import { MemberStatus, ReplicaSetController } from './replica-set';
+import { compareReplay, loadReplay, printReplayComparison, replayOf } from './replay';
+import { writeReports } from './report';
+import { matchesExpected, runScenario } from './runner';
+import { loadLoadSpec, runLoad } from './load';
+import { loadRetryableSpec, runRetryable } from './retryable';
+import { loadRollbackSpec, runRollback } from './rollback';
+import { printShutdownReport, ShutdownReport, shutdown } from './shutdown';
+import { loadRpcSpec, runRpcHarness } from './rpc-harness';
+import { getScenario, scenarios } from './scenarios';
+import { runStepConsole } from './step-console';
+import { loadSweepSpec, runSweep } from './sweep';
+import { getTopology, TOPOLOGIES } from './topologies';
+import { Scenario } from './types';
+import { rule } from './util';
+
+// Process exit codes, so a wrapper can tell outcomes apart without parsing output
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_HUNG = 2;
+// Stopped by SIGINT/SIGTERM: every cleanup step completed, one failed, one hung
+const EXIT_INTERRUPTED = 3;
+const EXIT_CLEANUP_FAILED = 4;
+const EXIT_CLEANUP_HUNG = 5;
+// A second signal while cleaning up
+const EXIT_FORCED = 6;
+// audit found a wait nothing bounds
+const EXIT_UNBOUNDED = 7;
+
+// First port of the standalone fake replica set, clear of Docker and the fault proxy
+const FAKE_BASE_PORT = 47017;
+
+function printUsage(): void {
+  console.log('Usage: scenario <command> [args] [--config file] [--<setting> value ...]');
+  console.log('');
+  console.log('Commands:');
+  console.log('  list            List the available scenarios');
+  console.log('  run <name>      Run a scenario');
+  console.log('  console <name>  Step through a scenario\'s transaction by hand, injecting and healing faults');
+  console.log('                  from the keyboard with a live view of the members and the client');
+  console.log('  replay <file>   Run a recorded run again (runs/<testId>.replay.json): same scenario, faults and');
+  console.log('                  settings; compare the outcome, phases and fault timing with the recording');
+  console.log('  sweep [spec]    Run a scenario over a matrix of timeouts and faults (spec: JSON file)');
+  console.log('  compare [name]  Run a scenario under manual, withTransaction and each retry policy');
+  console.log('                  (default: stepdown-mid-transaction)');
+  console.log('  compare-timeouts [name]');
+  console.log('                  Run a scenario with no timeouts, server-side timeouts, client-side');
+  console.log('                  timeoutMS and an application deadline (default: pause)');
+  console.log('  audit [uri] [options]');
+  console.log('                  Flag waits a connection string and session/transaction/operation options');
+  console.log('                  (options: JSON file) leave unbounded (default: this repro\'s config)');
+  console.log('  audit-confirm [uri] [options]');
+  console.log('                  Audit, then run the scenario behind each finding to confirm it');
+  console.log('  history [spec]  Record every operation of a register or transaction workload under a fault,');
+  console.log('                  then check it for linearizability or transactional anomalies (spec: JSON file)');
+  console.log('  check-history <file>');
+  console.log('                  Check a recorded history again');
+  console.log('  load [spec]     Run concurrent workers at a target rate with a fault partway through;');
+  console.log('                  report throughput, latency percentiles, pool wait and recovery (spec: JSON file)');
+  console.log('  rpc [spec]      Call addWallet/getWallet/listWallets on a local stub worker over @hyperswarm/rpc');
+  console.log('                  through a fault; report caller timeouts, stuck handlers and queued requests');
+  console.log('  rollback [spec] Write with w:1 (and j:true) while the primary is isolated from its peers,');
+  console.log('                  then report acknowledged writes lost to rollback (spec: JSON file)');
+  console.log('  retryable [spec]');
+  console.log('                  Run insertOne/updateOne/findOneAndUpdate/find through stepdown, kill and partition');
+  console.log('                  with retryWrites/retryReads on and off; report driver retries and lost or');
+  console.log('                  duplicated $inc effects (spec: JSON file)');
+  console.log('  proxy           Run the fault proxy on its own (keeps a --proxy replica set connected)');
+  console.log('  fake [topology] Run the fake replica set on its own on ports 47017.. (default: pss)');
+  console.log('  rs <action>     Manage the replica set:');
+  console.log('                    topologies | init [topology] | apply <topology> | status |');
+  console.log('                    stepdown [secs] | freeze <member> <secs> | wait-primary |');
+  console.log('                    stop|start|kill <member...>');
+  console.log('');
+  console.log('Settings merge defaults, the config file (repro.config.json, MONGO_REPRO_CONFIG or --config),');
+  console.log('environment variables and flags, later wins. See "Configuration" in the README.');
+}
+
+function shutdownExitCode(report: ShutdownReport | undefined): number {
+  const statuses = report?.cleanup.map(result => result.status) ?? [];
+  if (statuses.includes('hung')) {
+    return EXIT_CLEANUP_HUNG;
+  }
+  return statuses.includes('failed') ? EXIT_CLEANUP_FAILED : EXIT_INTERRUPTED;
+}
+
+/**
+ * On SIGINT/SIGTERM clean up the running scenario within the shutdown
+ * budgets and exit with a code telling how cleanup went. A second signal
+ * exits at once.
+ */
+function handleSignals(): void {
+  let received: NodeJS.Signals | undefined;
+  const onSignal = (signal: NodeJS.Signals): void => {
+    if (received) {
+      console.log(`\n${signal} during shutdown after ${received}, exiting with status ${EXIT_FORCED}.`);
+      process.exit(EXIT_FORCED);
+    }
+    received = signal;
+    shutdown(signal)
+      .then(report => {
+        const code = shutdownExitCode(report);
+        if (report) {
+          printShutdownReport(report);
+        } else {
+          console.log(`\n${signal} received between runs, nothing to clean up.`);
+        }
+        console.log(`Exiting with status ${code}.`);
+        process.exit(code);
+      })
+      .catch(error => {
+        console.error(`\nShutdown after ${signal} failed:`, error);
+        process.exit(EXIT_FAILURE);
+      });
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+}
+
+function listScenarios(): void {
+  for (const scenario of scenarios()) {
+    console.log(`${scenario.name.padEnd(28)} ${scenario.title}`);
+  }
+}
+
+function findScenario(name: string | undefined): Scenario | undefined {
+  const scenario = name ? getScenario(name) : undefined;
+  if (!scenario) {
+    console.error(name ? `Unknown scenario: ${name}` : 'Missing scenario name');
+    console.error(`Available scenarios: ${scenarios().map(s => s.name).join(', ')}`);
+  }
+  return scenario;
+}
+
+async function run(name: string | undefined): Promise<number> {
+  const scenario = findScenario(name);
+  if (!scenario) {
+    return EXIT_FAILURE;
+  }
+
+  const result = await runScenario(scenario);
+  const matched = matchesExpected(result, scenario.expected);
+  const reports = writeReports(path.join(getConfig().run.eventsDir, result.testId), scenario.title, [
+    { label: scenario.name, result }
+  ]);
+
+  console.log(rule());
+  console.log(`Outcome: ${result.status}${result.error?.codeName ? ` (${result.error.codeName})` : ''} after ${result.durationMs}ms`);
+  if (result.error) {
+    const transient = result.error.labels.includes('TransientTransactionError') ? 'yes' : 'no';
+    console.log(`TransientTransactionError: ${transient} (labels: ${result.error.labels.join(', ') || 'none'})`);
+  }
+  console.log(`Mode: ${result.mode}, attempts: ${result.attempts}, commitTransaction commands: ${result.commitCommands}`);
+  console.log(matched ? '✓ Outcome matches expectation' : '⚠️  Outcome differs from expectation');
+  if (result.verification) {
+    console.log(`Durability: ${result.verification.durability}`);
+  }
+  console.log(`Reports: ${reports.join(', ')}`);
+  if (result.status === 'hung') {
+    console.log(`Run hung at ${result.hang?.step}. Exiting with status ${EXIT_HUNG}.`);
+  } else {
+    console.log('Test completed. Process exiting cleanly.');
+  }
+  console.log(rule());
+  return result.status === 'hung' ? EXIT_HUNG : EXIT_OK;
+}
+
+/**
+ * Run a replay file's scenario under its recorded config, so the faults
+ * fire at the same phases after the same delays, and compare the outcome.
+ */
+async function replay(file: string | undefined, argv: string[]): Promise<number> {
+  if (!file) {
+    console.error('Usage: scenario replay <file> [--<setting> value ...]');
+    return EXIT_FAILURE;
+  }
+  const recorded = loadReplay(file);
+  useRecordedConfig({ file, config: recorded.config }, argv);
+
+  const result = await runScenario(recorded.scenario);
+  const comparison = compareReplay(file, recorded, replayOf(recorded.scenario, result));
+  printReplayComparison(comparison);
+  console.log(`New replay file: ${result.replayFile}`);
+  return comparison.sameOutcome ? EXIT_OK : EXIT_FAILURE;
+}
+
+async function audit(args: string[], confirm: boolean): Promise<number> {
+  const target = args[0] ? { uri: args[0], options: loadAuditOptions(args[1]) } : configuredTarget();
+  const findings = auditSettings(target.uri, target.options);
+  printAudit(target.uri, findings);
+  if (confirm && findings.length > 0) {
+    await confirmFindings(findings);
+  }
+  return findings.some(finding => finding.severity === 'unbounded') ? EXIT_UNBOUNDED : EXIT_OK;
+}
+
+async function runProxy(): Promise<number> {
+  const proxy = new FaultProxy(PROXY_MEMBERS);
+  await proxy.start();
+  for (const member of PROXY_MEMBERS) {
+    console.log(`${member.name}: ${member.listenHost}:${member.listenPort} -> ${member.targetHost}:${member.targetPort}`);
+  }
+  console.log('\nFault proxy running. Use Ctrl+C to stop.');
+
+  await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+  await proxy.stop();
+  return EXIT_OK;
+}
+
+async function runFake(name: string = 'pss'): Promise<number> {
+  const topology = getTopology(name);
+  if (!topology) {
+    console.error(`Unknown topology: ${name}. Available: ${TOPOLOGIES.map(t => t.name).join(', ')}`);
+    return EXIT_FAILURE;
+  }
+  const fake = new FakeReplicaSet({ topology, basePort: FAKE_BASE_PORT });
+  await fake.start();
+  console.log(`Fake replica set (${topology.name}) running: ${fake.uri()}`);
+  console.log('Pass it as --uri to run scenarios by hand; faults need --fake instead. Use Ctrl+C to stop.');
+
+  await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+  await fake.stop();
+  return EXIT_OK;
+}
+
+function printMembers(members: MemberStatus[]): void {
+  for (const member of members) {
+    const lag = member.lagSecs !== undefined ? `, ${member.lagSecs}s behind` : '';
+    console.log(`  ${member.name.padEnd(8)} ${member.state}${member.health === 1 ? '' : ' (unreachable)'}${lag}`);
+  }
+}
+
+function parseSeconds(value: string | undefined, fallback?: number): number {
+  if (value === undefined && fallback !== undefined) {
+    return fallback;
+  }
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new Error(`Expected a number of seconds, got ${value ?? 'nothing'}`);
+  }
+  return parseInt(value, 10);
+}
+
+function checkMembers(members: string[]): void {
+  const unknown = members.filter(name => !DOCKER_MEMBERS.some(m => m.name === name));
+  if (members.length === 0 || unknown.length > 0) {
+    throw new Error(`Expected member names from: ${DOCKER_MEMBERS.map(m => m.name).join(', ')}`);
+  }
+}
+
+async function rs(action: string | undefined, args: string[]): Promise<number> {
+  // With --proxy the members know each other by their proxy addresses, so
+  // `npm run scenario -- proxy` must be running for the set to form
+  const controller = new ReplicaSetController(getConfig().mongo.proxy ? proxyUri() : baseUri());
+  try {
+    switch (action) {
+      case 'topologies':
+        for (const topology of TOPOLOGIES) {
+          console.log(`${topology.name.padEnd(16)} ${topology.description}`);
+        }
+        return EXIT_OK;
+
+      case 'init':
+      case 'apply': {
+        const name = args[0] ?? (action === 'init' ? 'pss' : undefined);
+        const topology = name ? getTopology(name) : undefined;
+        if (!topology) {
+          console.error(`Unknown topology: ${name ?? '(none)'}. Available: ${TOPOLOGIES.map(t => t.name).join(', ')}`);
+          return EXIT_FAILURE;
+        }
+        if (action === 'init') {
+          console.log('Waiting for MongoDB members to be ready...');
+          await controller.waitForReachable(topology.members.map(m => m.name));
+          console.log(`Initiating replica set with topology ${topology.name}...`);
+          await controller.initiate(topology);
+        } else {
+          console.log(`Reconfiguring to topology ${topology.name}...`);
+          await controller.applyTopology(topology);
+        }
+        console.log('Waiting for a primary...');
+        await controller.waitForSettled();
+        printMembers(await controller.status());
+        if (action === 'init') {
+          console.log('\nAdd the member names to /etc/hosts if the driver cannot resolve them:');
+          console.log(`127.0.0.1 ${topology.members.map(m => m.name).join(' ')}`);
+        }
+        return EXIT_OK;
+      }
+
+      case 'status':
+        printMembers(await controller.status());
+        return EXIT_OK;
+
+      case 'stepdown': {
+        const seconds = parseSeconds(args[0], 60);
+        const before = await controller.waitForPrimary();
+        console.log(`Stepping down ${before} for ${seconds}s...`);
+        await controller.stepDown(seconds);
+        console.log(`New primary: ${await controller.waitForPrimary()}`);
+        printMembers(await controller.status());
+        return EXIT_OK;
+      }
+
+      case 'freeze': {
+        checkMembers(args.slice(0, 1));
+        const seconds = parseSeconds(args[1]);
+        await controller.freeze(args[0], seconds);
+        console.log(seconds === 0 ? `${args[0]} unfrozen` : `${args[0]} frozen for ${seconds}s`);
+        return EXIT_OK;
+      }
+
+      case 'wait-primary':
+        console.log(`Primary: ${await controller.waitForPrimary()}`);
+        return EXIT_OK;
+
+      case 'stop':
+      case 'kill':
+        checkMembers(args);
+        await compose(action, args);
+        console.log(`${action === 'stop' ? 'Stopped' : 'Killed'} ${args.join(', ')}`);
+        return EXIT_OK;
+
+      case 'start':
+        checkMembers(args);
+        await compose('start', args);
+        console.log(`Started ${args.join(', ')}, waiting for them to rejoin...`);
+        for (const member of args) {
+          await controller.waitForMemberState(member, ['PRIMARY', 'SECONDARY', 'ARBITER']);
+        }
+        printMembers(await controller.status());
+        return EXIT_OK;
+
+      default:
+        printUsage();
+        return EXIT_FAILURE;
+    }
+  } catch (error: any) {
+    console.error(`rs ${action}: ${error.message}`);
+    return EXIT_FAILURE;
+  } finally {
+    await controller.close();
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  let rest: string[];
+  try {
+    rest = initConfig(argv);
+  } catch (error: any) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(error.message);
+    return EXIT_FAILURE;
+  }
+  const [command, ...args] = rest;
+
+  // The long-running servers stop on their own SIGINT handling
+  if (['run', 'replay', 'sweep', 'compare', 'compare-timeouts', 'audit-confirm', 'history', 'load', 'rpc', 'rollback', 'retryable'].includes(command)) {
+    handleSignals();
+  }
+
+  // An invalid spec file fails like an invalid config: every problem, then the exit status
+  try {
+    return await dispatch(command, args, argv);
+  } catch (error: any) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(error.message);
+    return EXIT_FAILURE;
+  }
+}
+
+async function dispatch(command: string, args: string[], argv: string[]): Promise<number> {
+  switch (command) {
+    case 'list':
+      listScenarios();
+      return EXIT_OK;
+    case 'run':
+      return run(args[0]);
+    case 'console': {
+      const scenario = findScenario(args[0]);
+      if (!scenario) {
+        return EXIT_FAILURE;
+      }
+      if (!process.stdin.isTTY) {
+        console.error('The step console needs an interactive terminal');
+        return EXIT_FAILURE;
+      }
+      const statuses = (await runStepConsole(scenario)).map(result => result.status);
+      return statuses.includes('hung') ? EXIT_CLEANUP_HUNG : statuses.includes('failed') ? EXIT_CLEANUP_FAILED : EXIT_OK;
+    }
+    case 'replay':
+      return replay(args[0], argv);
+    case 'sweep':
+      await runSweep(loadSweepSpec(args[0]));
+      return EXIT_OK;
+    case 'compare': {
+      const scenario = findScenario(args[0] ?? 'stepdown-mid-transaction');
+      if (!scenario) {
+        return EXIT_FAILURE;
+      }
+      await runComparison(`Transaction modes on ${scenario.name}`, modeRuns(scenario));
+      return EXIT_OK;
+    }
+    case 'compare-timeouts': {
+      const scenario = findScenario(args[0] ?? 'pause');
+      if (!scenario) {
+        return EXIT_FAILURE;
+      }
+      await runComparison(`Timeout layers on ${scenario.name}`, timeoutLayerRuns(scenario));
+      return EXIT_OK;
+    }
+    case 'audit':
+    case 'audit-confirm':
+      return audit(args, command === 'audit-confirm');
+    case 'history': {
+      const result = await runConsistency(loadConsistencySpec(args[0]));
+      return (result.linearizability?.valid ?? result.transactions?.valid) === false ? EXIT_FAILURE : EXIT_OK;
+    }
+    case 'check-history': {
+      if (!args[0]) {
+        console.error('Usage: scenario check-history <file>');
+        return EXIT_FAILURE;
+      }
+      const result = checkHistory(History.load(args[0]));
+      printConsistency(result);
+      return (result.linearizability?.valid ?? result.transactions?.valid) === false ? EXIT_FAILURE : EXIT_OK;
+    }
+    case 'load':
+      await runLoad(loadLoadSpec(args[0]));
+      return EXIT_OK;
+    case 'rpc':
+      await runRpcHarness(loadRpcSpec(args[0]));
+      return EXIT_OK;
+    case 'rollback':
+      await runRollback(loadRollbackSpec(args[0]));
+      return EXIT_OK;
+    case 'retryable': {
+      const results = await runRetryable(loadRetryableSpec(args[0]));
+      const broken = results.some(r => r.effects.missingInserts.length > 0 || r.effects.duplicateInserts.length > 0 ||
+        r.effects.counters.some(c => c.duplicates > 0 || c.missing > 0));
+      return broken ? EXIT_FAILURE : EXIT_OK;
+    }
+    case 'proxy':
+      return runProxy();
+    case 'fake':
+      return runFake(args[0]);
+    case 'rs':
+      return rs(args[0], args.slice(1));
+    default:
+      printUsage();
+      return command ? EXIT_FAILURE : EXIT_OK;
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exit(code);
+  })
+  .catch((error) => {
+    console.error('\nUnexpected error in main execution:', error);
+    process.exit(EXIT_FAILURE);
+  });
@@ -0,0 +1,35 @@
+import { Config, getConfig } from '../config';
+import { Scenario } from '../types';
+import { pause } from './pause';
+
+/**
+ * The docker pause hang with client-side limits only: the driver's timeoutMS
+ * at every level, backed by an application deadline that cancels the
+ * transaction through an AbortSignal. Server-side timeouts stay unset, so
+ * whatever ends the run is the client.
+ */
+export function clientTimeoutPause(config: Config = getConfig()): Scenario {
+  const { clientTimeoutMs, deadlineMs } = config.run;
+  return {
+    ...pause,
+    name: 'client-timeout-pause',
+    title: 'CLIENT-SIDE TIMEOUTS (CSOT + DEADLINE)',
+    description: [
+      '   socketTimeoutMS=0, no maxCommitTimeMS, no wtimeout (as in pause)',
+      `   timeoutMS=${clientTimeoutMs} on client, db, collection and session`,
+      `   Application deadline ${deadlineMs}ms for the whole transaction`,
+      '   mongo2 and mongo3 are paused right before commit',
+      '',
+      'Expected to fail with a client-side timeout instead of hanging.'
+    ],
+    collection: 'testcollection_csot',
+    timeoutMS: {
+      client: clientTimeoutMs,
+      db: clientTimeoutMs,
+      collection: clientTimeoutMs,
+      session: clientTimeoutMs
+    },
+    deadlineMs,
+    expected: { status: 'error' }
+  };
+}
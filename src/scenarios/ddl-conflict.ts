@@ -0,0 +1,43 @@
+import { Config, getConfig } from '../config';
+import { Scenario } from '../types';
+
+/**
+ * An index build on testcollection_ddl while a transaction is open. The
+ * collection is seeded before the transaction, which takes its snapshot
+ * with an insert elsewhere: the build queues behind any transaction that
+ * has touched its collection. The index commits after the snapshot, so the
+ * transaction's update of the seeded documents conflicts with the catalog
+ * change and fails with WriteConflict, labelled transient.
+ */
+export function ddlConflict(config: Config = getConfig()): Scenario {
+  const { transaction } = config;
+  return {
+    name: 'ddl-conflict',
+    title: 'Index Build During a Transaction',
+    description: [
+      '   3 documents are seeded into testcollection_ddl before the transaction',
+      '   The transaction inserts into testcollection_ddl_snapshot, then updates the seeded documents',
+      '   An index on testcollection_ddl is built right after the insert',
+      '',
+      'Expected to fail with WriteConflict (TransientTransactionError).'
+    ],
+    collection: 'testcollection_ddl',
+    seed: 3,
+    dropCollection: true,
+    uriOptions: {},
+    transactionOptions: {
+      writeConcern: { w: transaction.w, wtimeout: transaction.wtimeoutMS },
+      readConcern: { level: transaction.readConcern },
+      maxCommitTimeMS: transaction.maxCommitTimeMS
+    },
+    operationMaxTimeMS: transaction.maxTimeMS,
+    operations: [
+      { kind: 'insert', collection: 'testcollection_ddl_snapshot' },
+      { kind: 'update' }
+    ],
+    faults: [
+      { at: 'after-insert', members: [], fault: { type: 'create-index', collection: 'testcollection_ddl', key: { updatedAt: 1 } } }
+    ],
+    expected: { status: 'error', codeName: 'WriteConflict', labels: ['TransientTransactionError'] }
+  };
+}
@@ -0,0 +1,36 @@
+import { Scenario } from '../types';
+
+/**
+ * HANG ON COMMIT VERSION - Most likely scenario in production
+ *
+ * 1. Transaction operations complete successfully (nodes are still up)
+ * 2. Nodes go down AFTER operations but BEFORE commit
+ * 3. Commit hangs forever trying to get majority acknowledgment
+ */
+export const hangOnCommit: Scenario = {
+  name: 'hang-on-commit',
+  title: 'HANG ON COMMIT',
+  description: [
+    '⚠️  This test will hang indefinitely on commit!',
+    '   socketTimeoutMS=0 (infinite socket timeout)',
+    '   No maxCommitTimeMS on transaction',
+    '   No wtimeout in write concern',
+    '   mongo2 and mongo3 are stopped right before commit',
+    '',
+    'The hang watchdog reports and exits once a step is pending for HANG_AFTER_MS.'
+  ],
+  collection: 'testcollection_hangcommit',
+  uriOptions: { socketTimeoutMS: 0, serverSelectionTimeoutMS: 300000 },
+  transactionOptions: {
+    writeConcern: { w: 'majority' },
+    readConcern: { level: 'majority' }
+  },
+  operations: [
+    { kind: 'insert', count: 3 }
+  ],
+  faults: [
+    // Operations are done but NOT committed yet - stop nodes so commit hangs
+    { at: 'before-commit', members: ['mongo2', 'mongo3'], fault: { type: 'stop' } }
+  ],
+  expected: { status: 'hung' }
+};
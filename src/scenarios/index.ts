@@ -0,0 +1,42 @@
+import { Config, getConfig } from '../config';
+import { Scenario } from '../types';
+import { clientTimeoutPause } from './client-timeout-pause';
+import { ddlConflict } from './ddl-conflict';
+import { hangOnCommit } from './hang-on-commit';
+import { noPrimarySelection } from './no-primary';
+import { noTimeoutHangOnWrite } from './no-timeout-hang-on-write';
+import { partitionHangOnCommit } from './partition-hang-on-commit';
+import { pause, pausePrimary } from './pause';
+import { psaLoseSecondary } from './psa';
+import { stepdownMidTransaction } from './stepdown';
+import { timeouts, timeoutsLoseMajority } from './timeouts';
+import { transactionLarge, transactionLifetime, transactionManyWrites } from './transaction-limits';
+
+/**
+ * Registry of named scenarios. To add a repro, write a Scenario definition
+ * in this directory and list it here; scenarios that take their timeouts
+ * from the config are built from it.
+ */
+export function scenarios(config: Config = getConfig()): Scenario[] {
+  return [
+    timeouts(config),
+    timeoutsLoseMajority(config),
+    noTimeoutHangOnWrite,
+    hangOnCommit,
+    pause,
+    pausePrimary,
+    partitionHangOnCommit,
+    stepdownMidTransaction(config),
+    clientTimeoutPause(config),
+    psaLoseSecondary(config),
+    noPrimarySelection,
+    transactionLifetime(config),
+    transactionLarge(config),
+    transactionManyWrites(config),
+    ddlConflict(config)
+  ];
+}
+
+export function getScenario(name: string, config: Config = getConfig()): Scenario | undefined {
+  return scenarios(config).find(scenario => scenario.name === name);
+}
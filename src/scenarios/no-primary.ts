@@ -0,0 +1,37 @@
+import { Scenario } from '../types';
+
+/**
+ * NO PRIMARY - Server selection waits out serverSelectionTimeoutMS
+ *
+ * With mongo1 (the preferred primary) and mongo2 stopped, mongo3 cannot be
+ * elected. Every operation that needs the primary waits for server selection,
+ * which with a five-minute serverSelectionTimeoutMS looks like a hang.
+ */
+export const noPrimarySelection: Scenario = {
+  name: 'server-selection-no-primary',
+  title: 'NO PRIMARY - SERVER SELECTION WAIT',
+  description: [
+    '⚠️  This test will wait for a primary for 5 minutes!',
+    '   serverSelectionTimeoutMS=300000',
+    '   No maxTimeMS or timeoutMS to bound the wait',
+    '   mongo1 and mongo2 are stopped right after connecting',
+    '   The insert waits until heartbeats (every 500ms) have noticed',
+    '',
+    'The hang watchdog reports and exits once a step is pending for HANG_AFTER_MS.'
+  ],
+  collection: 'testcollection_noprimary',
+  uriOptions: { socketTimeoutMS: 0, serverSelectionTimeoutMS: 300000, heartbeatFrequencyMS: 500 },
+  transactionOptions: {
+    writeConcern: { w: 'majority' },
+    readConcern: { level: 'majority' }
+  },
+  operations: [
+    // Sent before the driver notices, the insert fails fast with a network error instead
+    { kind: 'sleep', ms: 1500 },
+    { kind: 'insert', count: 1 }
+  ],
+  faults: [
+    { at: 'after-connect', members: ['mongo1', 'mongo2'], fault: { type: 'stop' } }
+  ],
+  expected: { status: 'hung' }
+};
@@ -0,0 +1,38 @@
+import { Scenario } from '../types';
+
+/**
+ * NO TIMEOUT VERSION - Simulates production behavior where writes hang indefinitely
+ *
+ * No maxTimeMS on operations, no wtimeout, no maxCommitTimeMS and an infinite
+ * socketTimeoutMS. Once majority is lost the update waits forever.
+ */
+export const noTimeoutHangOnWrite: Scenario = {
+  name: 'no-timeout-hang-on-write',
+  title: 'NO TIMEOUTS (Production Simulation)',
+  description: [
+    '⚠️  WARNING: NO TIMEOUTS CONFIGURED',
+    '   - No maxTimeMS on operations',
+    '   - No wtimeout in write concern',
+    '   - No maxCommitTimeMS on transaction',
+    '   - socketTimeoutMS=0 (infinite socket timeout)',
+    '   - mongo2 and mongo3 are stopped right after the insert',
+    '',
+    'This test will HANG if majority is lost!',
+    'The hang watchdog reports and exits once a step is pending for HANG_AFTER_MS.'
+  ],
+  collection: 'testcollection_notimeout',
+  uriOptions: { socketTimeoutMS: 0, serverSelectionTimeoutMS: 300000 },
+  transactionOptions: {
+    writeConcern: { w: 'majority' },
+    readConcern: { level: 'majority' }
+  },
+  operations: [
+    { kind: 'insert' },
+    { kind: 'update' }
+  ],
+  faults: [
+    // Stop nodes BEFORE the next write operation
+    { at: 'after-insert', members: ['mongo2', 'mongo3'], fault: { type: 'stop' } }
+  ],
+  expected: { status: 'hung' }
+};
@@ -0,0 +1,31 @@
+import { Scenario } from '../types';
+
+/**
+ * HANG ON COMMIT through the fault proxy - mongo2 and mongo3 are blackholed
+ * after the inserts, so the primary keeps running and accepting connections
+ * but can no longer replicate. Needs a replica set initiated with --proxy.
+ */
+export const partitionHangOnCommit: Scenario = {
+  name: 'partition-hang-on-commit',
+  title: 'HANG ON COMMIT (PROXY PARTITION)',
+  description: [
+    '⚠️  This test will hang indefinitely on commit!',
+    '   mongo2 and mongo3 are blackholed by the fault proxy before commit',
+    '   socketTimeoutMS=0, no wtimeout, no maxCommitTimeMS',
+    '',
+    'The hang watchdog reports and exits once a step is pending for HANG_AFTER_MS.'
+  ],
+  collection: 'testcollection_partition',
+  uriOptions: { socketTimeoutMS: 0, serverSelectionTimeoutMS: 300000 },
+  transactionOptions: {
+    writeConcern: { w: 'majority' },
+    readConcern: { level: 'majority' }
+  },
+  operations: [
+    { kind: 'insert', count: 3 }
+  ],
+  faults: [
+    { at: 'after-insert', members: ['mongo2', 'mongo3'], fault: { type: 'partition' } }
+  ],
+  expected: { status: 'hung' }
+};
@@ -0,0 +1,58 @@
+import { Scenario } from '../types';
+
+/**
+ * SIMPLEST HANG TEST - Uses docker pause
+ *
+ * Paused containers keep their sockets open, so the driver thinks the nodes
+ * are alive while the commit waits for a majority acknowledgment that never comes.
+ */
+export const pause: Scenario = {
+  name: 'pause',
+  title: 'DOCKER PAUSE METHOD',
+  description: [
+    '⚠️  This test will hang indefinitely on commit!',
+    '   socketTimeoutMS=0 (infinite socket timeout)',
+    '   No maxCommitTimeMS on transaction',
+    '   No wtimeout in write concern',
+    '   mongo2 and mongo3 are paused right before commit',
+    '',
+    'The hang watchdog reports and exits once a step is pending for HANG_AFTER_MS.'
+  ],
+  collection: 'testcollection_pause',
+  uriOptions: { socketTimeoutMS: 0, serverSelectionTimeoutMS: 300000 },
+  transactionOptions: {
+    writeConcern: { w: 'majority' },
+    readConcern: { level: 'majority' }
+  },
+  operations: [
+    { kind: 'insert', count: 3 }
+  ],
+  faults: [
+    { at: 'before-commit', members: ['mongo2', 'mongo3'], fault: { type: 'pause' } }
+  ],
+  expected: { status: 'hung' }
+};
+
+/**
+ * PAUSED PRIMARY - The commit's own socket goes quiet
+ *
+ * Pausing the primary leaves its connection open and silent. Write concern
+ * timeouts cannot help, since the server never gets to answer; only
+ * socketTimeoutMS or timeoutMS end the wait.
+ */
+export const pausePrimary: Scenario = {
+  ...pause,
+  name: 'pause-primary',
+  title: 'DOCKER PAUSE OF THE PRIMARY',
+  description: [
+    '⚠️  This test will hang indefinitely on commit!',
+    '   socketTimeoutMS=0 (infinite socket timeout)',
+    '   mongo1 (the primary) is paused right before commit',
+    '',
+    'The hang watchdog reports and exits once a step is pending for HANG_AFTER_MS.'
+  ],
+  collection: 'testcollection_pause_primary',
+  faults: [
+    { at: 'before-commit', members: ['mongo1'], fault: { type: 'pause' } }
+  ]
+};
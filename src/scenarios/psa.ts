@@ -0,0 +1,28 @@
+import { Config, getConfig } from '../config';
+import { Scenario } from '../types';
+import { timeouts } from './timeouts';
+
+/**
+ * The timeouts scenario on a primary-secondary-arbiter set. Stopping the one
+ * secondary keeps a primary (the arbiter still votes) but leaves no second
+ * data-bearing member to acknowledge majority writes, so commit has to fail
+ * with WriteConcernFailed once wtimeout expires.
+ */
+export function psaLoseSecondary(config: Config = getConfig()): Scenario {
+  const base = timeouts(config);
+  return {
+    ...base,
+    name: 'psa-lose-secondary',
+    title: 'PSA - Lose The Only Secondary',
+    description: [
+      ...base.description,
+      'Topology psa: mongo3 is an arbiter',
+      'mongo2 is stopped right before commit'
+    ],
+    topology: 'psa',
+    faults: [
+      { at: 'before-commit', members: ['mongo2'], fault: { type: 'stop' } }
+    ],
+    expected: { status: 'error', codeName: 'WriteConcernFailed' }
+  };
+}
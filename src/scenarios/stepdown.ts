@@ -0,0 +1,27 @@
+import { Config, getConfig } from '../config';
+import { Scenario } from '../types';
+import { timeouts } from './timeouts';
+
+/**
+ * Failover in the middle of a transaction: the primary steps down between
+ * the insert and the update. A single manual attempt fails with a
+ * TransientTransactionError; withTransaction and the retry policies should
+ * run the transaction again on the new primary. Use `compare` to run it
+ * under every mode.
+ */
+export function stepdownMidTransaction(config: Config = getConfig()): Scenario {
+  const base = timeouts(config);
+  return {
+    ...base,
+    name: 'stepdown-mid-transaction',
+    title: 'Stepdown Mid-Transaction',
+    description: [
+      ...base.description,
+      'The primary steps down right after the insert (failover mid-transaction)'
+    ],
+    faults: [
+      { at: 'after-insert', members: [], fault: { type: 'stepdown' } }
+    ],
+    expected: { status: 'error' }
+  };
+}
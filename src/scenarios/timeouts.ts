@@ -0,0 +1,58 @@
+import { Config, getConfig } from '../config';
+import { Scenario } from '../types';
+
+/**
+ * Regular test with every server-side timeout configured. Without a fault it
+ * commits; losing majority, stepping down or killing a member by hand should
+ * surface as an error, never a hang. Timeouts and concerns come from the
+ * config's transaction section.
+ */
+export function timeouts(config: Config = getConfig()): Scenario {
+  const { transaction } = config;
+  return {
+    name: 'timeouts',
+    title: 'Timeouts Configured',
+    description: [
+      `Write Concern Timeout: ${transaction.wtimeoutMS ?? 'none'}ms`,
+      `Max Commit Time: ${transaction.maxCommitTimeMS ?? 'none'}ms`,
+      `Operation MaxTime: ${transaction.maxTimeMS ?? 'none'}ms`
+    ],
+    collection: 'testcollection',
+    uriOptions: {},
+    transactionOptions: {
+      writeConcern: { w: transaction.w, wtimeout: transaction.wtimeoutMS, journal: transaction.journal },
+      readConcern: { level: transaction.readConcern },
+      maxCommitTimeMS: transaction.maxCommitTimeMS
+    },
+    operationMaxTimeMS: transaction.maxTimeMS,
+    uniqueTestId: true,
+    operations: [
+      { kind: 'insert' },
+      // Sleep briefly to allow time for interruptions (e.g., stepdown)
+      { kind: 'sleep', ms: 700 },
+      { kind: 'update' }
+    ],
+    expected: { status: 'committed' }
+  };
+}
+
+/**
+ * Same settings with majority lost right before commit: the commit must fail
+ * with WriteConcernFailed once wtimeout expires instead of hanging.
+ */
+export function timeoutsLoseMajority(config: Config = getConfig()): Scenario {
+  const base = timeouts(config);
+  return {
+    ...base,
+    name: 'timeouts-lose-majority',
+    title: 'Timeouts Configured - Lose Majority',
+    description: [
+      ...base.description,
+      'mongo2 and mongo3 are stopped right before commit'
+    ],
+    faults: [
+      { at: 'before-commit', members: ['mongo2', 'mongo3'], fault: { type: 'stop' } }
+    ],
+    expected: { status: 'error', codeName: 'WriteConcernFailed' }
+  };
+}
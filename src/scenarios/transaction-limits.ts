@@ -0,0 +1,103 @@
+import { Config, getConfig } from '../config';
+import { Scenario } from '../types';
+
+// What a mongod's transaction reaper needs to notice an expired transaction:
+// it runs every min(60s, limit / 2)
+export function lifetimeSleepMs(limitSeconds: number): number {
+  return (limitSeconds + Math.min(60, limitSeconds / 2) + 1) * 1000;
+}
+
+/**
+ * A transaction held open past transactionLifetimeLimitSeconds, like the
+ * batch jobs that sit on one between operations. The reaper aborts it, so
+ * the commit fails with NoSuchTransaction, labelled transient. The limit
+ * (server default 60s) is lowered for the run and restored after it.
+ */
+export function transactionLifetime(config: Config = getConfig()): Scenario {
+  const limit = config.run.transactionLifetimeLimitSeconds;
+  const { transaction } = config;
+  return {
+    name: 'transaction-lifetime',
+    title: 'Transaction Past Its Lifetime Limit',
+    description: [
+      `   transactionLifetimeLimitSeconds=${limit} on every member`,
+      `   The transaction sleeps ${lifetimeSleepMs(limit)}ms after its insert, then commits`,
+      '',
+      'Expected to fail with NoSuchTransaction (TransientTransactionError).'
+    ],
+    collection: 'testcollection_lifetime',
+    uriOptions: {},
+    transactionOptions: {
+      writeConcern: { w: transaction.w, wtimeout: transaction.wtimeoutMS },
+      readConcern: { level: transaction.readConcern }
+    },
+    serverParameters: { transactionLifetimeLimitSeconds: limit },
+    operations: [
+      { kind: 'insert' },
+      { kind: 'sleep', ms: lifetimeSleepMs(limit) }
+    ],
+    expected: { status: 'error', codeName: 'NoSuchTransaction', labels: ['TransientTransactionError'] }
+  };
+}
+
+/**
+ * About 20MB of documents in one transaction, more than a 16MB oplog entry
+ * holds. Since 4.2 a transaction spans as many oplog entries as it needs, so
+ * this is large but committable; only 4.0 fails the commit with
+ * TransactionTooLarge. The collection is dropped after the run.
+ */
+export function transactionLarge(config: Config = getConfig()): Scenario {
+  const { transaction } = config;
+  return {
+    name: 'transaction-large',
+    title: 'Transaction Over 16MB',
+    description: [
+      '   40 inserts of 512KB each into testcollection_large (about 20MB)',
+      '   No maxCommitTimeMS or maxTimeMS: writing it out takes a while',
+      '',
+      'Expected to commit on 4.2+; TransactionTooLarge on 4.0.'
+    ],
+    collection: 'testcollection_large',
+    dropCollection: true,
+    uriOptions: {},
+    transactionOptions: {
+      writeConcern: { w: transaction.w, wtimeout: transaction.wtimeoutMS },
+      readConcern: { level: transaction.readConcern }
+    },
+    operations: [
+      { kind: 'insert', count: 40, sizeBytes: 512 * 1024 }
+    ],
+    expected: { status: 'committed' }
+  };
+}
+
+/**
+ * Ten thousand writes in one transaction, in insertMany batches of 1000 and
+ * then one update of all of them, as a bulk import would. The collection is
+ * dropped after the run.
+ */
+export function transactionManyWrites(config: Config = getConfig()): Scenario {
+  const { transaction } = config;
+  return {
+    name: 'transaction-many-writes',
+    title: 'Transaction With 10000 Writes',
+    description: [
+      '   10000 inserts into testcollection_many in batches of 1000, then an update of all of them',
+      '   No maxCommitTimeMS or maxTimeMS',
+      '',
+      'Expected to commit; TransactionTooLarge on 4.0.'
+    ],
+    collection: 'testcollection_many',
+    dropCollection: true,
+    uriOptions: {},
+    transactionOptions: {
+      writeConcern: { w: transaction.w, wtimeout: transaction.wtimeoutMS },
+      readConcern: { level: transaction.readConcern }
+    },
+    operations: [
+      { kind: 'insert', count: 10000, batchSize: 1000 },
+      { kind: 'update' }
+    ],
+    expected: { status: 'committed' }
+  };
+}
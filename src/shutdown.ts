@@ -0,0 +1,156 @@
+import { MongoClient } from 'mongodb';
+import { getConfig } from './config';
+import { DriverStateTracker, InFlightCommand } from './driver-state';
+import { EventRecorder } from './event-recorder';
+import { HangDetectedError, HangWatchdog, TransactionStep } from './watchdog';
+import { printTable, rule } from './util';
+
+export type CleanupStatus = 'completed' | 'failed' | 'hung' | 'skipped';
+
+export interface CleanupResult {
+  step: 'abort' | 'end-session' | 'close' | 'heal-faults';
+  status: CleanupStatus;
+  durationMs: number;
+  /** Budget the step had; healing faults has none */
+  budgetMs?: number;
+  /** Why it was skipped, or the error it failed with */
+  detail?: string;
+}
+
+/**
+ * What was going on when SIGINT/SIGTERM arrived and how cleanup went.
+ */
+export interface ShutdownReport {
+  signal: NodeJS.Signals;
+  scenario: string;
+  testId: string;
+  /** Milliseconds from the start of the run until the signal */
+  atMs: number;
+  /** Innermost step still pending when the signal arrived */
+  inFlight?: { step: TransactionStep; pendingMs: number };
+  commands: InFlightCommand[];
+  cleanup: CleanupResult[];
+}
+
+type ShutdownHandler = (signal: NodeJS.Signals) => Promise<ShutdownReport>;
+
+let handler: ShutdownHandler | undefined;
+
+/**
+ * Register how the running scenario cleans up after a signal. Returns a
+ * function that unregisters it once the run has finished on its own.
+ */
+export function onShutdown(cleanup: ShutdownHandler): () => void {
+  handler = cleanup;
+  return () => {
+    if (handler === cleanup) {
+      handler = undefined;
+    }
+  };
+}
+
+/**
+ * Clean up the running scenario, if any. Resolves to undefined when no
+ * scenario was running (between sweep cells, before connecting, ...).
+ */
+export async function shutdown(signal: NodeJS.Signals): Promise<ShutdownReport | undefined> {
+  return handler ? handler(signal) : undefined;
+}
+
+/**
+ * Run one cleanup step against its own budget. The step is left running
+ * when it hangs, like any other step the watchdog gives up on.
+ */
+export async function cleanupStep(
+  step: 'abort' | 'end-session' | 'close',
+  budgetMs: number,
+  tracker: DriverStateTracker,
+  operation: () => Promise<unknown>
+): Promise<CleanupResult> {
+  const begun = Date.now();
+  try {
+    await new HangWatchdog(tracker, budgetMs).watch(step, operation());
+    return { step, status: 'completed', durationMs: Date.now() - begun, budgetMs };
+  } catch (error: any) {
+    const status = error instanceof HangDetectedError ? 'hung' : 'failed';
+    return { step, status, durationMs: Date.now() - begun, budgetMs, detail: error.message };
+  }
+}
+
+export function skipped(step: CleanupResult['step'], detail: string): CleanupResult {
+  return { step, status: 'skipped', durationMs: 0, detail };
+}
+
+/**
+ * What a workload command (history, load, rpc, rollback, retryable) leaves
+ * behind when a signal stops it: a client and possibly an injected fault.
+ */
+export interface WorkloadCleanup {
+  name: string;
+  testId: string;
+  startedAt: number;
+  /** Created with `monitorCommands: true` for its in-flight commands to be reported */
+  client: MongoClient;
+  recorder?: EventRecorder;
+  /** Heal the fault if it is still injected; resolves to false when none is */
+  heal: () => Promise<boolean>;
+}
+
+/**
+ * Register the shutdown handler of a workload command. Workloads run many
+ * short operations rather than one transaction, so there is nothing to
+ * abort: the client is closed within its budget and the fault healed.
+ */
+export function onWorkloadShutdown(workload: WorkloadCleanup): () => void {
+  const tracker = new DriverStateTracker();
+  tracker.attach(workload.client);
+  return onShutdown(async (signal): Promise<ShutdownReport> => {
+    const report: ShutdownReport = {
+      signal,
+      scenario: workload.name,
+      testId: workload.testId,
+      atMs: Date.now() - workload.startedAt,
+      commands: tracker.snapshot().inFlight,
+      cleanup: []
+    };
+    console.log(`\n🛑 ${signal} received, cleaning up...\n`);
+
+    report.cleanup.push(await cleanupStep('close', getConfig().run.shutdownCloseMs, tracker, () => workload.client.close()));
+    const begun = Date.now();
+    try {
+      report.cleanup.push(await workload.heal()
+        ? { step: 'heal-faults', status: 'completed', durationMs: Date.now() - begun }
+        : skipped('heal-faults', 'no fault active'));
+    } catch (error: any) {
+      report.cleanup.push({ step: 'heal-faults', status: 'failed', durationMs: Date.now() - begun, detail: error.message });
+    }
+
+    workload.recorder?.record('run', 'shutdown', { ...report });
+    await workload.recorder?.close();
+    return report;
+  });
+}
+
+export function printShutdownReport(report: ShutdownReport): void {
+  console.log('\n' + rule());
+  console.log(`🛑 ${report.signal} after ${report.atMs}ms of ${report.scenario}`);
+  console.log(rule());
+  console.log(report.inFlight
+    ? `In flight: ${report.inFlight.step}, pending for ${report.inFlight.pendingMs}ms`
+    : 'In flight: nothing (between steps)');
+  for (const command of report.commands) {
+    console.log(`  - #${command.requestId} ${command.commandName} on ${command.address}, pending ${command.pendingMs}ms`);
+  }
+  console.log('');
+  printTable(
+    ['Cleanup step', 'Status', 'Took (ms)', 'Budget (ms)', 'Detail'],
+    report.cleanup.map(result => [
+      result.step,
+      result.status,
+      String(result.durationMs),
+      result.budgetMs !== undefined ? String(result.budgetMs) : '-',
+      result.detail ?? ''
+    ])
+  );
+  console.log(rule() + '\n');
+}
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import { ConfigError } from './config';
+
+/**
+ * Records a problem with the spec's `key` unless `valid`, naming what was
+ * expected and what the spec has.
+ */
+export type Expect = (key: string, valid: boolean, expected: string) => void;
+
+export function isInteger(value: unknown, min: number): boolean {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= min;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isNonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+export function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+}
+
+/** Connection string options: strings and numbers by name */
+export function isUriOptions(value: unknown): boolean {
+  return isObject(value) && Object.values(value).every(option => typeof option === 'string' || typeof option === 'number');
+}
+
+/** Relative weights by name, each one of `names` and a number >= 0 */
+export function isMix(value: unknown, names: readonly string[]): boolean {
+  return isObject(value) && Object.entries(value).every(([name, weight]) =>
+    names.includes(name) && typeof weight === 'number' && weight >= 0);
+}
+
+/**
+ * A workload spec from a JSON file: the defaults with the file's settings
+ * on top. An unparsable file, unknown keys and every invalid value of the
+ * merged spec (through `expect`, or returned by `validate` for nested
+ * values) are reported together in one ConfigError, like the config file's
+ * problems. No file means the defaults.
+ */
+export function loadSpecFile<T extends object>(
+  file: string | undefined,
+  defaults: T,
+  validate: (spec: Record<string, unknown>, expect: Expect) => string[] | void
+): T {
+  if (!file) {
+    return defaults;
+  }
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new ConfigError([`${file}: ${err.message}`]);
+  }
+  if (!isObject(overrides)) {
+    throw new ConfigError([`${file}: expected a JSON object with the spec's settings`]);
+  }
+
+  const problems = Object.keys(overrides)
+    .filter(key => !(key in defaults))
+    .map(key => `unknown setting "${key}"`);
+  const spec: Record<string, unknown> = { ...defaults, ...overrides };
+  const other = validate(spec, (key, valid, expected) => {
+    if (!valid) {
+      problems.push(`${key}: expected ${expected}, got ${JSON.stringify(spec[key])}`);
+    }
+  });
+  problems.push(...(other ?? []));
+  if (problems.length > 0) {
+    throw new ConfigError(problems.map(problem => `${file}: ${problem}`));
+  }
+  return spec as T;
+}
@@ -0,0 +1,528 @@
+import { ClientSession, Collection, MongoClient } from 'mongodb';
+import { classifyMongoError } from './classify-error';
+import { getConfig } from './config';
+import { buildUri, dbName, DOCKER_MEMBERS, PROXY_MEMBERS, proxyUri } from './connection';
+import { DriverStateTracker } from './driver-state';
+import { FakeReplicaSet } from './fake-mongod';
+import { FaultProxy } from './fault-proxy';
+import { describeFault, FaultInjector, FaultSpec } from './faults';
+import { CleanupResult, cleanupStep, skipped } from './shutdown';
+import { getTopology, Topology } from './topologies';
+import { Scenario } from './types';
+import { formatTable, printTable, rule, sleep } from './util';
+
+type StepName = 'insert' | 'update' | 'commit' | 'abort' | 'end-session' | 'close';
+
+type StepStatus = 'pending' | 'running' | 'ok' | 'failed' | 'skipped';
+
+interface ConsoleStep {
+  name: StepName;
+  label: string;
+  status: StepStatus;
+  run: () => Promise<unknown>;
+  startedAt?: number;
+  durationMs?: number;
+  /** Error code name or category, and message, of the last attempt */
+  error?: string;
+  attempts: number;
+}
+
+/**
+ * A member as the console sees it, through a direct connection that
+ * bypasses the replica set client under test.
+ */
+interface ProbedMember {
+  name: string;
+  address: string;
+  client: MongoClient;
+  state?: string;
+  rttMs?: number;
+  error?: string;
+  probing: boolean;
+}
+
+interface ConsoleOutcome {
+  steps: ConsoleStep[];
+  cleanup: CleanupResult[];
+}
+
+type Decision = 'continue' | 'retry' | 'abort' | 'quit';
+
+const FAULT_KEYS: Record<string, FaultSpec> = {
+  s: { type: 'stop' },
+  k: { type: 'kill' },
+  p: { type: 'pause' },
+  x: { type: 'partition' },
+  d: { type: 'stepdown' }
+};
+
+const STATUS_MARKS: Record<StepStatus, string> = { pending: ' ', running: '▶', ok: '✓', failed: '✗', skipped: '-' };
+
+const REDRAW_MS = 500;
+const PROBE_MS = 1000;
+const LOG_LINES = 10;
+
+/**
+ * Drives a scenario's transaction by hand: pauses before every step
+ * (each insert/update, commit or abort, endSession, close) and takes single
+ * keystrokes to run, retry or abort it and to inject or heal faults, while
+ * redrawing each member's state and ping RTT and the client's pool and
+ * topology view. Keys keep working while a step is pending, so a hung
+ * commit can be watched and then released by healing the fault.
+ */
+class StepConsole {
+  private readonly client: MongoClient;
+  private readonly tracker = new DriverStateTracker();
+  private readonly injector: FaultInjector;
+  private readonly members: ProbedMember[];
+  private readonly startedAt = Date.now();
+  private readonly log: string[] = [];
+  private readonly targets = new Set<string>();
+  private readonly faults: { members: string[]; fault: FaultSpec }[] = [];
+  private steps: ConsoleStep[] = [];
+  private cursor = 0;
+  private session: ClientSession | null = null;
+  private decide: ((decision: Decision) => void) | null = null;
+  private quit: () => void = () => undefined;
+  private readonly quitRequested = new Promise<void>(resolve => {
+    this.quit = resolve;
+  });
+  private quitting = false;
+  private readonly testId: string;
+
+  // The fake must be listening already: its ports make up the URI
+  constructor(
+    private readonly scenario: Scenario,
+    private readonly topology: Topology | undefined,
+    private readonly fake: FakeReplicaSet | null,
+    private readonly proxy: FaultProxy | null
+  ) {
+    this.client = new MongoClient(buildUri(scenario.uriOptions, this.fake ? this.fake.uri() : this.proxy ? proxyUri() : undefined), {
+      monitorCommands: true,
+      timeoutMS: scenario.timeoutMS?.client
+    });
+    this.tracker.attach(this.client);
+    this.injector = new FaultInjector(this.client, this.proxy, this.fake);
+    this.members = this.memberAddresses().map(({ name, address }) => ({
+      name,
+      address,
+      client: new MongoClient(`mongodb://${address}/?directConnection=true`, {
+        serverSelectionTimeoutMS: PROBE_MS,
+        connectTimeoutMS: PROBE_MS,
+        socketTimeoutMS: PROBE_MS
+      }),
+      probing: false
+    }));
+    this.testId = `test-${scenario.name}-console-${Date.now()}`;
+  }
+
+  async run(): Promise<ConsoleOutcome> {
+    const input = process.stdin;
+    const onData = (data: Buffer) => {
+      for (const key of data.toString()) {
+        this.onKey(key);
+      }
+    };
+    input.setRawMode(true);
+    input.on('data', onData);
+    input.resume();
+    const redraw = setInterval(() => this.render(), REDRAW_MS);
+    const probe = setInterval(() => this.probeMembers(), PROBE_MS);
+    this.probeMembers();
+
+    let cleanup: CleanupResult[] = [];
+    try {
+      this.note('Connecting...');
+      this.render();
+      await Promise.race([this.client.connect(), this.quitRequested]);
+      if (!this.quitting) {
+        this.startTransaction();
+        await this.drive();
+      }
+    } catch (error: any) {
+      this.note(`Failed: ${error.message}`);
+    } finally {
+      cleanup = await this.cleanUp();
+      clearInterval(redraw);
+      clearInterval(probe);
+      input.off('data', onData);
+      input.setRawMode(false);
+      input.pause();
+      await Promise.race([Promise.all(this.members.map(m => m.client.close())), sleep(PROBE_MS)]);
+    }
+    return { steps: this.steps, cleanup };
+  }
+
+  private memberAddresses(): { name: string; address: string }[] {
+    if (this.fake) {
+      return this.fake.memberAddresses;
+    }
+    const names = (this.topology ?? (getTopology('pss') as Topology)).members.map(m => m.name);
+    if (this.proxy) {
+      return PROXY_MEMBERS.filter(m => names.includes(m.name)).map(m => ({ name: m.name, address: `127.0.0.1:${m.listenPort}` }));
+    }
+    return DOCKER_MEMBERS.filter(m => names.includes(m.name)).map(m => ({ name: m.name, address: m.address }));
+  }
+
+  private startTransaction(): void {
+    const { scenario } = this;
+    const db = this.client.db(dbName(), { timeoutMS: scenario.timeoutMS?.db });
+    const collection = (name: string = scenario.collection): Collection =>
+      db.collection(name, { timeoutMS: scenario.timeoutMS?.collection });
+    const session = this.client.startSession({ defaultTimeoutMS: scenario.timeoutMS?.session });
+    this.session = session;
+    session.startTransaction(scenario.transactionOptions);
+    const maxTimeMS = scenario.operationMaxTimeMS;
+
+    const step = (name: StepName, label: string, run: () => Promise<unknown>): ConsoleStep =>
+      ({ name, label, status: 'pending', run, attempts: 0 });
+    for (const operation of scenario.operations) {
+      if (operation.kind === 'insert') {
+        const { count = 1, batchSize = 1, sizeBytes, collection: name } = operation;
+        const padding = sizeBytes ? 'x'.repeat(sizeBytes) : undefined;
+        const target = collection(name);
+        this.steps.push(step('insert', `insert (${count} document${count === 1 ? '' : 's'})`, async () => {
+          for (let start = 0; start < count; start += batchSize) {
+            const batch = Array.from({ length: Math.min(batchSize, count - start) }, (_, i) =>
+              ({ testId: this.testId, operationNumber: start + i + 1, value: 'initial', timestamp: new Date(), ...(padding && { padding }) }));
+            await target.insertMany(batch, { session, maxTimeMS });
+          }
+        }));
+      } else if (operation.kind === 'update') {
+        this.steps.push(step('update', 'update', () =>
+          collection().updateMany({ testId: this.testId }, { $set: { value: 'updated', updatedAt: new Date() } }, { session, maxTimeMS })));
+      }
+      // Sleeps are what the console replaces
+    }
+    this.steps.push(
+      step('commit', 'commit', () => session.commitTransaction()),
+      step('end-session', 'endSession', () => session.endSession()),
+      step('close', 'close', () => this.client.close())
+    );
+    this.note(`Transaction started on testId ${this.testId}`);
+  }
+
+  private async drive(): Promise<void> {
+    while (this.cursor < this.steps.length && !this.quitting) {
+      const current = this.steps[this.cursor];
+      this.note(current.status === 'failed' ? `${current.label} failed: press r to retry it or c to go on` : `Paused before ${current.label}`);
+      this.render();
+      const decision = await new Promise<Decision>(resolve => {
+        this.decide = resolve;
+      });
+      this.decide = null;
+      if (decision === 'quit') {
+        return;
+      }
+      if (decision === 'abort') {
+        this.abortTransaction();
+        continue;
+      }
+      if (decision === 'continue' && current.status === 'failed') {
+        this.cursor++;
+        continue;
+      }
+      await this.runStep(current);
+      if (current.status === 'ok') {
+        this.cursor++;
+      }
+    }
+  }
+
+  private async runStep(step: ConsoleStep): Promise<void> {
+    step.status = 'running';
+    step.attempts++;
+    step.startedAt = Date.now();
+    step.durationMs = undefined;
+    step.error = undefined;
+    this.note(`Running ${step.label}${step.attempts > 1 ? ` (attempt ${step.attempts})` : ''}`);
+    this.render();
+    try {
+      await Promise.race([step.run(), this.quitRequested]);
+      if (this.quitting) {
+        step.status = 'failed';
+        step.error = 'still pending at quit';
+        return;
+      }
+      step.status = 'ok';
+      this.note(`${step.label} succeeded after ${Date.now() - step.startedAt}ms`);
+    } catch (error: any) {
+      const classified = classifyMongoError(error);
+      step.status = 'failed';
+      step.error = `${classified.codeName || classified.category}: ${error.message}`;
+      const labels = classified.labels.length ? ` [${classified.labels.join(', ')}]` : '';
+      this.note(`${step.label} failed after ${Date.now() - step.startedAt}ms: ${step.error}${labels}`);
+    } finally {
+      step.durationMs = Date.now() - step.startedAt;
+      this.render();
+    }
+  }
+
+  // Replace the transaction steps still to come with an abort
+  private abortTransaction(): void {
+    const rest = this.steps.slice(this.cursor).filter(s => s.name === 'end-session' || s.name === 'close');
+    const done = this.steps.slice(0, this.cursor);
+    for (const step of this.steps.slice(this.cursor)) {
+      if (!rest.includes(step)) {
+        step.status = 'skipped';
+        done.push(step);
+      }
+    }
+    const session = this.session as ClientSession;
+    const abort: ConsoleStep = { name: 'abort', label: 'abort', status: 'pending', run: () => session.abortTransaction(), attempts: 0 };
+    this.steps = [...done, abort, ...rest];
+    this.cursor = done.length;
+    this.note('Transaction will be aborted');
+  }
+
+  private onKey(key: string): void {
+    // Ctrl-C does not raise SIGINT in raw mode
+    if (key === 'q' || key === '\u0003') {
+      if (!this.quitting) {
+        this.quitting = true;
+        this.note('Quitting: cleaning up');
+        this.quit();
+        this.decide?.('quit');
+      }
+      return;
+    }
+    if (this.quitting) {
+      return;
+    }
+    if (key === '\r' || key === '\n' || key === 'c' || key === 'r' || key === 'a') {
+      if (!this.decide) {
+        this.note('A step is still running: heal a fault or press q');
+      } else if (key === 'r' && this.steps[this.cursor].status !== 'failed') {
+        this.note('Nothing to retry: the current step has not failed');
+      } else {
+        this.decide(key === 'r' ? 'retry' : key === 'a' ? 'abort' : 'continue');
+      }
+    } else if (/^[1-9]$/.test(key)) {
+      const member = this.members[Number(key) - 1];
+      if (member) {
+        if (!this.targets.delete(member.name)) {
+          this.targets.add(member.name);
+        }
+      }
+    } else if (FAULT_KEYS[key]) {
+      void this.inject(FAULT_KEYS[key]);
+    } else if (key === 'h') {
+      void this.healAll();
+    }
+    this.render();
+  }
+
+  private async inject(fault: FaultSpec): Promise<void> {
+    const members = fault.type === 'stepdown' ? [] : [...this.targets];
+    if (fault.type !== 'stepdown' && members.length === 0) {
+      this.note(`Choose target members with 1-${this.members.length} before injecting ${fault.type}`);
+      return;
+    }
+    const what = `${describeFault(fault)}${members.length ? ` on ${members.join(', ')}` : ''}`;
+    this.note(`Injecting ${what}...`);
+    try {
+      await this.injector.inject(members, fault);
+      if (fault.type !== 'stepdown') {
+        this.faults.push({ members, fault });
+      }
+      this.note(`Injected ${what}`);
+    } catch (error: any) {
+      this.note(`Injecting ${what} failed: ${error.message}`);
+    }
+    this.render();
+  }
+
+  private async healAll(): Promise<void> {
+    if (this.faults.length === 0) {
+      this.note('No faults to heal');
+      return;
+    }
+    // Latest first, like unwinding a stack
+    for (const { members, fault } of this.faults.splice(0).reverse()) {
+      const what = `${describeFault(fault)} on ${members.join(', ')}`;
+      try {
+        await this.injector.heal(members, fault);
+        this.note(`Healed ${what}`);
+      } catch (error: any) {
+        this.note(`Healing ${what} failed: ${error.message}`);
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * Whatever the steps left open: abort, endSession and close within the
+   * shutdown budgets, then heal every fault still active.
+   */
+  private async cleanUp(): Promise<CleanupResult[]> {
+    const { run } = getConfig();
+    const ran = (name: StepName) => this.steps.some(s => s.name === name && s.status === 'ok');
+    const results: CleanupResult[] = [];
+    const session = this.session;
+    if (session?.inTransaction()) {
+      results.push(await cleanupStep('abort', run.shutdownAbortMs, this.tracker, () => session.abortTransaction()));
+    }
+    if (session && !ran('end-session')) {
+      results.push(await cleanupStep('end-session', run.shutdownEndSessionMs, this.tracker, () => session.endSession()));
+    }
+    if (!ran('close')) {
+      results.push(await cleanupStep('close', run.shutdownCloseMs, this.tracker, () => this.client.close()));
+    }
+    if (this.faults.length === 0) {
+      results.push(skipped('heal-faults', 'no fault active'));
+    } else {
+      const begun = Date.now();
+      const failures: string[] = [];
+      for (const { members, fault } of this.faults.splice(0).reverse()) {
+        await this.injector.heal(members, fault).catch((error: Error) => failures.push(`${fault.type}: ${error.message}`));
+      }
+      results.push({
+        step: 'heal-faults',
+        status: failures.length ? 'failed' : 'completed',
+        durationMs: Date.now() - begun,
+        detail: failures.length ? failures.join('; ') : undefined
+      });
+    }
+    return results;
+  }
+
+  private probeMembers(): void {
+    for (const member of this.members) {
+      // A frozen member answers no sooner than its socket timeout; never stack probes
+      if (member.probing) {
+        continue;
+      }
+      member.probing = true;
+      const begun = Date.now();
+      member.client.db('admin').command({ hello: 1 })
+        .then(reply => {
+          member.rttMs = Date.now() - begun;
+          member.state = reply.isWritablePrimary ? 'PRIMARY' : reply.secondary ? 'SECONDARY' : reply.arbiterOnly ? 'ARBITER' : 'OTHER';
+          member.error = undefined;
+        })
+        .catch((error: Error) => {
+          member.rttMs = undefined;
+          member.state = 'unreachable';
+          member.error = error.message;
+        })
+        .finally(() => {
+          member.probing = false;
+        });
+    }
+  }
+
+  private note(message: string): void {
+    const seconds = ((Date.now() - this.startedAt) / 1000).toFixed(1).padStart(6);
+    this.log.push(`${seconds}s  ${message}`);
+    this.log.splice(0, this.log.length - LOG_LINES);
+  }
+
+  private render(): void {
+    const backend = this.fake ? 'fake replica set' : this.proxy ? 'through the fault proxy' : 'docker replica set';
+    const elapsed = ((Date.now() - this.startedAt) / 1000).toFixed(1);
+    const lines: string[] = [
+      rule(),
+      `Step console - ${this.scenario.title}`,
+      `${this.scenario.name}, ${backend}, ${elapsed}s`,
+      rule(),
+      'Steps:'
+    ];
+    for (const [i, step] of this.steps.entries()) {
+      const mark = step.status === 'pending' && i === this.cursor && !this.quitting ? '›' : STATUS_MARKS[step.status];
+      const timing = step.status === 'running' && step.startedAt !== undefined
+        ? `pending ${((Date.now() - step.startedAt) / 1000).toFixed(1)}s`
+        : step.durationMs !== undefined ? `${step.durationMs}ms` : '';
+      lines.push(`  ${mark} ${step.label.padEnd(24)} ${timing.padEnd(16)} ${step.error ?? ''}`.trimEnd());
+    }
+
+    lines.push('', `Members (targets: ${[...this.targets].join(', ') || 'none'}):`);
+    const faulted = (name: string) => this.faults.filter(f => f.members.includes(name)).map(f => describeFault(f.fault)).join(', ');
+    lines.push(...formatTable(
+      ['key', 'member', 'address', 'state', 'ping', 'fault'],
+      this.members.map((m, i) => [
+        String(i + 1),
+        `${this.targets.has(m.name) ? '*' : ' '}${m.name}`,
+        m.address,
+        m.state ?? '...',
+        m.rttMs !== undefined ? `${m.rttMs}ms` : '-',
+        faulted(m.name)
+      ])
+    ));
+
+    const { topology, pools, inFlight } = this.tracker.snapshot();
+    lines.push('', `Client (topology: ${topology?.type ?? 'unknown'}):`);
+    const addresses = [...new Set([...(topology?.servers ?? []).map(s => s.address), ...pools.map(p => p.address)])];
+    lines.push(...formatTable(
+      ['server', 'type', 'rtt', 'open', 'checked out', 'waiting', 'cleared'],
+      addresses.map(address => {
+        const server = topology?.servers.find(s => s.address === address);
+        const pool = pools.find(p => p.address === address);
+        return [
+          address,
+          server?.type ?? '-',
+          server?.roundTripTimeMs !== undefined ? `${server.roundTripTimeMs.toFixed(0)}ms` : '-',
+          String(pool?.open ?? 0),
+          String(pool?.checkedOut ?? 0),
+          String(pool?.waitingForCheckout ?? 0),
+          String(pool?.clearedCount ?? 0)
+        ];
+      })
+    ));
+    for (const command of inFlight) {
+      lines.push(`  in flight: ${command.commandName} on ${command.address} for ${(command.pendingMs / 1000).toFixed(1)}s`);
+    }
+
+    lines.push('', 'Log:', ...this.log.map(line => `  ${line}`), '');
+    lines.push('[enter/c] continue  [r] retry  [a] abort  [1-9] toggle target  [q] quit');
+    lines.push('[s] stop  [k] kill  [p] pause  [x] partition  [d] step down primary  [h] heal all');
+    process.stdout.write('\x1b[2J\x1b[H' + lines.join('\n') + '\n');
+  }
+}
+
+/**
+ * Step through a scenario's transaction by hand from the terminal. The
+ * scenario's operations, options and topology (on the fake replica set)
+ * are used; its fault timeline and sleeps are left to the keyboard.
+ * Resolves to how cleaning up whatever was left open went.
+ */
+export async function runStepConsole(scenario: Scenario): Promise<CleanupResult[]> {
+  if (!process.stdin.isTTY) {
+    throw new Error('The step console reads single keystrokes and needs an interactive terminal');
+  }
+  const topology = scenario.topology ? getTopology(scenario.topology) : undefined;
+  if (scenario.topology && !topology) {
+    throw new Error(`Unknown topology: ${scenario.topology}`);
+  }
+
+  const { mongo } = getConfig();
+  const fake = mongo.fake ? new FakeReplicaSet({ topology }) : null;
+  const proxy = !fake && mongo.proxy ? new FaultProxy(PROXY_MEMBERS) : null;
+  await fake?.start();
+  await proxy?.start();
+  let outcome: ConsoleOutcome;
+  try {
+    outcome = await new StepConsole(scenario, topology, fake, proxy).run();
+  } finally {
+    await proxy?.stop();
+    await fake?.stop();
+  }
+  const { steps, cleanup } = outcome;
+
+  console.log('');
+  console.log(rule());
+  console.log(`Step console finished: ${scenario.name}`);
+  console.log(rule());
+  printTable(
+    ['step', 'status', 'attempts', 'duration', 'error'],
+    steps.map(s => [s.label, s.status, String(s.attempts), s.durationMs !== undefined ? `${s.durationMs}ms` : '-', s.error ?? ''])
+  );
+  if (cleanup.length) {
+    console.log('');
+    console.log('Cleanup:');
+    printTable(
+      ['step', 'status', 'duration', 'detail'],
+      cleanup.map(c => [c.step, c.status, `${c.durationMs}ms`, c.detail ?? ''])
+    );
+  }
+  return cleanup;
+}
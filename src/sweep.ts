@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './config';
+import { baseUri, PROXY_MEMBERS, proxyUri } from './connection';
+import { FaultProxy } from './fault-proxy';
+import { Phase, PHASES } from './fault-timeline';
+import { waitForHealthy } from './replica-set';
+import { writeReports } from './report';
+import { describeOutcome, runScenario } from './runner';
+import { getScenario } from './scenarios';
+import { isInteger, isNonEmptyString, isStringArray, loadSpecFile } from './spec-file';
+import { RunResult, Scenario } from './types';
+import { printTable, rule } from './util';
+
+export type SweepFault = 'stop' | 'kill' | 'partition' | 'pause' | 'stepdown';
+
+const SWEEP_FAULTS: SweepFault[] = ['stop', 'kill', 'partition', 'pause', 'stepdown'];
+
+/**
+ * Axes of the sweep matrix. `null` in a timeout list means the option is
+ * left out entirely (e.g. no wtimeout), which is not the same as 0.
+ */
+export interface SweepSpec {
+  /** Scenario whose operations and collection every cell reuses */
+  base: string;
+  wtimeoutMS: Array<number | null>;
+  maxCommitTimeMS: Array<number | null>;
+  maxTimeMS: Array<number | null>;
+  socketTimeoutMS: Array<number | null>;
+  serverSelectionTimeoutMS: Array<number | null>;
+  faults: SweepFault[];
+  /** Members hit by stop/kill/partition/pause (stepdown always hits the primary) */
+  members: string[];
+  /** Phase at which the fault fires */
+  at: Phase;
+  hangAfterMs: number;
+}
+
+export const DEFAULT_SWEEP: SweepSpec = {
+  base: 'timeouts',
+  wtimeoutMS: [2000, null],
+  maxCommitTimeMS: [1500, null],
+  maxTimeMS: [1000],
+  socketTimeoutMS: [0, 30000],
+  serverSelectionTimeoutMS: [30000],
+  faults: ['stop', 'kill', 'partition', 'pause', 'stepdown'],
+  members: ['mongo2', 'mongo3'],
+  at: 'before-commit',
+  hangAfterMs: 60000
+};
+
+export interface SweepCell {
+  fault: SweepFault;
+  wtimeoutMS: number | null;
+  maxCommitTimeMS: number | null;
+  maxTimeMS: number | null;
+  socketTimeoutMS: number | null;
+  serverSelectionTimeoutMS: number | null;
+}
+
+export interface SweepCellResult {
+  cell: SweepCell;
+  /** committed, the error category, or hung@<step> */
+  outcome: string;
+  /** From the fault firing (or run start without one) to the outcome */
+  timeToOutcomeMs: number;
+  result: RunResult;
+}
+
+/**
+ * The default sweep with the file's settings on top; unknown keys and
+ * invalid values are reported together, like the config file's.
+ */
+export function loadSweepSpec(file: string | undefined): SweepSpec {
+  return loadSpecFile(file, DEFAULT_SWEEP, (spec, expect) => {
+    const axis = (value: unknown) => Array.isArray(value) && value.length > 0 &&
+      value.every(entry => entry === null || isInteger(entry, 0));
+    expect('base', isNonEmptyString(spec.base), 'a scenario name');
+    for (const key of ['wtimeoutMS', 'maxCommitTimeMS', 'maxTimeMS', 'socketTimeoutMS', 'serverSelectionTimeoutMS']) {
+      expect(key, axis(spec[key]), 'a non-empty list of integers >= 0 or null');
+    }
+    expect('faults', Array.isArray(spec.faults) && spec.faults.length > 0 &&
+      spec.faults.every(fault => SWEEP_FAULTS.includes(fault)), `a non-empty list of ${SWEEP_FAULTS.join(', ')}`);
+    expect('members', isStringArray(spec.members), 'a list of member names');
+    expect('at', PHASES.includes(spec.at as Phase), `one of ${PHASES.join(', ')}`);
+    expect('hangAfterMs', isInteger(spec.hangAfterMs, 1), 'an integer >= 1');
+  });
+}
+
+export function sweepCells(spec: SweepSpec): SweepCell[] {
+  const cells: SweepCell[] = [];
+  for (const fault of spec.faults) {
+    for (const wtimeoutMS of spec.wtimeoutMS) {
+      for (const maxCommitTimeMS of spec.maxCommitTimeMS) {
+        for (const maxTimeMS of spec.maxTimeMS) {
+          for (const socketTimeoutMS of spec.socketTimeoutMS) {
+            for (const serverSelectionTimeoutMS of spec.serverSelectionTimeoutMS) {
+              cells.push({ fault, wtimeoutMS, maxCommitTimeMS, maxTimeMS, socketTimeoutMS, serverSelectionTimeoutMS });
+            }
+          }
+        }
+      }
+    }
+  }
+  return cells;
+}
+
+function cellScenario(base: Scenario, spec: SweepSpec, cell: SweepCell, index: number): Scenario {
+  const uriOptions: Record<string, string | number> = { ...base.uriOptions };
+  delete uriOptions.socketTimeoutMS;
+  delete uriOptions.serverSelectionTimeoutMS;
+  if (cell.socketTimeoutMS !== null) {
+    uriOptions.socketTimeoutMS = cell.socketTimeoutMS;
+  }
+  if (cell.serverSelectionTimeoutMS !== null) {
+    uriOptions.serverSelectionTimeoutMS = cell.serverSelectionTimeoutMS;
+  }
+
+  return {
+    ...base,
+    name: `sweep-${index + 1}`,
+    title: `Sweep cell ${index + 1}`,
+    description: [describeCell(cell)],
+    uriOptions,
+    transactionOptions: {
+      ...base.transactionOptions,
+      writeConcern: cell.wtimeoutMS !== null
+        ? { w: 'majority', wtimeout: cell.wtimeoutMS }
+        : { w: 'majority' },
+      maxCommitTimeMS: cell.maxCommitTimeMS ?? undefined
+    },
+    operationMaxTimeMS: cell.maxTimeMS ?? undefined,
+    faults: [{
+      at: spec.at,
+      members: cell.fault === 'stepdown' ? [] : spec.members,
+      fault: { type: cell.fault }
+    }],
+    hangAfterMs: spec.hangAfterMs
+  };
+}
+
+function show(value: number | null): string {
+  return value === null ? '-' : String(value);
+}
+
+export function describeCell(cell: SweepCell): string {
+  return `fault=${cell.fault} wtimeout=${show(cell.wtimeoutMS)} maxCommitTimeMS=${show(cell.maxCommitTimeMS)} ` +
+    `maxTimeMS=${show(cell.maxTimeMS)} socketTimeoutMS=${show(cell.socketTimeoutMS)} ` +
+    `serverSelectionTimeoutMS=${show(cell.serverSelectionTimeoutMS)}`;
+}
+
+export function printSweepTable(results: SweepCellResult[]): void {
+  const header = ['#', 'fault', 'wtimeout', 'maxCommit', 'maxTime', 'socketTimeout', 'selection', 'outcome', 'time (ms)', 'durability'];
+  const rows = results.map((r, i) => [
+    String(i + 1),
+    r.cell.fault,
+    show(r.cell.wtimeoutMS),
+    show(r.cell.maxCommitTimeMS),
+    show(r.cell.maxTimeMS),
+    show(r.cell.socketTimeoutMS),
+    show(r.cell.serverSelectionTimeoutMS),
+    r.outcome,
+    String(r.timeToOutcomeMs),
+    r.result.verification?.durability ?? '-'
+  ]);
+  printTable(header, rows);
+}
+
+/**
+ * Run the base scenario once per cell of the matrix, waiting for the replica
+ * set to recover between cells, and collect outcome and time-to-outcome.
+ */
+export async function runSweep(spec: SweepSpec): Promise<SweepCellResult[]> {
+  const base = getScenario(spec.base);
+  if (!base) {
+    throw new Error(`Unknown base scenario for sweep: ${spec.base}`);
+  }
+
+  const cells = sweepCells(spec);
+  const { mongo } = getConfig();
+  const needsProxy = !mongo.fake && (mongo.proxy || spec.faults.includes('partition'));
+  const proxy = needsProxy ? new FaultProxy(PROXY_MEMBERS) : undefined;
+  const healthUri = proxy ? proxyUri() : baseUri();
+  const results: SweepCellResult[] = [];
+
+  console.log(rule());
+  console.log(`Sweep over ${cells.length} cells (base scenario: ${base.name})`);
+  console.log(rule() + '\n');
+
+  if (proxy) {
+    await proxy.start();
+  }
+
+  try {
+    for (const [index, cell] of cells.entries()) {
+      console.log(`[${index + 1}/${cells.length}] ${describeCell(cell)}`);
+      // Every run on the fake replica set starts from a fresh one
+      if (!mongo.fake) {
+        await waitForHealthy(healthUri);
+      }
+
+      // A hung cell leaves its client behind; the sweep moves on without it
+      const result = await runScenario(cellScenario(base, spec, cell, index), { proxy });
+      const faultAtMs = result.faults.find(f => f.action === 'inject')?.atMs ?? 0;
+      results.push({
+        cell,
+        outcome: describeOutcome(result),
+        timeToOutcomeMs: result.outcomeAtMs - faultAtMs,
+        result
+      });
+    }
+  } finally {
+    if (proxy) {
+      await proxy.stop();
+    }
+  }
+
+  fs.mkdirSync(getConfig().run.eventsDir, { recursive: true });
+  const file = path.join(getConfig().run.eventsDir, `sweep-${Date.now()}.json`);
+  fs.writeFileSync(file, JSON.stringify({ spec, results }, null, 2));
+  const reports = writeReports(
+    file.replace(/\.json$/, ''),
+    `Sweep of ${spec.base}`,
+    results.map(({ cell, result }) => ({ label: describeCell(cell), result }))
+  );
+
+  console.log(rule());
+  console.log('Sweep results');
+  console.log(rule());
+  printSweepTable(results);
+  console.log(`\nFull results written to ${file}`);
+  console.log(`Reports: ${reports.join(', ')}`);
+
+  return results;
+}
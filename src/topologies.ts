@@ -0,0 +1,120 @@
+/**
+ * One member of a topology. Settings left out use the server defaults
+ * (priority 1, votes 1, visible, no delay).
+ */
+export interface MemberSpec {
+  /** Compose service name, e.g. mongo2 */
+  name: string;
+  arbiter?: boolean;
+  priority?: number;
+  votes?: 0 | 1;
+  hidden?: boolean;
+  /** Apply oplog entries this many seconds late (hidden members only) */
+  secondaryDelaySecs?: number;
+}
+
+export interface Topology {
+  name: string;
+  description: string;
+  members: MemberSpec[];
+}
+
+/**
+ * Named topologies for `rs init` / `rs apply` and Scenario.topology. A member
+ * can only become (or stop being) an arbiter on fresh volumes, so switching
+ * between pss and psa needs `docker compose down -v` and `rs init`.
+ */
+export const TOPOLOGIES: Topology[] = [
+  {
+    name: 'pss',
+    description: 'Primary and two secondaries; mongo1 preferred as primary (the default)',
+    members: [
+      { name: 'mongo1', priority: 1 },
+      { name: 'mongo2', priority: 0.5 },
+      { name: 'mongo3', priority: 0.5 }
+    ]
+  },
+  {
+    name: 'psa',
+    description: 'Primary, secondary and arbiter: losing one data-bearing member blocks majority writes',
+    members: [
+      { name: 'mongo1', priority: 1 },
+      { name: 'mongo2', priority: 0.5 },
+      { name: 'mongo3', arbiter: true }
+    ]
+  },
+  {
+    name: 'pss-hidden',
+    description: 'mongo3 hidden: it votes and acknowledges writes but serves no reads',
+    members: [
+      { name: 'mongo1', priority: 1 },
+      { name: 'mongo2', priority: 0.5 },
+      { name: 'mongo3', priority: 0, hidden: true }
+    ]
+  },
+  {
+    name: 'pss-delayed',
+    description: 'mongo3 hidden and delayed by 60s: majority acknowledgment depends on mongo2',
+    members: [
+      { name: 'mongo1', priority: 1 },
+      { name: 'mongo2', priority: 0.5 },
+      { name: 'mongo3', priority: 0, hidden: true, secondaryDelaySecs: 60 }
+    ]
+  },
+  {
+    name: 'pss-non-voting',
+    description: 'mongo3 non-voting: two votes, so losing either voter leaves no primary',
+    members: [
+      { name: 'mongo1', priority: 1 },
+      { name: 'mongo2', priority: 0.5 },
+      { name: 'mongo3', priority: 0, votes: 0 }
+    ]
+  },
+  {
+    name: 'pssss',
+    description: 'Five data-bearing members (needs docker compose --profile extra up -d)',
+    members: [
+      { name: 'mongo1', priority: 1 },
+      { name: 'mongo2', priority: 0.5 },
+      { name: 'mongo3', priority: 0.5 },
+      { name: 'mongo4', priority: 0.5 },
+      { name: 'mongo5', priority: 0.5 }
+    ]
+  }
+];
+
+export function getTopology(name: string): Topology | undefined {
+  return TOPOLOGIES.find(topology => topology.name === name);
+}
+
+/**
+ * Problems the server would reject the topology for, checked up front so a
+ * bad topology fails before anything is reconfigured.
+ */
+export function validateTopology(topology: Topology): string[] {
+  const problems: string[] = [];
+  const names = topology.members.map(m => m.name);
+
+  if (new Set(names).size !== names.length) {
+    problems.push('a member is listed twice');
+  }
+  if (topology.members.filter(m => (m.votes ?? 1) === 1).length > 7) {
+    problems.push('at most 7 members can vote');
+  }
+  if (!topology.members.some(m => !m.arbiter && (m.priority ?? 1) > 0 && (m.votes ?? 1) === 1)) {
+    problems.push('no member can become primary');
+  }
+  for (const member of topology.members) {
+    const priority = member.priority ?? 1;
+    if (member.arbiter && (member.hidden || member.secondaryDelaySecs || member.priority)) {
+      problems.push(`${member.name}: an arbiter cannot have priority, hidden or secondaryDelaySecs`);
+    }
+    if ((member.hidden || member.votes === 0) && priority !== 0) {
+      problems.push(`${member.name}: hidden and non-voting members need priority 0`);
+    }
+    if (member.secondaryDelaySecs && !member.hidden) {
+      problems.push(`${member.name}: delayed members must be hidden`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,147 @@
+import { ClientSession, TransactionOptions } from 'mongodb';
+import { classifyMongoError, ErrorClassification } from './classify-error';
+import { sleep } from './util';
+
+export interface RetryPolicy {
+  name: string;
+  /** Retry the whole transaction on TransientTransactionError */
+  retryTransaction: boolean;
+  /** Retry only commitTransaction on UnknownTransactionCommitResult */
+  retryCommit: boolean;
+  /** Attempts per kind (transaction, commit), including the first */
+  maxAttempts: number;
+  /** Capped exponential backoff between attempts */
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffMultiplier: number;
+  /** Randomize each delay between 0 and the computed backoff */
+  jitter: boolean;
+  /** No new attempt starts once this much time has passed since the first */
+  deadlineMs: number;
+}
+
+export const RETRY_POLICIES: RetryPolicy[] = [
+  {
+    name: 'conservative',
+    retryTransaction: true,
+    retryCommit: true,
+    maxAttempts: 3,
+    initialBackoffMs: 100,
+    maxBackoffMs: 1000,
+    backoffMultiplier: 2,
+    jitter: true,
+    deadlineMs: 10000
+  },
+  {
+    name: 'aggressive',
+    retryTransaction: true,
+    retryCommit: true,
+    maxAttempts: 10,
+    initialBackoffMs: 50,
+    maxBackoffMs: 2000,
+    backoffMultiplier: 2,
+    jitter: true,
+    deadlineMs: 60000
+  },
+  {
+    name: 'commit-only',
+    retryTransaction: false,
+    retryCommit: true,
+    maxAttempts: 5,
+    initialBackoffMs: 100,
+    maxBackoffMs: 2000,
+    backoffMultiplier: 2,
+    jitter: false,
+    deadlineMs: 30000
+  }
+];
+
+export function getRetryPolicy(name: string): RetryPolicy | undefined {
+  return RETRY_POLICIES.find(policy => policy.name === name);
+}
+
+export interface RetryEvent {
+  kind: 'transaction' | 'commit';
+  /** The attempt about to start (2 for the first retry) */
+  attempt: number;
+  delayMs: number;
+  error: ErrorClassification;
+}
+
+export function backoffDelay(policy: RetryPolicy, retry: number): number {
+  const capped = Math.min(policy.maxBackoffMs, policy.initialBackoffMs * Math.pow(policy.backoffMultiplier, retry - 1));
+  return policy.jitter ? Math.floor(Math.random() * capped) : capped;
+}
+
+/**
+ * Run `body` in a transaction on `session` and commit it, retrying as the
+ * policy allows: the whole transaction on TransientTransactionError, only
+ * the commit on UnknownTransactionCommitResult. Gives up with the last error
+ * once attempts or the deadline run out.
+ */
+export async function runTransactionWithRetry<T>(
+  session: ClientSession,
+  body: (session: ClientSession) => Promise<T>,
+  policy: RetryPolicy,
+  transactionOptions?: TransactionOptions,
+  onRetry: (event: RetryEvent) => void = () => {}
+): Promise<T> {
+  const deadline = Date.now() + policy.deadlineMs;
+
+  // Sleep before the next attempt, or report that no attempt is left
+  const canRetry = async (kind: RetryEvent['kind'], attempt: number, error: ErrorClassification): Promise<boolean> => {
+    if (attempt >= policy.maxAttempts) {
+      return false;
+    }
+    const delayMs = backoffDelay(policy, attempt);
+    if (Date.now() + delayMs >= deadline) {
+      return false;
+    }
+    onRetry({ kind, attempt: attempt + 1, delayMs, error });
+    await sleep(delayMs);
+    return true;
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    session.startTransaction(transactionOptions);
+
+    let value: T;
+    try {
+      value = await body(session);
+    } catch (error: any) {
+      if (session.inTransaction()) {
+        await session.abortTransaction().catch(() => undefined);
+      }
+      const classified = classifyMongoError(error);
+      if (policy.retryTransaction && classified.retryable === 'transaction' &&
+          await canRetry('transaction', attempt, classified)) {
+        continue;
+      }
+      throw error;
+    }
+
+    let retryWholeTransaction = false;
+    for (let commitAttempt = 1; ; commitAttempt++) {
+      try {
+        await session.commitTransaction();
+        return value;
+      } catch (error: any) {
+        const classified = classifyMongoError(error);
+        if (policy.retryCommit && classified.retryable === 'commit' &&
+            await canRetry('commit', commitAttempt, classified)) {
+          continue;
+        }
+        if (policy.retryTransaction && classified.retryable === 'transaction' &&
+            await canRetry('transaction', attempt, classified)) {
+          retryWholeTransaction = true;
+          break;
+        }
+        throw error;
+      }
+    }
+
+    if (!retryWholeTransaction) {
+      return value;
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type { TransactionOptions } from 'mongodb';
+import type { ErrorCategory, ErrorClassification } from './classify-error';
+import type { FaultEvent, FaultStep } from './fault-timeline';
+import type { RetryPolicy } from './transaction-retry';
+import type { CommitVerification } from './verify-commit';
+import type { Config } from './config';
+import type { HangReport, TransactionStep } from './watchdog';
+
+/**
+ * A single step performed inside the scenario's transaction.
+ *
+ * - insert:    insert `count` documents (default 1) tagged with the run's testId,
+ *              one at a time or in insertMany batches of `batchSize`, each
+ *              padded to about `sizeBytes`, into `collection` (default the
+ *              scenario's; another one starts the transaction's snapshot elsewhere)
+ * - update:    update the documents tagged with the run's testId
+ * - sleep:     wait between operations (e.g. to leave room for a stepdown)
+ */
+export type Operation =
+  | { kind: 'insert'; count?: number; batchSize?: number; sizeBytes?: number; collection?: string }
+  | { kind: 'update' }
+  | { kind: 'sleep'; ms: number };
+
+/**
+ * What a scenario is expected to end with when its fault is applied.
+ * `hung` means a step stays pending until the hang watchdog fires.
+ */
+export type ExpectedOutcome =
+  | { status: 'committed' }
+  | { status: 'error'; codeName?: string; category?: ErrorCategory; labels?: string[] }
+  | { status: 'hung' };
+
+/**
+ * How the transaction is driven:
+ * - manual:           startTransaction/commitTransaction once, no retries
+ * - with-transaction: the driver's session.withTransaction() and its built-in retries
+ * - retry:            runTransactionWithRetry() with an explicit policy
+ */
+export type TransactionMode =
+  | { type: 'manual' }
+  | { type: 'with-transaction' }
+  | { type: 'retry'; policy: RetryPolicy };
+
+/**
+ * Client-side operation timeouts (CSOT, the driver's timeoutMS) per level.
+ * A level left out inherits from the one above it.
+ */
+export interface ClientTimeouts {
+  client?: number;
+  db?: number;
+  collection?: number;
+  /** defaultTimeoutMS of the session, covering the transaction's operations and commit */
+  session?: number;
+}
+
+export interface Scenario {
+  name: string;
+  title: string;
+  /** Lines printed in the banner before the run starts */
+  description: string[];
+  collection: string;
+  /** Query string options appended to the base replica set URI */
+  uriOptions: Record<string, string | number>;
+  transactionOptions: TransactionOptions;
+  /** maxTimeMS applied to every insert/update; omitted means no limit */
+  operationMaxTimeMS?: number;
+  /** Create a unique index on testId before the run */
+  uniqueTestId?: boolean;
+  /** Documents inserted with the run's testId before the transaction starts, for its updates to match */
+  seed?: number;
+  /** Drop the collection after the run, so a large one does not weigh on later runs */
+  dropCollection?: boolean;
+  operations: Operation[];
+  /** Client-side timeoutMS levels; omitted means only server-side limits apply */
+  timeoutMS?: ClientTimeouts;
+  /** Cancel the transaction through an AbortSignal once it has run this long */
+  deadlineMs?: number;
+  /** How the transaction is started, committed and retried (default manual) */
+  mode?: TransactionMode;
+  /** Topology (see src/topologies.ts) applied before the run and restored after it */
+  topology?: string;
+  /** setParameter on every member before the run, restored after it */
+  serverParameters?: Record<string, number>;
+  /** Faults fired at transaction phases; none means the run is fault-free */
+  faults?: FaultStep[];
+  /** Declare the run hung once a step is pending this long (default HANG_AFTER_MS) */
+  hangAfterMs?: number;
+  /** Re-read the documents after the run to check durability (default true) */
+  verify?: boolean;
+  expected: ExpectedOutcome;
+}
+
+/**
+ * How long one awaited step took. Steps nest: a transaction step contains
+ * its inserts, updates and commits.
+ */
+export interface PhaseTiming {
+  step: TransactionStep;
+  /** Milliseconds from the start of the run */
+  startedAtMs: number;
+  durationMs: number;
+  outcome: 'ok' | 'failed' | 'hung';
+}
+
+export interface RunResult {
+  scenario: string;
+  testId: string;
+  status: 'committed' | 'error' | 'hung';
+  expected: ExpectedOutcome;
+  /** manual, with-transaction or retry:<policy> */
+  mode: string;
+  /** Times the transaction body ran (1 unless the whole transaction was retried) */
+  attempts: number;
+  /** commitTransaction commands sent, including driver and policy retries */
+  commitCommands: number;
+  error?: ErrorClassification;
+  hang?: HangReport;
+  /** What a majority read found once the replica set recovered */
+  verification?: CommitVerification;
+  /** Whether the session was ended and the client closed; after a hang, once the faults were healed */
+  cleanup: { sessionEnded: boolean; clientClosed: boolean };
+  /** Milliseconds from start until the outcome was known (before cleanup) */
+  outcomeAtMs: number;
+  durationMs: number;
+  /** Every awaited step in the order it finished */
+  phases: PhaseTiming[];
+  faults: FaultEvent[];
+  /** Connection string and settings the run used */
+  uri: string;
+  config: Config;
+  /** NDJSON timeline of driver events, steps and faults */
+  eventsFile: string;
+  /** Scenario, config and timeline to run it again with `scenario replay` */
+  replayFile: string;
+}
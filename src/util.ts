@@ -0,0 +1,27 @@
+export async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function rule(): string {
+  return '='.repeat(60);
+}
+
+/**
+ * Rows as a Markdown table, each column padded to its widest cell.
+ */
+export function formatTable(header: string[], rows: string[][]): string[] {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => '| ' + cells.map((c, i) => c.padEnd(widths[i])).join(' | ') + ' |';
+
+  return [
+    line(header),
+    '|' + widths.map(w => '-'.repeat(w + 2)).join('|') + '|',
+    ...rows.map(line)
+  ];
+}
+
+export function printTable(header: string[], rows: string[][]): void {
+  for (const line of formatTable(header, rows)) {
+    console.log(line);
+  }
+}
@@ -0,0 +1,137 @@
+import { Document, MongoClient } from 'mongodb';
+import { getConfig } from './config';
+import { dbName } from './connection';
+import { waitForHealthy } from './replica-set';
+import { RunResult, Scenario } from './types';
+import { rule } from './util';
+
+/**
+ * What actually happened to the transaction, as opposed to what the client saw:
+ * - error-committed:     the client got an error (or hung) but the data is there
+ * - error-not-committed: the client got an error (or hung) and the data is absent
+ * - success-rolled-back: the commit was acknowledged but the data is gone
+ * - success-durable:     the commit was acknowledged and the data is there
+ * - unverified:          the replica set did not recover, so nothing could be read
+ */
+export type CommitDurability =
+  | 'error-committed'
+  | 'error-not-committed'
+  | 'success-rolled-back'
+  | 'success-durable'
+  | 'unverified';
+
+export interface CommitVerification {
+  durability: CommitDurability;
+  expectedDocuments: number;
+  foundDocuments: number;
+  /** Documents carrying the update, when the scenario updates */
+  updatedDocuments?: number;
+  /** Documents seeded before the transaction, which it may only have updated */
+  seededDocuments?: number;
+  /** Some, but not all, of the transaction's own documents are visible */
+  partial?: boolean;
+  /** Why the run could not be verified */
+  reason?: string;
+}
+
+// Only what went into the scenario's collection is read back
+function expectedDocuments(scenario: Scenario): number {
+  return scenario.operations.reduce((total, op) =>
+    total + (op.kind === 'insert' && (op.collection ?? scenario.collection) === scenario.collection ? op.count ?? 1 : 0), 0);
+}
+
+// Documents the transaction itself wrote: operationNumber restarts with every
+// insert, so each number may be claimed once per insert that reached it
+function ownDocuments(scenario: Scenario, documents: Document[]): number {
+  const slots = new Map<unknown, number>();
+  for (const op of scenario.operations) {
+    if (op.kind === 'insert' && (op.collection ?? scenario.collection) === scenario.collection) {
+      for (let i = 1; i <= (op.count ?? 1); i++) {
+        slots.set(i, (slots.get(i) ?? 0) + 1);
+      }
+    }
+  }
+  return documents.filter(doc => {
+    const left = slots.get(doc.operationNumber) ?? 0;
+    slots.set(doc.operationNumber, left - 1);
+    return left > 0;
+  }).length;
+}
+
+/**
+ * Once the topology is healthy again, read the run's documents with
+ * majority read concern and compare with what the client was told.
+ */
+export async function verifyCommit(
+  uri: string,
+  scenario: Scenario,
+  result: Pick<RunResult, 'testId' | 'status'>
+): Promise<CommitVerification> {
+  const expected = expectedDocuments(scenario);
+  const updates = scenario.operations.some(op => op.kind === 'update');
+  const acknowledged = result.status === 'committed';
+
+  try {
+    await waitForHealthy(uri, getConfig().run.verifyHealthyTimeoutMs);
+  } catch (err: any) {
+    return { durability: 'unverified', expectedDocuments: expected, foundDocuments: 0, reason: err.message };
+  }
+
+  const client = new MongoClient(uri, { readConcern: { level: 'majority' }, readPreference: 'primary' });
+  try {
+    const collection = client.db(dbName()).collection(scenario.collection);
+    const all = await collection.find({ testId: result.testId }).toArray();
+    const documents = all.filter(doc => !doc.seeded);
+    const seeded = all.length - documents.length;
+    // Seeded documents were there all along; only the update on them is the transaction's
+    const committed = documents.length > 0 || (updates && all.some(doc => doc.seeded && doc.value === 'updated'));
+
+    let durability: CommitDurability;
+    if (acknowledged) {
+      durability = committed ? 'success-durable' : 'success-rolled-back';
+    } else {
+      durability = committed ? 'error-committed' : 'error-not-committed';
+    }
+
+    return {
+      durability,
+      expectedDocuments: expected,
+      foundDocuments: documents.length,
+      partial: committed && documents.length < expected && ownDocuments(scenario, documents) === documents.length,
+      updatedDocuments: updates ? all.filter(doc => doc.value === 'updated').length : undefined,
+      seededDocuments: seeded > 0 ? seeded : undefined
+    };
+  } catch (err: any) {
+    return { durability: 'unverified', expectedDocuments: expected, foundDocuments: 0, reason: err.message };
+  } finally {
+    await client.close();
+  }
+}
+
+export function printVerification(verification: CommitVerification): void {
+  console.log(rule());
+  console.log(`Commit verification: ${verification.durability}`);
+  if (verification.reason) {
+    console.log(`   Could not verify: ${verification.reason}`);
+  } else {
+    console.log(`   Documents found (majority read): ${verification.foundDocuments}/${verification.expectedDocuments}`);
+    if (verification.seededDocuments !== undefined) {
+      console.log(`   Seeded documents: ${verification.seededDocuments}`);
+    }
+    if (verification.updatedDocuments !== undefined) {
+      const total = verification.foundDocuments + (verification.seededDocuments ?? 0);
+      console.log(`   Documents carrying the update: ${verification.updatedDocuments}/${total}`);
+    }
+    if (verification.partial) {
+      console.log('   ⚠️  Partial transaction visible - atomicity violated');
+    } else if (verification.foundDocuments > 0 && verification.foundDocuments !== verification.expectedDocuments) {
+      console.log('   ⚠️  Document count mismatch - not a subset of what the transaction wrote');
+    }
+  }
+  if (verification.durability === 'error-committed') {
+    console.log('   ⚠️  The client saw a failure but the transaction IS durable');
+  } else if (verification.durability === 'success-rolled-back') {
+    console.log('   ⚠️  The client saw success but the transaction was rolled back');
+  }
+  console.log(rule() + '\n');
+}
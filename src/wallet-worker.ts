@@ -0,0 +1,116 @@
+import RPC from '@hyperswarm/rpc';
+import DHT from 'hyperdht';
+import { MongoClient, ObjectId } from 'mongodb';
+import { classifyMongoError } from './classify-error';
+import { dbName } from './connection';
+import { sleep } from './util';
+
+export type WalletMethod = 'addWallet' | 'getWallet' | 'listWallets';
+
+export const WALLET_METHODS: WalletMethod[] = ['addWallet', 'getWallet', 'listWallets'];
+
+/**
+ * One RPC handler invocation on the worker. `rid` is the caller's request
+ * id, sent in the payload so both ends of a call can be matched up.
+ */
+export interface HandlerRecord {
+  rid: number;
+  method: WalletMethod;
+  startedAtMs: number;
+  endedAtMs?: number;
+  /** Error code name or category the handler failed with */
+  error?: string;
+}
+
+/**
+ * A stand-in for the production data worker: answers addWallet, getWallet
+ * and listWallets over @hyperswarm/rpc from the replica set, with the same
+ * payload shapes, and records every handler it runs.
+ */
+export class WalletWorker {
+  readonly handlers: HandlerRecord[] = [];
+  readonly client: MongoClient;
+  /** Checkouts waiting for a connection, and the most at once */
+  poolQueued = 0;
+  private readonly rpc: RPC;
+  private server?: ReturnType<RPC['createServer']>;
+
+  constructor(
+    dht: DHT,
+    uri: string,
+    private readonly collectionName: string,
+    private readonly since: () => number
+  ) {
+    this.rpc = new RPC({ dht });
+    this.client = new MongoClient(uri, { monitorCommands: true });
+    this.client.on('connectionCheckOutStarted', () => this.poolQueued++);
+    this.client.on('connectionCheckedOut', () => this.poolQueued--);
+    this.client.on('connectionCheckOutFailed', () => this.poolQueued--);
+  }
+
+  get publicKey(): Buffer {
+    if (!this.server) {
+      throw new Error('The wallet worker is not listening');
+    }
+    return this.server.publicKey;
+  }
+
+  async start(): Promise<void> {
+    await this.client.connect();
+    const server = this.rpc.createServer();
+    for (const method of WALLET_METHODS) {
+      server.respond(method, request => this.handle(method, request));
+    }
+    await server.listen();
+    this.server = server;
+  }
+
+  running(): HandlerRecord[] {
+    return this.handlers.filter(h => h.endedAtMs === undefined);
+  }
+
+  /**
+   * Stop listening and close the client. Handlers stuck on a hung operation
+   * keep the client from closing, so closing gets its own budget.
+   */
+  async stop(closeBudgetMs: number): Promise<boolean> {
+    await this.server?.close().catch(() => undefined);
+    const closed = await Promise.race([this.client.close().then(() => true), sleep(closeBudgetMs).then(() => false)]);
+    await this.rpc.destroy({ force: true });
+    return closed;
+  }
+
+  private async handle(method: WalletMethod, request: Buffer): Promise<Buffer> {
+    const payload = JSON.parse(request.toString());
+    const record: HandlerRecord = { rid: payload.rid, method, startedAtMs: this.since() };
+    this.handlers.push(record);
+    try {
+      const result = await this[method](payload);
+      return Buffer.from(JSON.stringify(result));
+    } catch (error: any) {
+      const classified = classifyMongoError(error);
+      record.error = classified.codeName || classified.category;
+      throw error;
+    } finally {
+      record.endedAtMs = this.since();
+    }
+  }
+
+  private get wallets() {
+    return this.client.db(dbName()).collection(this.collectionName);
+  }
+
+  private async addWallet(payload: { userId: string; wallets: Record<string, unknown>[] }): Promise<unknown[]> {
+    const created = payload.wallets.map(wallet => ({ ...wallet, id: new ObjectId().toHexString(), userId: payload.userId, createdAt: new Date() }));
+    await this.wallets.insertMany(created.map(wallet => ({ ...wallet })));
+    return created;
+  }
+
+  private async getWallet(payload: { id: string }): Promise<unknown> {
+    return this.wallets.findOne({ id: payload.id }, { projection: { _id: 0 } });
+  }
+
+  private async listWallets(payload: { userId: string }): Promise<{ wallets: unknown[] }> {
+    return { wallets: await this.wallets.find({ userId: payload.userId }, { projection: { _id: 0 } }).toArray() };
+  }
+}
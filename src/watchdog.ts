@@ -0,0 +1,156 @@
+import { getConfig } from './config';
+import { DriverSnapshot, DriverStateTracker } from './driver-state';
+import { rule } from './util';
+
+/**
+ * Awaited steps of a run, in the order they normally happen.
+ */
+export type TransactionStep =
+  | 'connect'
+  | 'transaction'
+  | 'insert'
+  | 'update'
+  | 'commit'
+  | 'abort'
+  | 'end-session'
+  | 'close';
+
+export interface HangReport {
+  step: TransactionStep;
+  pendingMs: number;
+  driver: DriverSnapshot;
+}
+
+/**
+ * Thrown in place of a step's result once it has been pending too long.
+ * The step itself is left running; the caller should not wait for it.
+ */
+export class HangDetectedError extends Error {
+  constructor(readonly report: HangReport) {
+    super(`${report.step} pending for ${report.pendingMs}ms`);
+    this.name = 'HangDetectedError';
+  }
+}
+
+function age(date: Date | undefined, now: number): string {
+  return date ? `${now - date.getTime()}ms ago` : 'never';
+}
+
+export function printHangReport(report: HangReport): void {
+  const { driver } = report;
+  const now = Date.now();
+
+  console.error('\n' + rule());
+  console.error(`⏳ HUNG: ${report.step} pending for ${report.pendingMs}ms`);
+  console.error(rule());
+
+  console.error('Topology:');
+  if (driver.topology) {
+    console.error(`  ${driver.topology.type}${driver.topology.setName ? ` (${driver.topology.setName})` : ''}`);
+    for (const server of driver.topology.servers) {
+      const rtt = server.roundTripTimeMs !== undefined ? `, rtt ${server.roundTripTimeMs}ms` : '';
+      console.error(`  - ${server.address}: ${server.type}${rtt}${server.error ? `, error: ${server.error}` : ''}`);
+    }
+  } else {
+    console.error('  (no topology description received)');
+  }
+
+  console.error('Connection pools:');
+  if (driver.pools.length === 0) {
+    console.error('  (none)');
+  }
+  for (const pool of driver.pools) {
+    console.error(
+      `  - ${pool.address}: ${pool.open} open, ${pool.checkedOut} checked out, ` +
+      `${pool.waitingForCheckout} waiting, ${pool.checkOutFailures} check-out failures, ` +
+      `cleared ${pool.clearedCount}x (last ${age(pool.lastClearedAt, now)})`
+    );
+  }
+
+  console.error('In-flight commands:');
+  if (driver.inFlight.length === 0) {
+    console.error('  (none)');
+  }
+  for (const command of driver.inFlight) {
+    console.error(`  - #${command.requestId} ${command.commandName} on ${command.address} (${command.databaseName}), pending ${command.pendingMs}ms`);
+  }
+
+  console.error('Last heartbeats:');
+  if (driver.heartbeats.length === 0) {
+    console.error('  (none)');
+  }
+  for (const heartbeat of driver.heartbeats) {
+    const error = heartbeat.lastError ? `, last error: ${heartbeat.lastError}` : '';
+    console.error(
+      `  - ${heartbeat.address}: succeeded ${age(heartbeat.lastSucceededAt, now)}, ` +
+      `failed ${age(heartbeat.lastFailedAt, now)}${error}`
+    );
+  }
+  console.error(rule() + '\n');
+}
+
+interface PendingStep {
+  step: TransactionStep;
+  startedAt: number;
+}
+
+/**
+ * Races each awaited step against a threshold. Turns "stuck until Ctrl+C"
+ * into a HangDetectedError carrying a diagnostic report. Steps may nest
+ * (insert inside transaction); the report names the innermost pending one.
+ */
+export class HangWatchdog {
+  private pending: PendingStep[] = [];
+
+  constructor(
+    private readonly tracker: DriverStateTracker,
+    private readonly hangAfterMs: number = getConfig().run.hangAfterMs
+  ) {}
+
+  /**
+   * The innermost step still pending, including one already reported as hung.
+   */
+  current(): { step: TransactionStep; pendingMs: number } | undefined {
+    const entry = this.pending[this.pending.length - 1];
+    return entry && { step: entry.step, pendingMs: Date.now() - entry.startedAt };
+  }
+
+  watch<T>(step: TransactionStep, operation: Promise<T>): Promise<T> {
+    const entry: PendingStep = { step, startedAt: Date.now() };
+    this.pending.push(entry);
+    let timer: NodeJS.Timeout | undefined;
+    const done = (): void => {
+      clearTimeout(timer);
+      this.pending = this.pending.filter(e => e !== entry);
+    };
+
+    return new Promise<T>((resolve, reject) => {
+      const expire = (): void => {
+        // Timers may fire a millisecond early by the wall clock; never report less than hangAfterMs
+        const remainingMs = entry.startedAt + this.hangAfterMs - Date.now();
+        if (remainingMs > 0) {
+          timer = setTimeout(expire, remainingMs);
+          return;
+        }
+        const stuck = this.pending[this.pending.length - 1] ?? entry;
+        reject(new HangDetectedError({
+          step: stuck.step,
+          pendingMs: Date.now() - stuck.startedAt,
+          driver: this.tracker.snapshot()
+        }));
+      };
+      timer = setTimeout(expire, this.hangAfterMs);
+
+      operation.then(
+        value => {
+          done();
+          resolve(value);
+        },
+        error => {
+          done();
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import { BSON, Document } from 'mongodb';
+
+// Opcodes the fake server understands; see the MongoDB wire protocol spec
+export const OP_REPLY = 1;
+export const OP_QUERY = 2004;
+export const OP_MSG = 2013;
+
+const HEADER_SIZE = 16;
+
+// OP_MSG flag bits
+const CHECKSUM_PRESENT = 1 << 0;
+const MORE_TO_COME = 1 << 1;
+
+/**
+ * One decoded request. Document sequences (OP_MSG kind 1 sections, e.g.
+ * `documents` of an insert) are merged into `command` under their identifier.
+ */
+export interface WireRequest {
+  requestId: number;
+  opCode: typeof OP_MSG | typeof OP_QUERY;
+  command: Document;
+  /** The client expects no reply (OP_MSG moreToCome, e.g. w:0 writes) */
+  noReply: boolean;
+}
+
+/**
+ * Splits a byte stream into complete messages. Feed it every chunk read
+ * from a socket; each call returns the requests completed so far.
+ */
+export class MessageReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): WireRequest[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+    const requests: WireRequest[] = [];
+
+    while (this.buffer.length >= 4) {
+      const length = this.buffer.readInt32LE(0);
+      if (length < HEADER_SIZE) {
+        throw new Error(`Invalid message length ${length}`);
+      }
+      if (this.buffer.length < length) {
+        break;
+      }
+      requests.push(decode(this.buffer.subarray(0, length)));
+      this.buffer = this.buffer.subarray(length);
+    }
+    return requests;
+  }
+}
+
+function readCString(buffer: Buffer, offset: number): [string, number] {
+  const end = buffer.indexOf(0, offset);
+  return [buffer.toString('utf8', offset, end), end + 1];
+}
+
+function decode(message: Buffer): WireRequest {
+  const requestId = message.readInt32LE(4);
+  const opCode = message.readInt32LE(12);
+
+  if (opCode === OP_QUERY) {
+    // flags, fullCollectionName, numberToSkip, numberToReturn, query
+    const [, offset] = readCString(message, HEADER_SIZE + 4);
+    const size = message.readInt32LE(offset + 8);
+    const command = BSON.deserialize(message.subarray(offset + 8, offset + 8 + size));
+    return { requestId, opCode, command, noReply: false };
+  }
+
+  if (opCode !== OP_MSG) {
+    throw new Error(`Unsupported opcode ${opCode}`);
+  }
+
+  const flags = message.readUInt32LE(HEADER_SIZE);
+  const end = message.length - (flags & CHECKSUM_PRESENT ? 4 : 0);
+  let offset = HEADER_SIZE + 4;
+  let command: Document = {};
+  const sequences: Record<string, Document[]> = {};
+
+  while (offset < end) {
+    const kind = message.readUInt8(offset++);
+    const size = message.readInt32LE(offset);
+    if (kind === 0) {
+      command = BSON.deserialize(message.subarray(offset, offset + size));
+    } else {
+      const [identifier, start] = readCString(message, offset + 4);
+      const documents: Document[] = [];
+      for (let at = start; at < offset + size; at += message.readInt32LE(at)) {
+        documents.push(BSON.deserialize(message.subarray(at, at + message.readInt32LE(at))));
+      }
+      sequences[identifier] = documents;
+    }
+    offset += size;
+  }
+
+  return { requestId, opCode, command: { ...command, ...sequences }, noReply: (flags & MORE_TO_COME) !== 0 };
+}
+
+let nextRequestId = 1;
+
+function header(length: number, responseTo: number, opCode: number): Buffer {
+  const buffer = Buffer.alloc(HEADER_SIZE);
+  buffer.writeInt32LE(length, 0);
+  buffer.writeInt32LE(nextRequestId++ & 0x7fffffff, 4);
+  buffer.writeInt32LE(responseTo, 8);
+  buffer.writeInt32LE(opCode, 12);
+  return buffer;
+}
+
+/**
+ * Encode `reply` in the format the request came in: OP_MSG for OP_MSG
+ * requests, OP_REPLY for the legacy OP_QUERY handshake.
+ */
+export function encodeReply(request: WireRequest, reply: Document): Buffer {
+  const body = BSON.serialize(reply);
+
+  if (request.opCode === OP_QUERY) {
+    // responseFlags, cursorID, startingFrom, numberReturned
+    const fields = Buffer.alloc(20);
+    fields.writeInt32LE(1, 16);
+    const length = HEADER_SIZE + fields.length + body.length;
+    return Buffer.concat([header(length, request.requestId, OP_REPLY), fields, body]);
+  }
+
+  // flagBits, then a single kind 0 section
+  const fields = Buffer.alloc(5);
+  const length = HEADER_SIZE + fields.length + body.length;
+  return Buffer.concat([header(length, request.requestId, OP_MSG), fields, body]);
+}
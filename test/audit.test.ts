@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AuditFinding, AuditOptions, auditSettings } from '../src/audit';
+
+const URI = 'mongodb://mongo1:27017,mongo2:27017,mongo3:27017/?replicaSet=rs0';
+
+// What the repro itself runs with: every wait has a limit
+const BOUNDED: AuditOptions = {
+  transaction: { writeConcern: { w: 'majority', wtimeoutMS: 2000 }, maxCommitTimeMS: 1500 },
+  operation: { maxTimeMS: 1000 }
+};
+
+function findings(uri: string, options: AuditOptions): Record<string, AuditFinding['severity']> {
+  return Object.fromEntries(auditSettings(uri, options).map(finding => [finding.id, finding.severity]));
+}
+
+test('audit: driver defaults leave every wait unbounded', () => {
+  assert.deepEqual(findings(URI, {}), {
+    'infinite-socket-timeout': 'unbounded',
+    'missing-wtimeout': 'unbounded',
+    'missing-max-commit-time': 'unbounded',
+    'missing-operation-time-limit': 'unbounded'
+  });
+  const [socket] = auditSettings(URI, {});
+  assert.equal(socket.setting, 'socketTimeoutMS=0 (default)');
+  assert.equal(socket.scenario, 'pause-primary');
+});
+
+test('audit: bounded settings have no findings', () => {
+  assert.deepEqual(findings(`${URI}&socketTimeoutMS=5000`, BOUNDED), {});
+});
+
+test('audit: timeoutMS anywhere bounds everything, unless it is 0', () => {
+  assert.deepEqual(findings(`${URI}&timeoutMS=5000`, {}), {});
+  assert.deepEqual(findings(URI, { session: { defaultTimeoutMS: 5000 } }), {});
+  assert.deepEqual(findings(URI, { operation: { timeoutMS: 5000 } }), {});
+  assert.equal(Object.keys(findings(`${URI}&timeoutMS=0`, {})).length, 4);
+});
+
+test('audit: a write concern without wtimeout is long, not unbounded', () => {
+  const options: AuditOptions = { ...BOUNDED, transaction: { ...BOUNDED.transaction, writeConcern: { w: 'majority' } } };
+  assert.deepEqual(findings(`${URI}&socketTimeoutMS=5000`, options), { 'missing-wtimeout': 'long' });
+});
+
+test('audit: w:1 waits for no replication', () => {
+  const options: AuditOptions = { ...BOUNDED, transaction: { ...BOUNDED.transaction, writeConcern: { w: 1 } } };
+  assert.deepEqual(findings(`${URI}&socketTimeoutMS=5000`, options), {});
+});
+
+test('audit: session defaults count when the transaction sets nothing', () => {
+  const options: AuditOptions = {
+    session: { defaultTransactionOptions: BOUNDED.transaction },
+    operation: BOUNDED.operation
+  };
+  assert.deepEqual(findings(`${URI}&socketTimeoutMS=5000`, options), {});
+});
+
+test('audit: a connection-string write concern is used when the options set none', () => {
+  const options: AuditOptions = { transaction: { maxCommitTimeMS: 1500 }, operation: { maxTimeMS: 1000 } };
+  assert.deepEqual(findings(`${URI}&socketTimeoutMS=5000&w=majority&wtimeoutMS=2000`, options), {});
+  assert.deepEqual(findings(`${URI}&socketTimeoutMS=5000&w=majority`, options), { 'missing-wtimeout': 'long' });
+});
+
+test('audit: a long server selection timeout is flagged', () => {
+  assert.deepEqual(findings(`${URI}&socketTimeoutMS=5000&serverSelectionTimeoutMS=120000`, BOUNDED), {
+    'long-server-selection': 'long'
+  });
+  assert.deepEqual(findings(`${URI}&socketTimeoutMS=5000&serverSelectionTimeoutMS=60000`, BOUNDED), {});
+});
@@ -0,0 +1,46 @@
+import os from 'os';
+import path from 'path';
+import { MongoClient } from 'mongodb';
+import { initConfig } from '../src/config';
+import { baseUri } from '../src/connection';
+
+export type Backend = 'fake' | 'docker';
+
+// Test settings per backend, applied unless the environment sets them. The
+// Docker hang threshold is long enough for the primary to notice lost members.
+const DEFAULTS: Record<Backend, Record<string, string>> = {
+  fake: { HANG_AFTER_MS: '5000', CLIENT_TIMEOUT_MS: '1000', DEADLINE_MS: '3000', CLEANUP_TIMEOUT_MS: '2000' },
+  docker: { HANG_AFTER_MS: '30000', CLIENT_TIMEOUT_MS: '1000', DEADLINE_MS: '3000', CLEANUP_TIMEOUT_MS: '5000' }
+};
+
+async function dockerReachable(): Promise<boolean> {
+  const client = new MongoClient(baseUri(), { serverSelectionTimeoutMS: 2000 });
+  try {
+    await client.db('admin').command({ ping: 1 });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Pick the backend and load the config for it: TEST_BACKEND=fake|docker,
+ * otherwise the Docker replica set when it answers and the fake when not.
+ */
+export async function selectBackend(): Promise<Backend> {
+  const requested = process.env.TEST_BACKEND;
+  if (requested !== undefined && requested !== 'fake' && requested !== 'docker') {
+    throw new Error(`TEST_BACKEND must be fake or docker, got ${requested}`);
+  }
+  const backend: Backend = requested ?? (await dockerReachable() ? 'docker' : 'fake');
+
+  for (const [name, value] of Object.entries(DEFAULTS[backend])) {
+    process.env[name] = process.env[name] ?? value;
+  }
+  process.env.MONGO_FAKE = backend === 'fake' ? '1' : '0';
+  process.env.EVENTS_DIR = process.env.EVENTS_DIR ?? path.join(os.tmpdir(), 'mongo-repro-test-runs');
+  initConfig([]);
+  return backend;
+}
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { checkLinearizable, checkTransactions, RegisterValue } from '../src/checkers';
+import { History, TxnMicroOp } from '../src/history';
+
+// Sequential register operations, one process after the other
+function sequential(history: History, ops: ['read' | 'write', RegisterValue][]): void {
+  ops.forEach(([f, value], i) => {
+    const invocation = history.invoke(i % 3, f, f === 'read' ? null : value);
+    history.ok(invocation, value);
+  });
+}
+
+function txn(key: number, first: RegisterValue, second: RegisterValue, written: number): { invoke: TxnMicroOp[]; ok: TxnMicroOp[] } {
+  return {
+    invoke: [['r', key, null], ['r', key, null], ['w', key, written]],
+    ok: [['r', key, first], ['r', key, second], ['w', key, written]]
+  };
+}
+
+test('linearizable: concurrent operations that can be ordered', () => {
+  const history = new History();
+  sequential(history, [['write', 1]]);
+  const write = history.invoke(0, 'write', 2);
+  const read = history.invoke(1, 'read', null);
+  const cas = history.invoke(2, 'cas', [2, 3]);
+  history.ok(read, 1);
+  history.ok(write);
+  history.ok(cas);
+  sequential(history, [['read', 3]]);
+
+  const result = checkLinearizable(history.ops);
+  assert.equal(result.valid, true);
+  assert.equal(result.operations, 5);
+  assert.equal(result.indeterminate, 0);
+  assert.equal(result.failure, undefined);
+});
+
+test('linearizable: a stale read after an acknowledged write', () => {
+  const history = new History();
+  sequential(history, [['write', 1], ['write', 2], ['read', 1]]);
+
+  const result = checkLinearizable(history.ops);
+  assert.equal(result.valid, false);
+  assert.equal(result.failure?.linearized, 2);
+  assert.equal(result.failure?.value, 2);
+  assert.deepEqual(result.failure?.candidates.map(c => [c.index, c.f, c.value, c.type]), [[4, 'read', 1, 'ok']]);
+});
+
+test('linearizable: a lost cas update', () => {
+  const history = new History();
+  sequential(history, [['write', 0]]);
+  const first = history.invoke(0, 'cas', [0, 1]);
+  const second = history.invoke(1, 'cas', [0, 2]);
+  history.ok(first);
+  history.ok(second);
+
+  assert.equal(checkLinearizable(history.ops).valid, false);
+});
+
+test('linearizable: a cas that failed certainly did not apply', () => {
+  const history = new History();
+  sequential(history, [['write', 0]]);
+  history.fail(history.invoke(0, 'cas', [1, 2]), 'no match');
+  sequential(history, [['read', 0]]);
+
+  const result = checkLinearizable(history.ops);
+  assert.equal(result.valid, true);
+  assert.equal(result.operations, 2);
+});
+
+test('linearizable: an indeterminate write may or may not take effect', () => {
+  const took = new History();
+  sequential(took, [['write', 1]]);
+  took.info(took.invoke(0, 'write', 2), 'network-timeout');
+  sequential(took, [['read', 2]]);
+  const result = checkLinearizable(took.ops);
+  assert.equal(result.valid, true);
+  assert.equal(result.indeterminate, 1);
+
+  const never = new History();
+  sequential(never, [['write', 1]]);
+  never.info(never.invoke(0, 'write', 2), 'network-timeout');
+  sequential(never, [['read', 1], ['read', 1]]);
+  assert.equal(checkLinearizable(never.ops).valid, true);
+
+  // Once a read saw it, it cannot be undone
+  const flapping = new History();
+  sequential(flapping, [['write', 1]]);
+  flapping.info(flapping.invoke(0, 'write', 2), 'network-timeout');
+  sequential(flapping, [['read', 2], ['read', 1]]);
+  assert.equal(checkLinearizable(flapping.ops).valid, false);
+});
+
+test('linearizable: an operation still pending at the end counts as indeterminate', () => {
+  const history = new History();
+  sequential(history, [['write', 1]]);
+  history.invoke(9, 'write', 2);
+  sequential(history, [['read', 2]]);
+
+  const result = checkLinearizable(history.ops);
+  assert.equal(result.valid, true);
+  assert.equal(result.indeterminate, 1);
+});
+
+test('linearizable: reports unknown once the state budget runs out', () => {
+  const history = new History();
+  const pending = [0, 1, 2, 3].map(process => history.invoke(process, 'write', process));
+  pending.forEach(invocation => history.ok(invocation));
+  sequential(history, [['read', 7]]);
+
+  const result = checkLinearizable(history.ops, null, 3);
+  assert.equal(result.valid, 'unknown');
+  assert.equal(result.statesExplored, 4);
+  assert.equal(checkLinearizable(history.ops).valid, false);
+});
+
+test('linearizable: a long history does not overflow the stack', () => {
+  const valid = new History();
+  sequential(valid, Array.from({ length: 50000 }, (_, i) => [i % 2 === 0 ? 'write' : 'read', Math.floor(i / 2) % 5] as ['read' | 'write', number]));
+  const result = checkLinearizable(valid.ops);
+  assert.equal(result.valid, true);
+  assert.equal(result.operations, 50000);
+
+  const stale = new History();
+  sequential(stale, Array.from({ length: 50000 }, (_, i) => [i % 2 === 0 ? 'write' : 'read', i === 49999 ? 0 : Math.floor(i / 2) % 5] as ['read' | 'write', number]));
+  const failed = checkLinearizable(stale.ops);
+  assert.equal(failed.valid, false);
+  assert.equal(failed.failure?.linearized, 49999);
+});
+
+test('transactions: serial read-modify-writes are valid', () => {
+  const history = new History();
+  const first = txn(0, null, null, 1);
+  history.ok(history.invoke(0, 'txn', first.invoke), first.ok);
+  const second = txn(0, 1, 1, 2);
+  history.ok(history.invoke(1, 'txn', second.invoke), second.ok);
+
+  assert.deepEqual(checkTransactions(history.ops), {
+    valid: true,
+    committed: 2,
+    committedIndeterminate: 0,
+    indeterminate: 0,
+    failed: 0,
+    anomalies: []
+  });
+});
+
+test('transactions: a lost update', () => {
+  const history = new History();
+  const first = txn(0, null, null, 1);
+  const second = txn(0, null, null, 2);
+  const a = history.invoke(0, 'txn', first.invoke);
+  const b = history.invoke(1, 'txn', second.invoke);
+  history.ok(a, first.ok);
+  history.ok(b, second.ok);
+
+  const result = checkTransactions(history.ops);
+  assert.equal(result.valid, false);
+  assert.deepEqual(result.anomalies.map(a => [a.type, a.key, a.ops]), [['lost-update', 0, [0, 1]]]);
+});
+
+test('transactions: a read of an aborted write', () => {
+  const history = new History();
+  const aborted = txn(1, null, null, 5);
+  history.fail(history.invoke(0, 'txn', aborted.invoke), 'WriteConflict');
+  const reader = txn(1, 5, 5, 6);
+  history.ok(history.invoke(1, 'txn', reader.invoke), reader.ok);
+
+  const result = checkTransactions(history.ops);
+  assert.equal(result.failed, 1);
+  // Both reads saw it
+  assert.deepEqual(result.anomalies.map(a => [a.type, a.key, a.ops]), [['aborted-read', 1, [2, 0]], ['aborted-read', 1, [2, 0]]]);
+  assert.match(result.anomalies[0].detail, /WriteConflict/);
+});
+
+test('transactions: a non-repeatable read', () => {
+  const history = new History();
+  const reader = txn(0, 1, 2, 3);
+  history.ok(history.invoke(0, 'txn', reader.invoke), reader.ok);
+
+  const result = checkTransactions(history.ops);
+  assert.deepEqual(result.anomalies.map(a => [a.type, a.detail]), [['non-repeatable-read', 'read 1 then 2 in the same transaction']]);
+});
+
+test('transactions: an indeterminate commit whose write was read committed', () => {
+  const history = new History();
+  const unknown = txn(0, null, null, 1);
+  history.info(history.invoke(0, 'txn', unknown.invoke), 'UnknownTransactionCommitResult');
+  const reader = txn(0, 1, 1, 2);
+  history.ok(history.invoke(1, 'txn', reader.invoke), reader.ok);
+  const unseen = txn(1, null, null, 3);
+  history.info(history.invoke(2, 'txn', unseen.invoke), 'network-timeout');
+
+  const result = checkTransactions(history.ops);
+  assert.equal(result.valid, true);
+  assert.equal(result.indeterminate, 2);
+  assert.equal(result.committedIndeterminate, 1);
+});
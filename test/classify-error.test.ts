@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  MongoNetworkError,
+  MongoNetworkTimeoutError,
+  MongoOperationTimeoutError,
+  MongoServerError,
+  MongoServerSelectionError
+} from 'mongodb';
+import { classifyMongoError, ErrorClassification } from '../src/classify-error';
+import { DeadlineExceededError } from '../src/deadline';
+
+function serverError(code: number, codeName: string, labels: string[] = []): MongoServerError {
+  return new MongoServerError({ ok: 0, code, codeName, errmsg: codeName, errorLabels: labels });
+}
+
+// The driver copies the code of the last server error the topology saw
+function selectionError(code: number, codeName: string): MongoServerSelectionError {
+  const topology = Object.assign(Object.create(null), { error: serverError(code, codeName) });
+  return new MongoServerSelectionError('no primary', topology);
+}
+
+function labelled<T extends MongoNetworkError>(error: T, ...labels: string[]): T {
+  labels.forEach(label => error.addErrorLabel(label));
+  return error;
+}
+
+const CASES: { name: string; error: unknown; expected: Partial<ErrorClassification> }[] = [
+  {
+    name: 'NotWritablePrimary',
+    error: serverError(10107, 'NotWritablePrimary', ['RetryableWriteError']),
+    expected: { category: 'not-writable-primary', codeName: 'NotWritablePrimary', retryable: 'write', commitOutcomeKnown: true }
+  },
+  {
+    name: 'NotWritablePrimary inside a transaction',
+    error: serverError(10107, 'NotWritablePrimary', ['TransientTransactionError']),
+    expected: { category: 'not-writable-primary', retryable: 'transaction', commitOutcomeKnown: true }
+  },
+  {
+    name: 'UnknownTransactionCommitResult on a known code',
+    error: serverError(64, 'WriteConcernFailed', ['UnknownTransactionCommitResult']),
+    expected: { category: 'write-concern-failed', retryable: 'commit', commitOutcomeKnown: false }
+  },
+  {
+    name: 'UnknownTransactionCommitResult on an unknown code',
+    error: serverError(9999, 'SomethingNew', ['UnknownTransactionCommitResult']),
+    expected: { category: 'unknown-commit-result', codeName: 'SomethingNew', retryable: 'commit', commitOutcomeKnown: false }
+  },
+  {
+    name: 'MaxTimeMSExpired from the server',
+    error: serverError(50, 'MaxTimeMSExpired'),
+    expected: { category: 'max-time-expired', code: 50, retryable: 'none', commitOutcomeKnown: true }
+  },
+  {
+    name: 'client-side timeoutMS',
+    error: new MongoOperationTimeoutError('Timed out during operation execution'),
+    expected: { category: 'client-timeout', code: undefined, codeName: undefined, retryable: 'none' }
+  },
+  {
+    name: 'network error without labels',
+    error: new MongoNetworkError('connection closed'),
+    expected: { category: 'network', labels: [], retryable: 'none', commitOutcomeKnown: true }
+  },
+  {
+    name: 'network error with RetryableWriteError',
+    error: labelled(new MongoNetworkError('connection closed'), 'RetryableWriteError'),
+    expected: { category: 'network', labels: ['RetryableWriteError'], retryable: 'write' }
+  },
+  {
+    name: 'network timeout during commit',
+    error: labelled(new MongoNetworkTimeoutError('socket timed out'), 'UnknownTransactionCommitResult'),
+    expected: { category: 'network-timeout', retryable: 'commit', commitOutcomeKnown: false }
+  },
+  {
+    name: 'server selection carrying an earlier code',
+    error: selectionError(10107, 'NotWritablePrimary'),
+    expected: { category: 'server-selection', code: 10107, retryable: 'none' }
+  },
+  {
+    name: 'deadline passed during commit',
+    error: new DeadlineExceededError(3000, 'commit'),
+    expected: { category: 'deadline-exceeded', commitOutcomeKnown: false }
+  },
+  {
+    name: 'deadline passed during an insert',
+    error: new DeadlineExceededError(3000, 'insert'),
+    expected: { category: 'deadline-exceeded', commitOutcomeKnown: true }
+  },
+  {
+    name: 'anything else',
+    error: new Error('boom'),
+    expected: { category: 'other', name: 'Error', message: 'boom', labels: [], retryable: 'none' }
+  }
+];
+
+for (const { name, error, expected } of CASES) {
+  test(`classifyMongoError: ${name}`, () => {
+    const classified = classifyMongoError(error);
+    for (const [key, value] of Object.entries(expected)) {
+      assert.deepEqual(classified[key as keyof ErrorClassification], value, key);
+    }
+  });
+}
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, test } from 'node:test';
+import { ConfigError, loadConfig } from '../src/config';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mongo-repro-config-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+function configFile(contents: unknown): string {
+  const file = path.join(dir, `config-${++files}.json`);
+  fs.writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents));
+  return file;
+}
+
+// Loads with an explicit file so a repro.config.json in the working directory never leaks in
+function problems(contents: unknown, env: NodeJS.ProcessEnv = {}, flags: Record<string, string> = {}): string[] {
+  const file = configFile(contents);
+  try {
+    loadConfig({ config: file, ...flags }, env);
+  } catch (err) {
+    assert.ok(err instanceof ConfigError, `expected a ConfigError, got ${err}`);
+    return err.problems.map(problem => problem.replace(file, '<file>'));
+  }
+  assert.fail('expected the config to be rejected');
+}
+
+test('config: a valid file overrides defaults and records its source', () => {
+  const file = configFile({ transaction: { maxCommitTimeMS: 2500 }, driver: { retryWrites: false } });
+  const { config, sources } = loadConfig({ config: file }, {});
+  assert.equal(config.transaction.maxCommitTimeMS, 2500);
+  assert.equal(config.driver.retryWrites, false);
+  assert.equal(config.transaction.maxTimeMS, 1000);
+  assert.equal(sources['transaction.maxCommitTimeMS'], 'file');
+  assert.equal(sources['transaction.maxTimeMS'], 'default');
+});
+
+test('config: unknown sections and keys are rejected', () => {
+  assert.deepEqual(problems({ mongoo: {}, driver: { socketTimeoutMs: 100 } }), [
+    '<file>: unknown section "mongoo"',
+    '<file>: unknown setting "driver.socketTimeoutMs"'
+  ]);
+});
+
+test('config: a file that is not a JSON object is rejected', () => {
+  assert.deepEqual(problems('[]'), ['<file>: expected a JSON object with mongo/driver/transaction/run sections']);
+  const [malformed] = problems('{ "run": ');
+  assert.match(malformed, /^<file>: .*JSON/);
+});
+
+test('config: wrong types are rejected', () => {
+  assert.deepEqual(problems({
+    mongo: { proxy: 'yes', uri: 'http://localhost', hosts: ['mongo1'] },
+    transaction: { readConcern: 'strong', w: 'all' }
+  }), [
+    '<file> mongo.proxy: expected true/false/1/0, got "yes"',
+    '<file> mongo.uri: expected a mongodb:// or mongodb+srv:// connection string, got "http://localhost"',
+    '<file> mongo.hosts: expected host:port entries, got ["mongo1"]',
+    '<file> transaction.readConcern: expected one of local, available, majority, linearizable, snapshot, got "strong"',
+    '<file> transaction.w: expected an integer >= 0, got "all"'
+  ]);
+});
+
+test('config: out-of-range timeouts are rejected', () => {
+  assert.deepEqual(problems({
+    driver: { socketTimeoutMS: -1, heartbeatFrequencyMS: 0 },
+    transaction: { maxCommitTimeMS: 1.5 },
+    run: { hangAfterMs: '10s' }
+  }), [
+    '<file> driver.socketTimeoutMS: expected an integer >= 0, got -1',
+    '<file> driver.heartbeatFrequencyMS: expected an integer >= 1, got 0',
+    '<file> transaction.maxCommitTimeMS: expected an integer >= 1, got 1.5',
+    '<file> run.hangAfterMs: expected an integer >= 1, got "10s"'
+  ]);
+});
+
+test('config: pool sizes are checked against each other', () => {
+  assert.deepEqual(problems({ driver: { minPoolSize: 10, maxPoolSize: 5 } }), [
+    'minPoolSize (10) is larger than maxPoolSize (5)'
+  ]);
+});
+
+test('config: the environment overrides the file and flags override both', () => {
+  const file = configFile({ transaction: { maxTimeMS: 2000 }, run: { deadlineMs: 20000 } });
+  const { config, sources } = loadConfig({ config: file, deadline: '30000' }, { OP_MAXTIME_MS: '3000', DEADLINE_MS: '25000' });
+  assert.equal(config.transaction.maxTimeMS, 3000);
+  assert.equal(sources['transaction.maxTimeMS'], 'env');
+  assert.equal(config.run.deadlineMs, 30000);
+  assert.equal(sources['run.deadlineMs'], 'flag');
+});
+
+test('config: invalid environment values and unknown flags are named', () => {
+  assert.deepEqual(problems({}, { OP_MAXTIME_MS: '0', MONGO_RETRY_WRITES: 'maybe' }, { 'max-commit': '100' }), [
+    'MONGO_RETRY_WRITES: expected true/false/1/0, got "maybe"',
+    'OP_MAXTIME_MS: expected an integer >= 1, got "0"',
+    '--max-commit: unknown option'
+  ]);
+});
+
+test('config: every problem is reported in one error', () => {
+  const file = configFile({ run: { cleanupTimeoutMs: 0 }, extra: {} });
+  assert.throws(() => loadConfig({ config: file }, { HANG_AFTER_MS: 'soon' }), (err: unknown) => {
+    assert.ok(err instanceof ConfigError);
+    assert.equal(err.problems.length, 3);
+    assert.match(err.message, /^Invalid configuration:\n {2}- /);
+    return true;
+  });
+});
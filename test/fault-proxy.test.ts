@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import net from 'net';
+import { after, afterEach, before, test } from 'node:test';
+import { ActiveFault, FaultProxy } from '../src/fault-proxy';
+import { sleep } from '../src/util';
+
+// Long enough that a reply held by a fault is noticed on a busy machine
+const QUIET_MS = 300;
+
+let echo: net.Server;
+let proxy: FaultProxy;
+let proxyPort: number;
+// Closed on the echo server's side, i.e. by the proxy towards the member
+let memberSideClosed = 0;
+const sockets: net.Socket[] = [];
+const memberSockets = new Set<net.Socket>();
+
+function listen(server: net.Server, port = 0): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+  });
+}
+
+function close(server: net.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+function connect(): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(proxyPort, '127.0.0.1', () => resolve(socket));
+    socket.once('error', reject);
+    sockets.push(socket);
+  });
+}
+
+// Resolves with the first `length` bytes the socket receives
+function receive(socket: net.Socket, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let received = Buffer.alloc(0);
+    const onData = (chunk: Buffer): void => {
+      received = Buffer.concat([received, chunk]);
+      if (received.length >= length) {
+        socket.off('data', onData);
+        resolve(received);
+      }
+    };
+    socket.on('data', onData);
+    socket.once('error', reject);
+    socket.once('close', () => reject(new Error(`closed after ${received.length} of ${length} bytes`)));
+  });
+}
+
+function closed(socket: net.Socket): Promise<void> {
+  socket.on('error', () => {});
+  return new Promise(resolve => socket.once('close', () => resolve()));
+}
+
+async function roundTrip(socket: net.Socket, message: string): Promise<{ reply: string; ms: number }> {
+  const startedAt = Date.now();
+  const reply = receive(socket, message.length);
+  socket.write(message);
+  return { reply: (await reply).toString(), ms: Date.now() - startedAt };
+}
+
+// Whether `promise` settles within `ms`
+async function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  promise.catch(() => {});
+  return Promise.race([promise.then(() => true, () => true), sleep(ms).then(() => false)]);
+}
+
+before(async () => {
+  echo = net.createServer(socket => {
+    socket.on('error', () => {});
+    memberSockets.add(socket);
+    socket.on('close', () => {
+      memberSideClosed++;
+      memberSockets.delete(socket);
+    });
+    socket.pipe(socket);
+  });
+  const echoPort = await listen(echo);
+
+  // The proxy takes its listen port up front, so borrow a free one
+  const probe = net.createServer();
+  proxyPort = await listen(probe);
+  await close(probe);
+
+  proxy = new FaultProxy([{ name: 'mongo1', listenHost: '127.0.0.1', listenPort: proxyPort, targetHost: '127.0.0.1', targetPort: echoPort }]);
+  await proxy.start();
+});
+
+afterEach(async () => {
+  proxy.heal();
+  for (const socket of sockets.splice(0)) {
+    socket.destroy();
+  }
+  // Start the next test without links left over from this one
+  while (memberSockets.size > 0) {
+    await sleep(10);
+  }
+});
+
+after(async () => {
+  await proxy.stop();
+  await close(echo);
+});
+
+test('fault proxy: forwards both ways without a fault', async () => {
+  const socket = await connect();
+  assert.equal((await roundTrip(socket, 'hello')).reply, 'hello');
+});
+
+test('fault proxy: blackhole holds bytes until healed, then delivers them', async () => {
+  const socket = await connect();
+  const fault = proxy.inject('mongo1', { type: 'blackhole' });
+  const reply = roundTrip(socket, 'held');
+
+  assert.equal(await settlesWithin(reply, QUIET_MS), false);
+  proxy.remove(fault);
+  assert.equal((await reply).reply, 'held');
+  assert.deepEqual(proxy.activeFaults(), []);
+});
+
+test('fault proxy: latency delays each direction', async () => {
+  const socket = await connect();
+  proxy.inject('mongo1', { type: 'latency', ms: 150 });
+  const { reply, ms } = await roundTrip(socket, 'slow');
+  assert.equal(reply, 'slow');
+  // 150ms on the way to the member and 150ms on the way back
+  assert.ok(ms >= 290, `round trip took ${ms}ms`);
+});
+
+test('fault proxy: reset tears down existing and new connections', async () => {
+  const existing = await connect();
+  const existingClosed = closed(existing);
+  proxy.inject('mongo1', { type: 'reset' });
+  await existingClosed;
+
+  const fresh = net.connect(proxyPort, '127.0.0.1');
+  sockets.push(fresh);
+  await closed(fresh);
+});
+
+test('fault proxy: throttle forwards at most bytesPerSecond', async () => {
+  const socket = await connect();
+  // Inbound only: 500 bytes to the member in 100 byte slices 100ms apart, the echo back at full speed
+  proxy.inject('mongo1', { type: 'throttle', bytesPerSecond: 1000 }, 'inbound');
+  const message = 'x'.repeat(500);
+  const { reply, ms } = await roundTrip(socket, message);
+  assert.equal(reply, message);
+  assert.ok(ms >= 390, `500 bytes at 1000 bytes/s took ${ms}ms`);
+});
+
+test('fault proxy: half-open drops the member side and leaves the client hanging', async () => {
+  const socket = await connect();
+  assert.equal((await roundTrip(socket, 'before')).reply, 'before');
+  const closedBefore = memberSideClosed;
+  let clientClosed = false;
+  socket.once('close', () => { clientClosed = true; });
+
+  proxy.inject('mongo1', { type: 'half-open' }, 'inbound');
+  const reply = roundTrip(socket, 'lost');
+  assert.equal(await settlesWithin(reply, QUIET_MS), false);
+  assert.equal(memberSideClosed, closedBefore + 1);
+  assert.equal(clientClosed, false);
+});
+
+test('fault proxy: healing one fault by its handle leaves the others on the link', async () => {
+  const socket = await connect();
+  const healed: ActiveFault[] = [];
+  const onHeal = (faults: ActiveFault[]): void => { healed.push(...faults); };
+  proxy.on('heal', onHeal);
+  const latency = proxy.inject('mongo1', { type: 'latency', ms: 150 });
+  const blackhole = proxy.inject('mongo1', { type: 'blackhole' });
+  const reply = roundTrip(socket, 'both');
+
+  assert.equal(await settlesWithin(reply, QUIET_MS), false);
+  proxy.remove(blackhole);
+  assert.deepEqual(healed, [blackhole]);
+  assert.deepEqual(proxy.activeFaults(), [latency]);
+
+  const { reply: echoed } = await reply;
+  assert.equal(echoed, 'both');
+  // The latency fault is still there for the next round trip
+  const { ms } = await roundTrip(socket, 'again');
+  assert.ok(ms >= 290, `round trip took ${ms}ms`);
+
+  // Removing a fault twice is a no-op
+  proxy.remove(blackhole);
+  assert.deepEqual(proxy.activeFaults(), [latency]);
+  proxy.off('heal', onHeal);
+});
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import { FaultStep, FaultTimeline } from '../src/fault-timeline';
+import { FaultInjector, FaultSpec } from '../src/faults';
+import { sleep } from '../src/util';
+
+// Records what the timeline asks for instead of touching a replica set
+class RecordingInjector {
+  readonly calls: string[] = [];
+
+  async inject(members: string[], fault: FaultSpec): Promise<void> {
+    this.calls.push(`inject ${fault.type} ${members.join('+')}`);
+  }
+
+  async heal(members: string[], fault: FaultSpec): Promise<void> {
+    this.calls.push(`heal ${fault.type} ${members.join('+')}`);
+  }
+}
+
+let injector: RecordingInjector;
+let logged: string[];
+
+beforeEach(() => {
+  injector = new RecordingInjector();
+  logged = [];
+  mock.method(console, 'log', (line: string) => logged.push(line.trim()));
+});
+
+afterEach(() => mock.restoreAll());
+
+function timeline(steps: FaultStep[]): FaultTimeline {
+  return new FaultTimeline(steps, injector as unknown as FaultInjector, Date.now());
+}
+
+test('fault timeline: each step fires at its own phase, once', async () => {
+  const faults = timeline([
+    { at: 'before-commit', members: ['mongo2', 'mongo3'], fault: { type: 'pause' } },
+    { at: 'after-insert', members: ['mongo2'], fault: { type: 'stop' } },
+    { at: 'after-insert', members: ['mongo3'], fault: { type: 'kill' } }
+  ]);
+
+  await faults.reach('after-connect');
+  assert.deepEqual(injector.calls, []);
+  await faults.reach('after-insert');
+  assert.deepEqual(injector.calls, ['inject stop mongo2', 'inject kill mongo3']);
+  // A retried transaction passes the phase again
+  await faults.reach('after-insert');
+  await faults.reach('before-commit');
+  await faults.reach('during-commit');
+  assert.deepEqual(injector.calls, ['inject stop mongo2', 'inject kill mongo3', 'inject pause mongo2+mongo3']);
+  assert.deepEqual(faults.events.map(e => [e.action, e.phase, e.fault.type]), [
+    ['inject', 'after-insert', 'stop'],
+    ['inject', 'after-insert', 'kill'],
+    ['inject', 'before-commit', 'pause']
+  ]);
+});
+
+test('fault timeline: a step waits its delay after the phase', async () => {
+  const faults = timeline([{ at: 'after-connect', delayMs: 100, members: ['mongo2'], fault: { type: 'stop' } }]);
+  const startedAt = Date.now();
+  await faults.reach('after-connect');
+  assert.ok(Date.now() - startedAt >= 95);
+  assert.ok(faults.events[0].atMs >= 95);
+});
+
+test('fault timeline: healAfterMs heals on schedule and finish heals the rest', async () => {
+  const faults = timeline([
+    { at: 'after-connect', members: ['mongo2'], fault: { type: 'stop' }, healAfterMs: 50 },
+    { at: 'after-connect', members: ['mongo3'], fault: { type: 'pause' } }
+  ]);
+  await faults.reach('after-connect');
+  assert.deepEqual(injector.calls, ['inject stop mongo2', 'inject pause mongo3']);
+
+  await sleep(150);
+  assert.deepEqual(injector.calls.slice(2), ['heal stop mongo2']);
+  const healed = faults.events.find(e => e.action === 'heal');
+  assert.ok(healed && healed.atMs >= 45, `healed at ${healed?.atMs}ms`);
+
+  await faults.finish();
+  assert.deepEqual(injector.calls.slice(2), ['heal stop mongo2', 'heal pause mongo3']);
+  // Nothing is healed twice
+  await faults.finish();
+  assert.equal(injector.calls.length, 4);
+});
+
+test('fault timeline: finish heals a scheduled fault before its time', async () => {
+  const faults = timeline([{ at: 'after-connect', members: ['mongo2'], fault: { type: 'stop' }, healAfterMs: 100 }]);
+  await faults.reach('after-connect');
+  await faults.finish();
+  await sleep(150);
+  assert.deepEqual(injector.calls, ['inject stop mongo2', 'heal stop mongo2']);
+});
+
+test('fault timeline: faults without members are logged on the primary', async () => {
+  const faults = timeline([
+    { at: 'after-insert', members: [], fault: { type: 'stepdown' } },
+    { at: 'before-commit', members: ['mongo2', 'mongo3'], fault: { type: 'pause' } }
+  ]);
+  await faults.reach('after-insert');
+  await faults.reach('before-commit');
+  await faults.finish();
+  assert.deepEqual(logged.filter(line => / on /.test(line)).map(line => line.replace(/^\S+ /, '')), [
+    'Injected stepdown on the primary (after-insert)',
+    'Injected pause on mongo2, mongo3 (before-commit)',
+    'Healed stepdown on the primary',
+    'Healed pause on mongo2, mongo3'
+  ]);
+});
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { bucketize, DEFAULT_LOAD, LoadSample, recovery, summarize } from '../src/load';
+
+const SPEC = { ...DEFAULT_LOAD, bucketMs: 1000 };
+
+/**
+ * One insert every `everyMs` from `fromMs` up to `toMs`, failing with
+ * `error` when given.
+ */
+function samples(fromMs: number, toMs: number, everyMs: number, error?: string): LoadSample[] {
+  const result: LoadSample[] = [];
+  for (let at = fromMs; at < toMs; at += everyMs) {
+    result.push({ operation: 'insert', endedAtMs: at, latencyMs: 5, error });
+  }
+  return result;
+}
+
+function recover(all: LoadSample[], durationMs: number, faultAtMs?: number, healedAtMs?: number) {
+  const buckets = bucketize(SPEC, all, [], new Map(), durationMs, faultAtMs, healedAtMs);
+  return recovery(buckets, all, SPEC, faultAtMs, healedAtMs);
+}
+
+test('load: percentiles use the nearest rank', () => {
+  const values = Array.from({ length: 100 }, (_, i) => 100 - i);
+  assert.deepEqual(summarize(values), { count: 100, p50: 50, p95: 95, p99: 99, max: 100 });
+  assert.equal(values[0], 100, 'the input is left unsorted');
+});
+
+test('load: percentiles of few values', () => {
+  assert.deepEqual(summarize([]), { count: 0, p50: 0, p95: 0, p99: 0, max: 0 });
+  assert.deepEqual(summarize([7]), { count: 1, p50: 7, p95: 7, p99: 7, max: 7 });
+  assert.deepEqual(summarize([30, 10, 20]), { count: 3, p50: 20, p95: 30, p99: 30, max: 30 });
+});
+
+test('load: buckets count successes, errors and the fault and heal markers', () => {
+  const all = [...samples(0, 3000, 100), ...samples(3000, 6000, 500, 'network'), ...samples(6000, 10000, 100)];
+  const buckets = bucketize(SPEC, all, [], new Map(), 10000, 3000, 5000);
+  assert.equal(buckets.length, 10);
+  assert.deepEqual(buckets.map(b => b.throughput), [10, 10, 10, 0, 0, 0, 10, 10, 10, 10]);
+  assert.deepEqual(buckets.map(b => b.errors), [0, 0, 0, 2, 2, 2, 0, 0, 0, 0]);
+  assert.deepEqual(buckets.map(b => b.marker).filter(Boolean), ['fault', 'heal']);
+});
+
+test('load: recovery is measured from the heal and from the fault', () => {
+  const all = [...samples(0, 3000, 100), ...samples(3000, 6000, 500, 'network'), ...samples(6000, 10000, 100)];
+  assert.deepEqual(recover(all, 10000, 3000, 5000), { longestGapMs: 3100, recoveredAfterFaultMs: 3000, recoveryMs: 1000 });
+});
+
+test('load: an unhealed fault measures recovery from the fault', () => {
+  const all = [...samples(0, 3000, 100), ...samples(6000, 10000, 100)];
+  assert.deepEqual(recover(all, 10000, 3000), { longestGapMs: 3100, recoveredAfterFaultMs: 3000, recoveryMs: 3000 });
+});
+
+test('load: a failover that recovers before the heal', () => {
+  const all = [...samples(0, 3000, 100), ...samples(4000, 10000, 100)];
+  assert.deepEqual(recover(all, 10000, 3000, 8000), { longestGapMs: 1100, recoveredAfterFaultMs: 1000, recoveryMs: 0 });
+});
+
+test('load: throughput below 90% of the baseline never counts as recovered', () => {
+  const all = [...samples(0, 3000, 100), ...samples(3000, 10000, 200)];
+  assert.deepEqual(recover(all, 10000, 3000, 5000), { longestGapMs: 200, recoveredAfterFaultMs: undefined, recoveryMs: undefined });
+});
+
+test('load: without a fault only the longest gap is reported', () => {
+  const all = [...samples(0, 2000, 100), ...samples(4500, 6000, 100)];
+  assert.deepEqual(recover(all, 6000), { longestGapMs: 2600 });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { loadConfig } from '../src/config';
+import { FaultEvent } from '../src/fault-timeline';
+import { compareReplay, Replay, REPLAY_VERSION } from '../src/replay';
+import { pause } from '../src/scenarios/pause';
+import { PhaseTiming } from '../src/types';
+
+const PHASES: PhaseTiming[] = [
+  { step: 'connect', startedAtMs: 0, durationMs: 40, outcome: 'ok' },
+  { step: 'transaction', startedAtMs: 40, durationMs: 1, outcome: 'ok' },
+  { step: 'insert', startedAtMs: 41, durationMs: 12, outcome: 'ok' },
+  { step: 'commit', startedAtMs: 260, durationMs: 5000, outcome: 'hung' }
+];
+
+const FAULTS: FaultEvent[] = [
+  { atMs: 55, phase: 'before-commit', action: 'inject', members: ['mongo2', 'mongo3'], fault: { type: 'pause' } },
+  { atMs: 5300, phase: 'before-commit', action: 'heal', members: ['mongo2', 'mongo3'], fault: { type: 'pause' } }
+];
+
+// The pause scenario hanging on its commit, as the recorded run went
+function recorded(): Replay {
+  return {
+    version: REPLAY_VERSION,
+    testId: 'pause-1',
+    recordedAt: '2024-01-01T00:00:00.000Z',
+    scenario: pause,
+    config: loadConfig({}, {}).config,
+    phases: PHASES,
+    faults: FAULTS,
+    outcome: { status: 'hung', detail: 'commit', labels: [], attempts: 1, commitCommands: 1, outcomeAtMs: 5260 }
+  };
+}
+
+function replayed(changes: Partial<Replay> = {}, outcome: Partial<Replay['outcome']> = {}): Replay {
+  const replay = recorded();
+  return { ...replay, testId: 'pause-2', ...changes, outcome: { ...replay.outcome, ...outcome } };
+}
+
+test('replay: the same run with other timings has no differences', () => {
+  const comparison = compareReplay('pause-1.replay.json', recorded(), replayed({
+    phases: PHASES.map(p => ({ ...p, startedAtMs: p.startedAtMs + 30, durationMs: p.durationMs + 5 })),
+    faults: FAULTS.map(f => ({ ...f, atMs: f.atMs + 30 }))
+  }, { outcomeAtMs: 5400 }));
+
+  assert.equal(comparison.sameOutcome, true);
+  assert.deepEqual(comparison.differences, []);
+  assert.deepEqual(comparison.phases.map(p => [p.step, p.recorded?.startedAtMs, p.replayed?.startedAtMs]), [
+    ['connect', 0, 30],
+    ['transaction', 40, 70],
+    ['insert', 41, 71],
+    ['commit', 260, 290]
+  ]);
+  assert.deepEqual(comparison.faults.map(f => [f.action, f.fault, f.members, f.recordedAtMs, f.replayedAtMs]), [
+    ['inject', 'pause', ['mongo2', 'mongo3'], 55, 85],
+    ['heal', 'pause', ['mongo2', 'mongo3'], 5300, 5330]
+  ]);
+});
+
+test('replay: a different outcome is a difference', () => {
+  const comparison = compareReplay('pause-1.replay.json', recorded(), replayed({
+    phases: [...PHASES.slice(0, 3), { step: 'commit', startedAtMs: 260, durationMs: 30, outcome: 'failed' }]
+  }, {
+    status: 'error',
+    detail: 'MaxTimeMSExpired',
+    labels: ['UnknownTransactionCommitResult'],
+    durability: 'error-not-committed'
+  }));
+
+  assert.equal(comparison.sameOutcome, false);
+  assert.deepEqual(comparison.differences, [
+    'outcome: hung@commit -> error MaxTimeMSExpired',
+    'durability: - -> error-not-committed',
+    'error labels: none -> UnknownTransactionCommitResult',
+    'commit: hung -> failed'
+  ]);
+});
+
+test('replay: the same outcome reached differently is listed but still the same outcome', () => {
+  const comparison = compareReplay('pause-1.replay.json', recorded(), replayed({
+    phases: [...PHASES.slice(0, 3), { step: 'update', startedAtMs: 60, durationMs: 3, outcome: 'ok' }, PHASES[3]]
+  }, { attempts: 2, commitCommands: 3 }));
+
+  assert.equal(comparison.sameOutcome, true);
+  assert.deepEqual(comparison.differences, [
+    'attempts: 1 -> 2',
+    'commitTransaction commands: 1 -> 3',
+    'phase 4: commit -> update',
+    'phase 5: none -> commit'
+  ]);
+  assert.deepEqual(comparison.phases.map(p => [p.step, p.recorded?.outcome, p.replayed?.outcome]).slice(3), [
+    ['commit', 'hung', 'ok'],
+    ['commit', undefined, 'hung']
+  ]);
+});
+
+test('replay: missing and changed faults are differences', () => {
+  const partition: FaultEvent = { ...FAULTS[0], fault: { type: 'partition' } };
+  const comparison = compareReplay('pause-1.replay.json', recorded(), replayed({ faults: [partition] }));
+
+  assert.equal(comparison.sameOutcome, true);
+  assert.deepEqual(comparison.differences, [
+    'fault 1: inject pause -> inject partition',
+    'fault 2: heal pause -> none'
+  ]);
+  assert.deepEqual(comparison.faults.map(f => [f.action, f.fault, f.recordedAtMs, f.replayedAtMs]), [
+    ['inject', 'pause', 55, 55],
+    ['heal', 'pause', 5300, undefined]
+  ]);
+});
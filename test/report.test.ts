@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { loadConfig } from '../src/config';
+import { buildReport, escapeXml, toJUnit, toMarkdown } from '../src/report';
+import { RunResult } from '../src/types';
+
+const MESSAGE = 'Transaction <txn> & "commit" didn\'t finish';
+
+function result(changes: Partial<RunResult>): RunResult {
+  return {
+    scenario: 'hang-on-commit',
+    testId: 'hang-on-commit-1',
+    status: 'committed',
+    expected: { status: 'committed' },
+    mode: 'manual',
+    attempts: 1,
+    commitCommands: 1,
+    cleanup: { sessionEnded: true, clientClosed: true },
+    outcomeAtMs: 120,
+    durationMs: 150,
+    phases: [
+      { step: 'connect', startedAtMs: 0, durationMs: 40, outcome: 'ok' },
+      { step: 'insert', startedAtMs: 40, durationMs: 10, outcome: 'ok' },
+      { step: 'commit', startedAtMs: 50, durationMs: 70, outcome: 'ok' }
+    ],
+    faults: [],
+    uri: 'mongodb://localhost:27017/?replicaSet=rs0',
+    config: loadConfig({}, {}).config,
+    eventsFile: 'runs/events.ndjson',
+    replayFile: 'runs/run.replay.json',
+    ...changes
+  };
+}
+
+const PASSED = result({});
+
+const FAILED = result({
+  status: 'error',
+  expected: { status: 'error', codeName: 'MaxTimeMSExpired' },
+  phases: [...PASSED.phases.slice(0, 2), { step: 'commit', startedAtMs: 50, durationMs: 70, outcome: 'failed' }],
+  error: {
+    category: 'write-concern-failed',
+    name: 'MongoWriteConcernError',
+    code: 64,
+    codeName: 'WriteConcernFailed',
+    message: MESSAGE,
+    labels: ['UnknownTransactionCommitResult'],
+    retryable: 'commit',
+    commitOutcomeKnown: false,
+    description: 'waiting for replication timed out'
+  }
+});
+
+const HUNG = result({
+  status: 'hung',
+  expected: { status: 'hung' },
+  cleanup: { sessionEnded: false, clientClosed: false },
+  phases: [...PASSED.phases.slice(0, 2), { step: 'commit', startedAtMs: 50, durationMs: 5000, outcome: 'hung' }],
+  faults: [{ atMs: 45, phase: 'before-commit', action: 'inject', members: ['mongo2', 'mongo3'], fault: { type: 'stop' } }],
+  hang: { step: 'commit', pendingMs: 5000, driver: { pools: [], inFlight: [], heartbeats: [] } }
+});
+
+const REPORT = buildReport('Commit <hangs> & "timeouts"', [
+  { label: 'passed', result: PASSED },
+  { label: 'failed', result: FAILED },
+  { label: 'hung', result: HUNG }
+]);
+
+test('report: escapeXml escapes the five XML-special characters', () => {
+  assert.equal(escapeXml(MESSAGE), 'Transaction &lt;txn&gt; &amp; &quot;commit&quot; didn&apos;t finish');
+  assert.equal(escapeXml('&lt;'), '&amp;lt;');
+  assert.equal(escapeXml('plain'), 'plain');
+});
+
+test('report: JUnit counts the runs that did not match as failures', () => {
+  const xml = toJUnit(REPORT);
+  assert.match(xml, /^<\?xml version="1.0" encoding="UTF-8"\?>\n/);
+  assert.match(xml, /<testsuites name="Commit &lt;hangs&gt; &amp; &quot;timeouts&quot;" tests="3" failures="1" time="0.450">/);
+  assert.equal(xml.match(/<testcase /g)?.length, 3);
+  assert.equal(xml.match(/<failure /g)?.length, 1);
+  assert.match(xml, /<testcase classname="hang-on-commit" name="hung" time="0.150">\n {6}<system-out>/);
+});
+
+test('report: JUnit escapes error messages in the failure and its output', () => {
+  const xml = toJUnit(REPORT);
+  const escaped = 'Transaction &lt;txn&gt; &amp; &quot;commit&quot; didn&apos;t finish';
+  assert.ok(xml.includes(
+    `<failure message="expected error (MaxTimeMSExpired), got WriteConcernFailed" type="error">${escaped}</failure>`
+  ), xml);
+  assert.ok(xml.includes(`Error: WriteConcernFailed (write-concern-failed): ${escaped}`));
+  assert.ok(!xml.includes(MESSAGE));
+  assert.ok(!xml.includes('<txn>'));
+});
+
+test('report: Markdown summarizes every run and details failures and hangs', () => {
+  const markdown = toMarkdown(REPORT);
+  assert.match(markdown, /^# Commit <hangs> & "timeouts"\n/);
+  assert.match(markdown, /\| passed +\| committed +\| committed +\| ✓ +\| 120 /);
+  assert.match(markdown, /\| failed +\| WriteConcernFailed +\| error \(MaxTimeMSExpired\) +\| ⚠️ +\| 120 /);
+  assert.match(markdown, /\| hung +\| hung@commit +\| hung +\| ✓ +\| 120 /);
+  assert.match(markdown, /\| hung +\| 40 +\| - +\| 10 +\| - +\| 5000 \(hung\) /);
+
+  assert.ok(markdown.includes(`- Message: ${MESSAGE}`));
+  assert.ok(markdown.includes('- Labels: UnknownTransactionCommitResult'));
+  assert.ok(markdown.includes('- Commit outcome UNKNOWN'));
+  assert.ok(markdown.includes('- Hung at `commit`, pending for 5000ms'));
+  assert.ok(markdown.includes('- Cleanup: session NOT ended, client NOT closed'));
+  assert.match(markdown, /\| 45 +\| inject +\| stop +\| mongo2, mongo3 \| before-commit \|/);
+  assert.equal(markdown.split('No faults injected.').length - 1, 2);
+});
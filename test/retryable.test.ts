@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { checkCounter, checkInserts, RetryableRecord, summarizeOperation } from '../src/retryable';
+
+function record(operation: RetryableRecord['operation'], seq: number, attempts: number, error?: string): RetryableRecord {
+  return { operation, seq, atMs: seq * 10, attempts, error };
+}
+
+test('retryable: summary counts retries and the operations that failed after them', () => {
+  const records = [
+    record('updateOne', 1, 1),
+    record('updateOne', 5, 2),
+    record('updateOne', 9, 2, 'NotWritablePrimary'),
+    record('updateOne', 13, 1, 'network-error'),
+    record('updateOne', 17, 1, 'network-error'),
+    record('find', 3, 3)
+  ];
+
+  assert.deepEqual(summarizeOperation('updateOne', records), {
+    operation: 'updateOne',
+    attempted: 5,
+    succeeded: 2,
+    failed: 3,
+    errors: { NotWritablePrimary: 1, 'network-error': 2 },
+    retries: 2,
+    retried: 2,
+    failedAfterRetry: 1
+  });
+  assert.equal(summarizeOperation('find', records).retries, 2);
+  assert.equal(summarizeOperation('insertOne', records).attempted, 0);
+});
+
+test('retryable: a counter between acknowledged and acknowledged plus unknown is consistent', () => {
+  const records = [
+    record('updateOne', 1, 1),
+    record('updateOne', 5, 1),
+    record('updateOne', 9, 1, 'network-error'),
+    record('findOneAndUpdate', 2, 1)
+  ];
+
+  assert.deepEqual(checkCounter('updateOne', records, 2), {
+    operation: 'updateOne',
+    acknowledged: 2,
+    unknown: 1,
+    value: 2,
+    duplicates: 0,
+    missing: 0,
+    appliedDespiteError: 0
+  });
+  const applied = checkCounter('updateOne', records, 3);
+  assert.deepEqual([applied.duplicates, applied.missing, applied.appliedDespiteError], [0, 0, 1]);
+});
+
+test('retryable: a counter above every attempt was applied twice, below the acknowledged lost some', () => {
+  const records = [
+    record('findOneAndUpdate', 2, 2),
+    record('findOneAndUpdate', 6, 1),
+    record('findOneAndUpdate', 10, 2, 'NotWritablePrimary')
+  ];
+
+  const duplicated = checkCounter('findOneAndUpdate', records, 5);
+  assert.deepEqual([duplicated.duplicates, duplicated.missing, duplicated.appliedDespiteError], [2, 0, 1]);
+  const lost = checkCounter('findOneAndUpdate', records, 1);
+  assert.deepEqual([lost.duplicates, lost.missing, lost.appliedDespiteError], [0, 1, 0]);
+});
+
+test('retryable: inserts missing, present despite an error, or found twice', () => {
+  const records = [
+    record('insertOne', 0, 1),
+    record('insertOne', 4, 2),
+    record('insertOne', 8, 1),
+    record('insertOne', 12, 1, 'network-error'),
+    record('insertOne', 16, 1, 'NotWritablePrimary'),
+    record('updateOne', 1, 1)
+  ];
+  const found = new Map([[0, 1], [4, 2], [12, 1]]);
+
+  assert.deepEqual(checkInserts(records, found), {
+    missingInserts: [8],
+    failedButPresent: [12],
+    duplicateInserts: [4]
+  });
+  assert.deepEqual(checkInserts(records, new Map([[0, 1], [4, 1], [8, 1]])), {
+    missingInserts: [],
+    failedButPresent: [],
+    duplicateInserts: []
+  });
+});
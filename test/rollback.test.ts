@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { classifyWrites, RollbackWrite } from '../src/rollback';
+
+const PRIMARY = 'localhost:47017';
+const NEW_PRIMARY = 'localhost:47018';
+
+// Isolated at 1000ms: seq 0-1 before, 2-4 taken by the isolated primary, 5-6 by the new one
+const WRITES: RollbackWrite[] = [
+  { seq: 0, atMs: 900, acknowledgedBy: PRIMARY },
+  { seq: 1, atMs: 950, acknowledgedBy: PRIMARY },
+  { seq: 2, atMs: 1100, acknowledgedBy: PRIMARY },
+  { seq: 3, atMs: 1300, acknowledgedBy: PRIMARY },
+  { seq: 4, atMs: 1500, error: 'NotWritablePrimary' },
+  { seq: 5, atMs: 1700, error: 'network' },
+  { seq: 6, atMs: 1900, acknowledgedBy: NEW_PRIMARY }
+];
+
+test('rollback: acknowledged writes missing after the rollback are lost', () => {
+  const result = classifyWrites(WRITES, new Set([0, 1, 5, 6]), 1000);
+  assert.equal(result.attempted, 7);
+  assert.equal(result.acknowledged, 5);
+  assert.equal(result.failed, 2);
+  assert.equal(result.survived, 4);
+  assert.deepEqual(result.lost, [2, 3]);
+  assert.deepEqual(result.lostWindowMs, { first: 100, last: 300 });
+  assert.deepEqual(result.lostAcknowledgedBy, { [PRIMARY]: 2 });
+});
+
+test('rollback: a failed write that landed anyway is not lost', () => {
+  const result = classifyWrites(WRITES, new Set([0, 1, 2, 3, 5, 6]), 1000);
+  assert.deepEqual(result.lost, []);
+  assert.deepEqual(result.failedButPresent, [5]);
+  assert.equal(result.lostWindowMs, undefined);
+  assert.deepEqual(result.lostAcknowledgedBy, {});
+});
+
+test('rollback: a failed write that is absent is neither lost nor present', () => {
+  const result = classifyWrites(WRITES, new Set([0, 1, 2, 3, 6]), 1000);
+  assert.deepEqual(result.lost, []);
+  assert.deepEqual(result.failedButPresent, []);
+});
+
+test('rollback: lost writes with no acknowledging member are counted as unknown', () => {
+  const writes: RollbackWrite[] = [{ seq: 0, atMs: 1200 }, { seq: 1, atMs: 1400, acknowledgedBy: NEW_PRIMARY }];
+  const result = classifyWrites(writes, new Set(), 1000);
+  assert.deepEqual(result.lost, [0, 1]);
+  assert.deepEqual(result.lostAcknowledgedBy, { unknown: 1, [NEW_PRIMARY]: 1 });
+  assert.deepEqual(result.lostWindowMs, { first: 200, last: 400 });
+});
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { before, test } from 'node:test';
+import { Config, getConfig } from '../src/config';
+import { baseUri, proxyUri } from '../src/connection';
+import { waitForHealthy } from '../src/replica-set';
+import { describeOutcome, matchesExpected, runScenario, usesProxy } from '../src/runner';
+import { getScenario, scenarios } from '../src/scenarios';
+import { lifetimeSleepMs } from '../src/scenarios/transaction-limits';
+import { Scenario } from '../src/types';
+import { Backend, selectBackend } from './backend';
+
+/**
+ * When a scenario's outcome has to arrive: within a window measured from
+ * the start of the run or from the first injected fault, or - for hung
+ * scenarios - still pending once the hang threshold has passed.
+ */
+type Timing =
+  | { hung: true }
+  | { from: 'start' | 'fault'; minMs?: number; maxMs: number };
+
+// On top of the configured timeouts; stopping containers is slower than stopping fake members
+const SLACK_MS: Record<Backend, number> = { fake: 500, docker: 1500 };
+
+/**
+ * The timing contract of every registered scenario. A scenario missing
+ * here fails the suite, so new scenarios have to state theirs.
+ */
+const TIMINGS: Record<string, (config: Config, slackMs: number) => Timing> = {
+  'timeouts': (_, slack) => ({ from: 'start', maxMs: 5000 + slack }),
+  'timeouts-lose-majority': ({ transaction }, slack) => ({
+    from: 'fault',
+    minMs: transaction.wtimeoutMS,
+    maxMs: (transaction.wtimeoutMS ?? 0) + slack
+  }),
+  'no-timeout-hang-on-write': () => ({ hung: true }),
+  'hang-on-commit': () => ({ hung: true }),
+  'pause': () => ({ hung: true }),
+  'pause-primary': () => ({ hung: true }),
+  'partition-hang-on-commit': () => ({ hung: true }),
+  // The update after the stepdown fails on the old primary, right after the 700ms sleep
+  'stepdown-mid-transaction': (_, slack) => ({ from: 'fault', maxMs: 700 + 2 * slack }),
+  'client-timeout-pause': ({ run }, slack) => ({ from: 'fault', maxMs: run.clientTimeoutMs + slack }),
+  'psa-lose-secondary': ({ transaction }, slack) => ({
+    from: 'fault',
+    minMs: transaction.wtimeoutMS,
+    maxMs: (transaction.wtimeoutMS ?? 0) + slack
+  }),
+  'server-selection-no-primary': () => ({ hung: true }),
+  // Aborted by the reaper during the sleep; the commit right after it fails
+  'transaction-lifetime': ({ run }, slack) => ({
+    from: 'start',
+    minMs: lifetimeSleepMs(run.transactionLifetimeLimitSeconds),
+    maxMs: lifetimeSleepMs(run.transactionLifetimeLimitSeconds) + 5000 + slack
+  }),
+  'transaction-large': (_, slack) => ({ from: 'start', maxMs: 60000 + slack }),
+  'transaction-many-writes': (_, slack) => ({ from: 'start', maxMs: 60000 + slack }),
+  // The update right after the index build conflicts at once
+  'ddl-conflict': (_, slack) => ({ from: 'fault', maxMs: 1000 + slack })
+};
+
+function skipReason(scenario: Scenario, backend: Backend): string | undefined {
+  if (backend === 'fake') {
+    return undefined;
+  }
+  if (scenario.topology) {
+    return `needs a replica set initiated with "rs init ${scenario.topology}"`;
+  }
+  if (usesProxy(scenario) && !getConfig().mongo.proxy) {
+    return 'needs a replica set initiated with --proxy';
+  }
+  return undefined;
+}
+
+let backend: Backend;
+
+before(async () => {
+  backend = await selectBackend();
+  console.log(`Running scenarios against the ${backend} backend`);
+});
+
+for (const { name } of scenarios()) {
+  test(name, async t => {
+    const scenario = getScenario(name) as Scenario;
+    const config = getConfig();
+    const contract = TIMINGS[name];
+    assert.ok(contract, `No timing declared for scenario ${name} in test/scenarios.test.ts`);
+
+    const reason = skipReason(scenario, backend);
+    if (reason) {
+      t.skip(reason);
+      return;
+    }
+    if (backend === 'docker') {
+      await waitForHealthy(usesProxy(scenario) ? proxyUri() : baseUri());
+    }
+
+    const timing = contract(config, SLACK_MS[backend]);
+    const result = await runScenario(scenario);
+
+    assert.ok(
+      matchesExpected(result, scenario.expected),
+      `expected ${JSON.stringify(scenario.expected)}, got ${describeOutcome(result)}`
+    );
+
+    if ('hung' in timing) {
+      const threshold = scenario.hangAfterMs ?? config.run.hangAfterMs;
+      assert.ok(result.hang, 'no hang report');
+      assert.ok(
+        result.hang.pendingMs >= threshold,
+        `${result.hang.step} pending for ${result.hang.pendingMs}ms, expected at least ${threshold}ms`
+      );
+    } else {
+      const fault = result.faults.find(event => event.action === 'inject');
+      if (timing.from === 'fault') {
+        assert.ok(fault, 'no fault was injected');
+      }
+      const elapsed = result.outcomeAtMs - (timing.from === 'fault' ? fault?.atMs ?? 0 : 0);
+      assert.ok(elapsed <= timing.maxMs, `outcome after ${elapsed}ms from ${timing.from}, expected at most ${timing.maxMs}ms`);
+      if (timing.minMs !== undefined) {
+        assert.ok(elapsed >= timing.minMs, `outcome after ${elapsed}ms from ${timing.from}, expected at least ${timing.minMs}ms`);
+      }
+    }
+
+    assert.ok(result.cleanup.sessionEnded, 'the session was not ended');
+    assert.ok(result.cleanup.clientClosed, 'the client was not closed');
+  });
+}
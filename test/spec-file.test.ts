@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, test } from 'node:test';
+import { ConfigError } from '../src/config';
+import { loadLoadSpec } from '../src/load';
+import { loadRetryableSpec } from '../src/retryable';
+import { loadRollbackSpec } from '../src/rollback';
+import { loadRpcSpec } from '../src/rpc-harness';
+import { DEFAULT_SWEEP, loadSweepSpec } from '../src/sweep';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mongo-repro-spec-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+function specFile(contents: unknown): string {
+  const file = path.join(dir, `spec-${++files}.json`);
+  fs.writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents));
+  return file;
+}
+
+function problems<T>(load: (file: string) => T, contents: unknown): string[] {
+  const file = specFile(contents);
+  try {
+    load(file);
+  } catch (err) {
+    assert.ok(err instanceof ConfigError, `expected a ConfigError, got ${err}`);
+    return err.problems.map(problem => problem.replace(file, '<file>'));
+  }
+  assert.fail('expected the spec to be rejected');
+}
+
+test('spec file: no file means the defaults, a file overrides them', () => {
+  assert.equal(loadSweepSpec(undefined), DEFAULT_SWEEP);
+  const spec = loadSweepSpec(specFile({ faults: ['pause'], wtimeoutMS: [null] }));
+  assert.deepEqual(spec.faults, ['pause']);
+  assert.deepEqual(spec.wtimeoutMS, [null]);
+  assert.equal(spec.base, DEFAULT_SWEEP.base);
+});
+
+test('spec file: unparsable JSON and non-objects are rejected', () => {
+  assert.match(problems(loadSweepSpec, '{ "faults": ')[0], /^<file>: /);
+  assert.deepEqual(problems(loadSweepSpec, '[1, 2]'), ['<file>: expected a JSON object with the spec\'s settings']);
+});
+
+test('spec file: sweep reports unknown keys and every invalid value', () => {
+  assert.deepEqual(problems(loadSweepSpec, {
+    fualts: ['stop'],
+    faults: ['stop', 'stopp'],
+    wtimeoutMS: ['2000'],
+    maxTimeMS: [],
+    at: 'after-commit',
+    hangAfterMs: 0
+  }), [
+    '<file>: unknown setting "fualts"',
+    '<file>: wtimeoutMS: expected a non-empty list of integers >= 0 or null, got ["2000"]',
+    '<file>: maxTimeMS: expected a non-empty list of integers >= 0 or null, got []',
+    '<file>: faults: expected a non-empty list of stop, kill, partition, pause, stepdown, got ["stop","stopp"]',
+    '<file>: at: expected one of after-connect, after-insert, before-commit, during-commit, got "after-commit"',
+    '<file>: hangAfterMs: expected an integer >= 1, got 0'
+  ]);
+});
+
+test('spec file: rollback', () => {
+  assert.deepEqual(loadRollbackSpec(specFile({ journal: [true] })).journal, [true]);
+  assert.deepEqual(problems(loadRollbackSpec, { journal: [], isolatedForMs: '15000', collection: '' }), [
+    '<file>: journal: expected a non-empty list of true/false, got []',
+    '<file>: collection: expected a non-empty string, got ""',
+    '<file>: isolatedForMs: expected an integer >= 1, got "15000"'
+  ]);
+});
+
+test('spec file: load, including its fault', () => {
+  const fault = { atMs: 5000, members: ['mongo2'], fault: { type: 'proxy', fault: { type: 'latency', ms: 200 } }, healAfterMs: null };
+  assert.deepEqual(loadLoadSpec(specFile({ fault })).fault, fault);
+  assert.equal(loadLoadSpec(specFile({ fault: null })).fault, null);
+
+  assert.deepEqual(problems(loadLoadSpec, { workers: 0, mix: { transaction: 1, upsert: 1 }, durationMs: 'long' }), [
+    '<file>: workers: expected an integer >= 1, got 0',
+    '<file>: durationMs: expected an integer >= 0, got "long"',
+    '<file>: mix: expected weights >= 0 of transaction, insert, update, find, got {"transaction":1,"upsert":1}'
+  ]);
+  assert.deepEqual(problems(loadLoadSpec, { fault: { atMs: 1000, members: ['mongo1'], fault: { type: 'stopp' }, healAfterMs: 1000 } }), [
+    '<file>: fault.fault: expected { type: stop | kill | pause | partition | isolate | stepdown | reconfig | proxy | script | create-index, ... }, got {"type":"stopp"}'
+  ]);
+  assert.match(problems(loadLoadSpec, { fault: { atMs: 1000, members: ['mongo1'], fault: { type: 'proxy', fault: { type: 'latency' } }, healAfterMs: 1000 } })[0],
+    /^<file>: fault\.fault: expected \{ type: 'proxy'/);
+  assert.match(problems(loadLoadSpec, { fault: { atMs: '1000', members: 'mongo1', fault: { type: 'stop' } } })[0],
+    /^<file>: fault: expected null or \{ atMs, members/);
+});
+
+test('spec file: rpc', () => {
+  assert.equal(loadRpcSpec(specFile({ requestTimeoutMs: null })).requestTimeoutMs, null);
+  assert.deepEqual(problems(loadRpcSpec, { ratePerSec: 0, mix: { addWallet: -1 }, requestTimeoutMs: 0, fault: { atMs: 1000 } }), [
+    '<file>: ratePerSec: expected an integer >= 1, got 0',
+    '<file>: mix: expected weights >= 0 of addWallet, getWallet, listWallets, got {"addWallet":-1}',
+    '<file>: requestTimeoutMs: expected null or an integer >= 1, got 0',
+    '<file>: fault: expected null or { atMs, members, fault: { type, ... }, healAfterMs }, got {"atMs":1000}'
+  ]);
+});
+
+test('spec file: retryable', () => {
+  assert.deepEqual(loadRetryableSpec(specFile({ faults: ['kill'] })).faults, ['kill']);
+  assert.deepEqual(problems(loadRetryableSpec, { settings: [{ retryWrites: 'yes', retryReads: true }], faults: ['failover'], faultForMs: 0 }), [
+    '<file>: settings: expected a non-empty list of { retryWrites: true/false, retryReads: true/false }, got [{"retryWrites":"yes","retryReads":true}]',
+    '<file>: faults: expected a non-empty list of stepdown, kill, partition, got ["failover"]',
+    '<file>: faultForMs: expected an integer >= 1, got 0'
+  ]);
+});
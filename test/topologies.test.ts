@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { MemberSpec, TOPOLOGIES, validateTopology } from '../src/topologies';
+
+function members(count: number, spec: Omit<MemberSpec, 'name'> = {}): MemberSpec[] {
+  return Array.from({ length: count }, (_, i) => ({ name: `mongo${i + 1}`, ...spec }));
+}
+
+const CASES: { name: string; members: MemberSpec[]; problems: string[] }[] = [
+  { name: 'three voters', members: members(3), problems: [] },
+  { name: 'seven voters', members: members(7), problems: [] },
+  { name: 'eight voters', members: members(8), problems: ['at most 7 members can vote'] },
+  {
+    name: 'seven voters and a non-voting member',
+    members: [...members(7), { name: 'mongo8', priority: 0, votes: 0 }],
+    problems: []
+  },
+  {
+    name: 'a member listed twice',
+    members: [...members(2), { name: 'mongo1' }],
+    problems: ['a member is listed twice']
+  },
+  {
+    name: 'an arbiter with priority 0',
+    members: [...members(2), { name: 'mongo3', arbiter: true, priority: 0 }],
+    problems: []
+  },
+  {
+    name: 'an arbiter with priority',
+    members: [...members(2), { name: 'mongo3', arbiter: true, priority: 1 }],
+    problems: ['mongo3: an arbiter cannot have priority, hidden or secondaryDelaySecs']
+  },
+  {
+    name: 'a hidden arbiter',
+    members: [...members(2), { name: 'mongo3', arbiter: true, hidden: true }],
+    problems: [
+      'mongo3: an arbiter cannot have priority, hidden or secondaryDelaySecs',
+      'mongo3: hidden and non-voting members need priority 0'
+    ]
+  },
+  {
+    name: 'only arbiters and priority 0 members',
+    members: [{ name: 'mongo1', priority: 0 }, { name: 'mongo2', priority: 0 }, { name: 'mongo3', arbiter: true }],
+    problems: ['no member can become primary']
+  },
+  {
+    name: 'the only member with priority does not vote',
+    members: [{ name: 'mongo1', priority: 0 }, { name: 'mongo2', priority: 1, votes: 0 }],
+    problems: ['no member can become primary', 'mongo2: hidden and non-voting members need priority 0']
+  },
+  {
+    name: 'a hidden member with priority',
+    members: [...members(2), { name: 'mongo3', hidden: true }],
+    problems: ['mongo3: hidden and non-voting members need priority 0']
+  },
+  {
+    name: 'a delayed member that is not hidden',
+    members: [...members(2), { name: 'mongo3', priority: 0, secondaryDelaySecs: 60 }],
+    problems: ['mongo3: delayed members must be hidden']
+  }
+];
+
+for (const { name, members: topologyMembers, problems } of CASES) {
+  test(`topologies: ${name}`, () => {
+    assert.deepEqual(validateTopology({ name, description: name, members: topologyMembers }), problems);
+  });
+}
+
+test('topologies: every named topology is valid', () => {
+  for (const topology of TOPOLOGIES) {
+    assert.deepEqual(validateTopology(topology), [], topology.name);
+  }
+});
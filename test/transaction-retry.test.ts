@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, test } from 'node:test';
+import { MongoClient } from 'mongodb';
+import { initConfig } from '../src/config';
+import { FakeReplicaSet, FakeRule } from '../src/fake-mongod';
+import { backoffDelay, getRetryPolicy, RetryEvent, RetryPolicy, runTransactionWithRetry } from '../src/transaction-retry';
+
+const CONSERVATIVE = getRetryPolicy('conservative') as RetryPolicy;
+const COMMIT_ONLY = getRetryPolicy('commit-only') as RetryPolicy;
+
+// Keeps the loop tests fast: 1ms, 2ms, 4ms, 5ms, ...
+function quick(policy: RetryPolicy, changes: Partial<RetryPolicy> = {}): RetryPolicy {
+  return { ...policy, initialBackoffMs: 1, maxBackoffMs: 5, jitter: false, ...changes };
+}
+
+const WRITE_CONFLICT: FakeRule = {
+  command: 'insert',
+  reply: { type: 'error', code: 112, codeName: 'WriteConflict', labels: ['TransientTransactionError'] },
+  times: 1
+};
+
+function commitFails(times: number): FakeRule {
+  return {
+    command: 'commitTransaction',
+    reply: { type: 'error', code: 50, codeName: 'MaxTimeMSExpired', labels: ['UnknownTransactionCommitResult'] },
+    times
+  };
+}
+
+test('transaction retry: backoff grows by the multiplier up to the cap', () => {
+  const policy = { ...CONSERVATIVE, jitter: false };
+  assert.deepEqual([1, 2, 3, 4, 5, 6].map(retry => backoffDelay(policy, retry)), [100, 200, 400, 800, 1000, 1000]);
+});
+
+test('transaction retry: jitter stays between 0 and the capped backoff', () => {
+  for (let i = 0; i < 200; i++) {
+    const third = backoffDelay(CONSERVATIVE, 3);
+    assert.ok(Number.isInteger(third) && third >= 0 && third < 400, `retry 3 waited ${third}ms`);
+    const capped = backoffDelay(CONSERVATIVE, 10);
+    assert.ok(capped >= 0 && capped < CONSERVATIVE.maxBackoffMs, `retry 10 waited ${capped}ms`);
+  }
+});
+
+let fake: FakeReplicaSet;
+let client: MongoClient;
+
+before(async () => {
+  initConfig([]);
+  fake = new FakeReplicaSet();
+  await fake.start();
+  client = new MongoClient(fake.uri(), { serverSelectionTimeoutMS: 2000 });
+  await client.connect();
+});
+
+beforeEach(() => fake.clearScripts());
+
+after(async () => {
+  await client.close();
+  await fake.stop();
+});
+
+interface Run {
+  events: RetryEvent[];
+  bodyRuns: number;
+  error?: any;
+}
+
+// Insert one document per body run with `rules` scripted on the primary
+async function run(policy: RetryPolicy, rules: FakeRule[]): Promise<Run> {
+  for (const rule of rules) {
+    fake.script(fake.primaryName as string, rule);
+  }
+  const result: Run = { events: [], bodyRuns: 0 };
+  const session = client.startSession();
+  try {
+    await runTransactionWithRetry(session, async s => {
+      result.bodyRuns++;
+      await client.db('test').collection('retry').insertOne({ run: result.bodyRuns }, { session: s });
+    }, policy, undefined, event => result.events.push(event));
+  } catch (error) {
+    result.error = error;
+  } finally {
+    await session.endSession();
+  }
+  return result;
+}
+
+test('transaction retry: TransientTransactionError reruns the whole transaction', async () => {
+  const { events, bodyRuns, error } = await run(quick(CONSERVATIVE), [WRITE_CONFLICT]);
+  assert.equal(error, undefined);
+  assert.equal(bodyRuns, 2);
+  assert.deepEqual(events.map(e => [e.kind, e.attempt, e.delayMs, e.error.retryable]), [['transaction', 2, 1, 'transaction']]);
+});
+
+test('transaction retry: UnknownTransactionCommitResult retries only the commit', async () => {
+  const { events, bodyRuns, error } = await run(quick(CONSERVATIVE), [commitFails(2)]);
+  assert.equal(error, undefined);
+  assert.equal(bodyRuns, 1);
+  assert.deepEqual(events.map(e => [e.kind, e.attempt, e.delayMs, e.error.retryable]), [
+    ['commit', 2, 1, 'commit'],
+    ['commit', 3, 2, 'commit']
+  ]);
+});
+
+test('transaction retry: TransientTransactionError on commit reruns the whole transaction', async () => {
+  const { events, bodyRuns, error } = await run(quick(CONSERVATIVE), [{
+    command: 'commitTransaction',
+    reply: { type: 'error', code: 251, codeName: 'NoSuchTransaction', labels: ['TransientTransactionError'] },
+    times: 1
+  }]);
+  assert.equal(error, undefined);
+  assert.equal(bodyRuns, 2);
+  assert.deepEqual(events.map(e => [e.kind, e.attempt]), [['transaction', 2]]);
+});
+
+test('transaction retry: gives up with the last error once the commit attempts run out', async () => {
+  const { events, bodyRuns, error } = await run(quick(CONSERVATIVE), [commitFails(5)]);
+  assert.equal(error?.codeName, 'MaxTimeMSExpired');
+  assert.equal(bodyRuns, 1);
+  // maxAttempts is 3: two retries, then the third failure is thrown
+  assert.deepEqual(events.map(e => [e.kind, e.attempt]), [['commit', 2], ['commit', 3]]);
+});
+
+test('transaction retry: a policy without transaction retries rethrows TransientTransactionError', async () => {
+  const { events, bodyRuns, error } = await run(quick(COMMIT_ONLY), [WRITE_CONFLICT]);
+  assert.equal(error?.codeName, 'WriteConflict');
+  assert.equal(bodyRuns, 1);
+  assert.deepEqual(events, []);
+});
+
+test('transaction retry: no retry starts past the deadline', async () => {
+  const { events, error } = await run(quick(CONSERVATIVE, { initialBackoffMs: 50, maxBackoffMs: 50, deadlineMs: 20 }), [commitFails(1)]);
+  assert.equal(error?.codeName, 'MaxTimeMSExpired');
+  assert.deepEqual(events, []);
+});